@@ -0,0 +1,83 @@
+import { describe, it, expect } from '@jest/globals';
+import { AccessPolicyService } from '../services/access-policy-service.js';
+import type { BaseDatabaseAdapter } from '../adapters/base-database-adapter.js';
+import type { DatabaseConnectionManager } from '../adapters/database-connection-manager.js';
+
+const connectionManager = { getCurrentConnectionName: () => 'main' } as unknown as DatabaseConnectionManager;
+const postgres = { getType: () => 'postgresql' } as unknown as BaseDatabaseAdapter;
+const mysql = { getType: () => 'mysql' } as unknown as BaseDatabaseAdapter;
+const sqlite = { getType: () => 'sqlite' } as unknown as BaseDatabaseAdapter;
+
+const createService = () => {
+  const service = new AccessPolicyService(connectionManager);
+  service.loadConfiguredPolicies([
+    {
+      name: 'main',
+      type: 'postgresql',
+      accessPolicy: {
+        tools: { deny: ['import_*'] },
+        tables: { allow: ['public.*', 'users', 'orders'], deny: ['audit_*'] },
+        deniedColumns: ['users.password_hash', '*.ssn'],
+      },
+    },
+  ]);
+  return service;
+};
+
+describe('AccessPolicyService', () => {
+  it('should allow and deny tools and tables by pattern', () => {
+    const service = createService();
+
+    expect(() => service.assertToolAllowed('import_data', ['main'])).toThrow("denies tool 'import_data'");
+    expect(() => service.assertToolAllowed('execute_query', [null])).not.toThrow();
+    expect(service.isTableAllowed('main', 'users')).toBe(true);
+    expect(service.isTableAllowed('main', 'invoices', 'public')).toBe(true);
+    expect(service.isTableAllowed('main', 'audit_log', 'public')).toBe(false);
+    expect(service.isTableAllowed('main', 'secrets')).toBe(false);
+    expect(service.isTableAllowed('other', 'secrets')).toBe(true);
+  });
+
+  it('should reject queries on denied tables or naming denied columns', () => {
+    const service = createService();
+
+    expect(() => service.assertQueryAllowed('main', postgres, 'SELECT * FROM users u JOIN secrets s ON s.id = u.id')).toThrow(
+      "denies table 'secrets'"
+    );
+    expect(() => service.assertQueryAllowed('main', postgres, 'SELECT password_hash AS p FROM users')).toThrow(
+      "denies column 'password_hash'"
+    );
+    expect(() => service.assertQueryAllowed('main', postgres, 'SELECT password_hash FROM orders')).not.toThrow();
+    expect(() => service.assertQueryAllowed('main', postgres, 'SELECT row_to_json(u) FROM users u')).toThrow('whole rows (u)');
+    expect(() => service.assertQueryAllowed('main', postgres, 'WITH s AS (SELECT * FROM users) SELECT json_agg(s) FROM s')).toThrow('whole rows (s)');
+    expect(() => service.assertQueryAllowed('main', postgres, 'SELECT u.id, count(u.*) FROM users u GROUP BY u.id')).not.toThrow();
+  });
+
+  it('should find denied tables inside parenthesized joins and refuse FROM targets it cannot read', () => {
+    const service = createService();
+
+    expect(() => service.assertQueryAllowed('main', postgres, 'SELECT * FROM (secrets CROSS JOIN users)')).toThrow("denies table 'secrets'");
+    expect(() => service.assertQueryAllowed('main', mysql, 'SELECT * FROM users JOIN (secrets) ON 1=1')).toThrow("denies table 'secrets'");
+    expect(() => service.assertQueryAllowed('main', sqlite, 'SELECT * FROM (secrets)')).toThrow("denies table 'secrets'");
+    expect(() => service.assertQueryAllowed('main', postgres, 'SELECT * FROM (SELECT id FROM orders) o, secrets')).toThrow("denies table 'secrets'");
+    expect(() => service.assertQueryAllowed('main', postgres, 'SELECT * FROM ?')).toThrow('cannot check what the query reads from ?');
+    expect(() => service.assertQueryAllowed('main', postgres, 'SELECT * FROM (orders JOIN users ON users.id = orders.user_id), generate_series(1, 2) g')).not.toThrow();
+  });
+
+  it('should redact denied columns from rows, fields and table info', () => {
+    const service = createService();
+    const result = service.redactResult('main', postgres, 'SELECT * FROM users', {
+      rows: [{ id: 1, password_hash: 'x', ssn: '123' }],
+      rowCount: 1,
+      fields: ['id', 'password_hash', 'ssn'].map(name => ({ name, dataType: 'text', nullable: true })),
+    });
+
+    expect(result.rows).toEqual([{ id: 1 }]);
+    expect(result.fields.map(field => field.name)).toEqual(['id']);
+
+    const tables = service.filterTables('main', [
+      { name: 'users', columns: [{ name: 'id' }, { name: 'password_hash' }] },
+      { name: 'secrets', columns: [] },
+    ]);
+    expect(tables).toEqual([{ name: 'users', columns: [{ name: 'id' }] }]);
+  });
+});
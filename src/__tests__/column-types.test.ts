@@ -0,0 +1,17 @@
+import { describe, it, expect } from '@jest/globals';
+import { ColumnTypes } from '../core/column-types.js';
+
+describe('ColumnTypes', () => {
+  it('should resolve aliases and read the length or precision from the type name', () => {
+    expect(ColumnTypes.normalize({ dataType: 'int4' })).toEqual(ColumnTypes.normalize({ dataType: 'INTEGER' }));
+    expect(ColumnTypes.normalize({ dataType: 'character varying', maxLength: 255 }))
+      .toEqual({ name: 'varchar', length: 255, precision: null, scale: null });
+    expect(ColumnTypes.normalize({ dataType: 'varchar(255)' })).toEqual({ name: 'varchar', length: 255, precision: null, scale: null });
+    expect(ColumnTypes.normalize({ dataType: 'decimal(10,2)' })).toEqual({ name: 'numeric', length: null, precision: 10, scale: 2 });
+    expect(ColumnTypes.normalize({ dataType: 'timestamp(6) with time zone' }).name).toBe('timestamptz');
+  });
+
+  it('should ignore the display width and reported precision of integer types', () => {
+    expect(ColumnTypes.normalize({ dataType: 'int(11)', precision: 10 })).toEqual({ name: 'integer', length: null, precision: null, scale: null });
+  });
+});
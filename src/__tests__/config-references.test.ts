@@ -0,0 +1,67 @@
+import { describe, it, expect, beforeAll, afterAll } from '@jest/globals';
+import { mkdtempSync, writeFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { ConfigReferences } from '../core/config-references.js';
+
+describe('ConfigReferences', () => {
+  let dir: string;
+
+  beforeAll(() => {
+    dir = mkdtempSync(join(tmpdir(), 'pinemcp-refs-'));
+    writeFileSync(join(dir, 'pg_password'), 's3cret\n');
+  });
+
+  afterAll(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should interpolate environment variables and defaults', () => {
+    const env = { PG_HOST: 'db.internal', PG_PORT: '6543' };
+    const resolved = ConfigReferences.resolve(
+      { type: 'postgresql', host: '${PG_HOST}', port: '${PG_PORT}', database: '${PG_DB:-app}' },
+      env
+    );
+
+    expect(resolved).toEqual({ type: 'postgresql', host: 'db.internal', port: 6543, database: 'app' });
+  });
+
+  it('should read file: secret references', () => {
+    const resolved = ConfigReferences.resolve({ password: `file:${join(dir, 'pg_password')}` }, {});
+    expect(resolved.password).toBe('s3cret');
+  });
+
+  it('should leave SQLite file: URIs alone', () => {
+    const resolved = ConfigReferences.resolve({ filename: 'file:data.db?mode=ro' }, {});
+    expect(resolved.filename).toBe('file:data.db?mode=ro');
+    expect(ConfigReferences.findUnresolved(resolved)).toEqual([]);
+  });
+
+  it('should report unresolved references', () => {
+    const resolved = ConfigReferences.resolve(
+      { password: '${MISSING_PASSWORD}', secretAccessKey: `file:${join(dir, 'missing')}` },
+      {}
+    );
+
+    expect(ConfigReferences.findUnresolved(resolved)).toEqual([
+      "Unresolved environment variable MISSING_PASSWORD in 'password'",
+      `Secret file '${join(dir, 'missing')}' referenced by 'secretAccessKey' could not be read`,
+    ]);
+    expect(ConfigReferences.unresolvedFields({ ...resolved, host: 'localhost', port: 5432 })).toEqual(['password', 'secretAccessKey']);
+  });
+
+  it('should only allow references named in the allowlist', () => {
+    const config = {
+      host: '${PG_HOST}',
+      password: '${PINEMCP_AUTH_TOKEN}',
+      user: `file:${join(dir, 'pg_password')}`,
+      secretAccessKey: `file:${join(dir, '..', 'etc', 'passwd')}`,
+      filename: 'file:data.db',
+    };
+
+    expect(ConfigReferences.findDisallowed(config, ['PG_HOST', dir])).toEqual([
+      "Environment variable PINEMCP_AUTH_TOKEN in 'password' is not in the server's connectionReferences",
+      `Secret file '${join(dir, '..', 'etc', 'passwd')}' referenced by 'secretAccessKey' is not under a directory in the server's connectionReferences`,
+    ]);
+  });
+});
@@ -0,0 +1,17 @@
+import { describe, it, expect } from '@jest/globals';
+import { ContinuationToken } from '../core/continuation-token.js';
+
+describe('ContinuationToken', () => {
+  it('should round-trip the page state for the same query', () => {
+    const page = { offset: 20, pageState: 'abc' };
+    const token = ContinuationToken.encode('SELECT * FROM t', ['1'], page);
+    expect(ContinuationToken.decode(token, 'SELECT * FROM t', ['1'])).toEqual(page);
+  });
+
+  it('should reject tokens for another query, other parameters or garbage', () => {
+    const token = ContinuationToken.encode('SELECT * FROM t', ['1'], { offset: 20 });
+    expect(() => ContinuationToken.decode(token, 'SELECT * FROM u', ['1'])).toThrow('different query');
+    expect(() => ContinuationToken.decode(token, 'SELECT * FROM t', ['2'])).toThrow('different query');
+    expect(() => ContinuationToken.decode('not-a-token', 'SELECT * FROM t', ['1'])).toThrow('Invalid continuation token');
+  });
+});
@@ -0,0 +1,87 @@
+import { describe, it, expect } from '@jest/globals';
+import { DdlBuilder } from '../core/ddl-builder.js';
+import { ColumnInfo, TableInfo } from '../types/database.js';
+
+const column = (name: string, dataType: string, extra: Partial<ColumnInfo> = {}): ColumnInfo => ({
+  name, dataType, nullable: true, isPrimaryKey: false, isForeignKey: false, ...extra,
+});
+
+const users: TableInfo = {
+  name: 'users',
+  schema: 'app',
+  type: 'table',
+  columns: [column('id', 'integer', { nullable: false, isPrimaryKey: true }), column('email', 'varchar', { maxLength: 100 })],
+  indexes: [
+    { name: 'users_pkey', columns: ['id'], unique: true, type: 'btree' },
+    { name: 'idx_users_email', columns: ['email'], unique: false, type: 'btree' },
+  ],
+  constraints: [{ name: 'users_pkey', type: 'PRIMARY KEY', columns: ['id'] }],
+};
+
+describe('DdlBuilder', () => {
+  it('should alter a column in place on PostgreSQL and SQL Server', () => {
+    const from = users.columns[1]!;
+    const to = column('email', 'varchar', { maxLength: 255, nullable: false, defaultValue: "''" });
+
+    expect(DdlBuilder.alterColumn(users, from, to, 'postgresql')).toEqual([
+      'ALTER TABLE "app"."users" ALTER COLUMN "email" TYPE varchar(255) USING "email"::varchar(255)',
+      'ALTER TABLE "app"."users" ALTER COLUMN "email" SET NOT NULL',
+      'ALTER TABLE "app"."users" ALTER COLUMN "email" SET DEFAULT \'\'',
+    ]);
+    expect(DdlBuilder.alterColumn(users, to, from, 'mssql').slice(1)).toEqual([
+      'ALTER TABLE [app].[users] ALTER COLUMN [email] varchar(100) NULL',
+    ]);
+  });
+
+  it('should rebuild a SQLite table and recreate its own indexes', () => {
+    const { schema: _schema, ...current } = users;
+    const desired = { ...current, columns: [...current.columns, column('age', 'INTEGER', { nullable: false })] };
+
+    expect(DdlBuilder.rebuildTable(current, desired, 'sqlite')).toEqual([
+      'CREATE TABLE "pinemcp_rebuild_users" (\n  "id" integer NOT NULL,\n  "email" varchar(100),\n  "age" INTEGER NOT NULL,\n  CONSTRAINT "users_pkey" PRIMARY KEY ("id")\n)',
+      'INSERT INTO "pinemcp_rebuild_users" ("id", "email") SELECT "id", "email" FROM "users"',
+      'DROP TABLE "users"',
+      'ALTER TABLE "pinemcp_rebuild_users" RENAME TO "users"',
+      'CREATE INDEX "idx_users_email" ON "users" ("email")',
+    ]);
+  });
+
+  it('should add and drop constraints in each dialect', () => {
+    const check = { name: 'users_email_check', type: 'CHECK' as const, columns: ['email'], definition: "email <> ''" };
+    const foreignKey = { name: 'users_team_fk', type: 'FOREIGN KEY' as const, columns: ['team_id'], referencedTable: 'teams', referencedColumns: ['id'] };
+
+    expect(DdlBuilder.addConstraint(users, check, 'postgresql')).toBe('ALTER TABLE "app"."users" ADD CONSTRAINT "users_email_check" CHECK (email <> \'\')');
+    expect(DdlBuilder.addConstraint(users, foreignKey, 'mssql'))
+      .toBe('ALTER TABLE [app].[users] ADD CONSTRAINT [users_team_fk] FOREIGN KEY ([team_id]) REFERENCES [app].[teams] ([id])');
+    expect(DdlBuilder.dropConstraint(users, users.constraints[0]!, 'mysql')).toBe('ALTER TABLE `app`.`users` DROP PRIMARY KEY');
+    expect(DdlBuilder.dropConstraint(users, foreignKey, 'mysql')).toBe('ALTER TABLE `app`.`users` DROP FOREIGN KEY `users_team_fk`');
+    expect(DdlBuilder.dropConstraint(users, check, 'postgresql')).toBe('ALTER TABLE "app"."users" DROP CONSTRAINT "users_email_check"');
+    expect(() => DdlBuilder.addConstraint(users, check, 'sqlite')).toThrow('rebuild the table');
+  });
+
+  it('should drop routines by signature and triggers by table on PostgreSQL', () => {
+    const routine = { type: 'function' as const, name: 'total', schema: 'app', signature: 'integer, text', definition: '' };
+    const trigger = { type: 'trigger' as const, name: 'audit', schema: 'app', table: 'users', definition: '' };
+
+    expect(DdlBuilder.dropObject(routine, 'postgresql')).toBe('DROP FUNCTION "app"."total"(integer, text)');
+    expect(DdlBuilder.dropObject(routine, 'mysql')).toBe('DROP FUNCTION `app`.`total`');
+    expect(DdlBuilder.dropObject(trigger, 'postgresql')).toBe('DROP TRIGGER "audit" ON "app"."users"');
+    expect(DdlBuilder.dropObject(trigger, 'sqlite')).toBe('DROP TRIGGER "audit"');
+  });
+
+  it('should alter SQL Server sequences and refuse enum changes PostgreSQL cannot make', () => {
+    const sequence = (definition: string) => ({ type: 'sequence' as const, name: 'ids', schema: 'dbo', definition: `CREATE SEQUENCE [dbo].[ids] ${definition}` });
+    const mood = (labels: string) => ({ type: 'enum' as const, name: 'mood', schema: 'app', definition: `CREATE TYPE app.mood AS ENUM (${labels})` });
+
+    expect(DdlBuilder.alterObject(
+      sequence('AS int START WITH 1 INCREMENT BY 1 MINVALUE 1 MAXVALUE 10 NO CYCLE'),
+      sequence('AS int START WITH 5 INCREMENT BY 2 MINVALUE 1 MAXVALUE 10 CYCLE'),
+      'mssql'
+    )).toEqual(['ALTER SEQUENCE [dbo].[ids] INCREMENT BY 2 MINVALUE 1 MAXVALUE 10 CYCLE']);
+    expect(DdlBuilder.alterObject(sequence('AS int START WITH 1'), sequence('AS bigint START WITH 1'), 'mssql')).toBeNull();
+    expect(DdlBuilder.alterObject(mood("'sad', 'it''s ok'"), mood("'meh', 'sad', 'it''s ok'"), 'postgresql')).toEqual([
+      'ALTER TYPE "app"."mood" ADD VALUE \'meh\' BEFORE \'sad\'',
+    ]);
+    expect(() => DdlBuilder.alterObject(mood("'sad', 'happy'"), mood("'happy', 'sad'"), 'postgresql')).toThrow('removes or reorders values');
+  });
+});
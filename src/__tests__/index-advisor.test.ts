@@ -0,0 +1,75 @@
+import { describe, it, expect } from '@jest/globals';
+import { IndexAdvisor } from '../core/index-advisor.js';
+import { TableInfo } from '../types/database.js';
+
+const column = (name: string, isPrimaryKey = false) => ({ name, dataType: 'text', nullable: !isPrimaryKey, isPrimaryKey, isForeignKey: false });
+
+const tables: TableInfo[] = [
+  {
+    name: 'users',
+    schema: 'public',
+    type: 'table',
+    columns: [column('id', true), column('email'), column('status'), column('created_at')],
+    indexes: [{ name: 'users_pkey', columns: ['id'], unique: true, type: 'btree' }],
+    constraints: [{ name: 'users_pkey', type: 'PRIMARY KEY', columns: ['id'] }],
+  },
+  {
+    name: 'orders',
+    schema: 'public',
+    type: 'table',
+    columns: [column('id', true), column('user_id'), column('total'), column('placed_at')],
+    indexes: [
+      { name: 'orders_pkey', columns: ['id'], unique: true, type: 'btree' },
+      { name: 'idx_orders_user', columns: ['user_id'], unique: false, type: 'btree' },
+      { name: 'idx_orders_user_placed', columns: ['user_id', 'placed_at'], unique: false, type: 'btree' },
+      { name: 'idx_orders_total', columns: ['total'], unique: false, type: 'btree' },
+      { name: 'idx_orders_total_copy', columns: ['total'], unique: false, type: 'btree' },
+    ],
+    constraints: [{ name: 'orders_pkey', type: 'PRIMARY KEY', columns: ['id'] }],
+  },
+];
+
+describe('IndexAdvisor', () => {
+  it('should recommend uncovered filter, sort and range columns ranked by frequency and latency', () => {
+    const recommendations = IndexAdvisor.recommend([
+      { query: "SELECT * FROM users u WHERE u.status = 'active' AND created_at > :since ORDER BY u.email", executionTime: 400 },
+      { query: 'SELECT * FROM users WHERE status = ? ORDER BY email DESC', executionTime: 200 },
+      { query: 'SELECT id FROM users WHERE email LIKE \'%@example.com\'', executionTime: 900 },
+      { query: 'SELECT * FROM users WHERE id = 1', executionTime: 5 },
+      { query: 'SELECT * FROM orders o JOIN users u ON u.id = o.user_id WHERE o.user_id = 3 ORDER BY o.placed_at', executionTime: null },
+    ], tables, 'postgresql');
+
+    expect(recommendations).toHaveLength(1);
+    expect(recommendations[0]).toMatchObject({
+      table: 'users',
+      columns: ['status', 'email', 'created_at'],
+      reason: 'Filtered or joined on status; sorted by email; range filter on created_at',
+      occurrences: 2,
+      averageTimeMs: 300,
+      maxTimeMs: 400,
+      score: 8,
+      statement: 'CREATE INDEX "idx_users_status_email_created_at" ON "public"."users" ("status", "email", "created_at")',
+    });
+  });
+
+  it('should resolve join columns through aliases', () => {
+    const [recommendation] = IndexAdvisor.recommend([
+      { query: 'SELECT * FROM orders o JOIN users u ON o.total = u.status', executionTime: 10 },
+    ], [tables[0]!, { ...tables[1]!, indexes: [] }], 'mysql');
+
+    expect(recommendation).toMatchObject({ table: 'orders', columns: ['total'], statement: 'CREATE INDEX `idx_orders_total` ON `public`.`orders` (`total`)' });
+  });
+
+  it('should flag duplicate and prefix indexes but keep constraint indexes', () => {
+    expect(IndexAdvisor.findRedundant(tables, 'postgresql')).toEqual([
+      {
+        table: 'orders', schema: 'public', index: 'idx_orders_user', columns: ['user_id'], kind: 'redundant',
+        coveredBy: 'idx_orders_user_placed', statement: 'DROP INDEX "public"."idx_orders_user"',
+      },
+      {
+        table: 'orders', schema: 'public', index: 'idx_orders_total_copy', columns: ['total'], kind: 'duplicate',
+        coveredBy: 'idx_orders_total', statement: 'DROP INDEX "public"."idx_orders_total_copy"',
+      },
+    ]);
+  });
+});
@@ -0,0 +1,14 @@
+import { describe, it, expect } from '@jest/globals';
+import { LineDiff } from '../core/line-diff.js';
+
+describe('LineDiff', () => {
+  it('should mark removed, added and unchanged lines', () => {
+    expect(LineDiff.diff('SELECT *\nFROM users\nWHERE id = {id}', 'SELECT id, email\nFROM users\nWHERE id = {id}\nLIMIT 1')).toEqual([
+      '-SELECT *',
+      '+SELECT id, email',
+      ' FROM users',
+      ' WHERE id = {id}',
+      '+LIMIT 1',
+    ]);
+  });
+});
@@ -0,0 +1,55 @@
+import { describe, it, expect } from '@jest/globals';
+import { MigrationFileRenderer } from '../core/migration-file-renderer.js';
+import { Migration } from '../types/schema.js';
+
+const migration: Migration = {
+  id: 'migration_1',
+  name: 'Add user status',
+  description: 'Migration from main to staging',
+  timestamp: '2026-10-19T08:30:05.000Z',
+  sourceConnection: 'main',
+  targetConnection: 'staging',
+  steps: [
+    {
+      id: 'step_1', type: 'add_column', tableName: 'users', columnName: 'status',
+      sql: 'ALTER TABLE "users" ADD COLUMN "status" TEXT DEFAULT \'new?\';',
+      rollbackSql: 'ALTER TABLE "users" DROP COLUMN "status";',
+      description: 'Add column status to users',
+    },
+    {
+      id: 'step_2', type: 'add_index', tableName: 'users',
+      sql: 'CREATE INDEX "idx_users_status" ON "users" ("status");',
+      rollbackSql: 'DROP INDEX "idx_users_status";',
+      description: 'Add index idx_users_status to users',
+    },
+  ],
+};
+
+describe('MigrationFileRenderer', () => {
+  it('should name files by each tool\'s convention', () => {
+    const paths = (format: Parameters<typeof MigrationFileRenderer.render>[1]) =>
+      MigrationFileRenderer.render(migration, format, 'postgresql', 7).map(file => file.path);
+
+    expect(paths('flyway')).toEqual(['V20261019083005__add_user_status.sql', 'U20261019083005__add_user_status.sql']);
+    expect(paths('liquibase')).toEqual(['db.changelog-20261019083005_add_user_status.yaml']);
+    expect(paths('prisma')).toEqual(['20261019083005_add_user_status/migration.sql', '20261019083005_add_user_status/down.sql']);
+    expect(paths('knex')).toEqual(['20261019083005_add_user_status.js']);
+    expect(paths('golang-migrate')).toEqual(['000007_add_user_status.up.sql', '000007_add_user_status.down.sql']);
+  });
+
+  it('should write rollbacks in reverse step order', () => {
+    const [, down] = MigrationFileRenderer.render(migration, 'golang-migrate', 'postgresql');
+
+    expect(down!.content).toBe([
+      '-- Add user status: Migration from main to staging (rollback)\n',
+      '-- Undo: Add index idx_users_status to users\nDROP INDEX "idx_users_status";\n',
+      '-- Undo: Add column status to users\nALTER TABLE "users" DROP COLUMN "status";\n',
+    ].join('\n'));
+  });
+
+  it('should escape knex.raw bindings', () => {
+    const [file] = MigrationFileRenderer.render(migration, 'knex', 'postgresql');
+
+    expect(file!.content).toContain('  await knex.raw(`ALTER TABLE "users" ADD COLUMN "status" TEXT DEFAULT \'new\\\\?\'`);');
+  });
+});
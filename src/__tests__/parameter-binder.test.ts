@@ -0,0 +1,45 @@
+import { describe, it, expect } from '@jest/globals';
+import { ParameterBinder } from '../core/parameter-binder.js';
+
+describe('ParameterBinder', () => {
+  it('should rewrite named parameters to each native placeholder style', () => {
+    const query = 'SELECT * FROM t WHERE a = :id OR b = :id AND c = :name';
+    const parameters = { id: 1, name: 'x' };
+
+    expect(ParameterBinder.bind(query, parameters, 'postgresql')).toEqual({
+      query: 'SELECT * FROM t WHERE a = $1 OR b = $1 AND c = $2',
+      parameters: [1, 'x'],
+    });
+    expect(ParameterBinder.bind(query, parameters, 'mssql')).toEqual({
+      query: 'SELECT * FROM t WHERE a = @param0 OR b = @param0 AND c = @param1',
+      parameters: [1, 'x'],
+    });
+    expect(ParameterBinder.bind(query, parameters, 'mysql')).toEqual({
+      query: 'SELECT * FROM t WHERE a = ? OR b = ? AND c = ?',
+      parameters: [1, 1, 'x'],
+    });
+  });
+
+  it('should leave casts, strings and comments alone', () => {
+    const query = "SELECT ':skip', a::text /* :nope */ FROM t WHERE a = :id -- :gone";
+    expect(ParameterBinder.bind(query, { id: 1 }, 'postgresql')).toEqual({
+      query: "SELECT ':skip', a::text /* :nope */ FROM t WHERE a = $1 -- :gone",
+      parameters: [1],
+    });
+  });
+
+  it('should rewrite positional ? placeholders unless the query uses native ones', () => {
+    expect(ParameterBinder.bind('SELECT * FROM t WHERE a = ? AND b = ?', [1, 2], 'postgresql').query)
+      .toBe('SELECT * FROM t WHERE a = $1 AND b = $2');
+    expect(ParameterBinder.bind('SELECT * FROM t WHERE a = ?', [1], 'mssql').query).toBe('SELECT * FROM t WHERE a = @param0');
+    expect(ParameterBinder.bind('SELECT * FROM t WHERE a = $1', [1], 'postgresql').query).toBe('SELECT * FROM t WHERE a = $1');
+    expect(ParameterBinder.bind('SELECT * FROM t WHERE a = @param0', [1], 'mssql').query).toBe('SELECT * FROM t WHERE a = @param0');
+    expect(ParameterBinder.bind('SELECT * FROM t WHERE a = ?', [1], 'sqlite').query).toBe('SELECT * FROM t WHERE a = ?');
+  });
+
+  it('should reject missing, unused and miscounted parameters', () => {
+    expect(() => ParameterBinder.bind('SELECT :a, :b', { a: 1 }, 'mysql')).toThrow('Missing value for named parameter :b');
+    expect(() => ParameterBinder.bind('SELECT :a', { a: 1, c: 2 }, 'mysql')).toThrow('Named parameter :c does not appear');
+    expect(() => ParameterBinder.bind('SELECT ?', [1, 2], 'postgresql')).toThrow('1 placeholders but 2 parameters');
+  });
+});
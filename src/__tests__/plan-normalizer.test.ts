@@ -0,0 +1,108 @@
+import { describe, it, expect } from '@jest/globals';
+import { PlanNormalizer } from '../core/plan-normalizer.js';
+
+describe('PlanNormalizer', () => {
+  it('should normalize PostgreSQL JSON plans', () => {
+    const plan = PlanNormalizer.postgresql([{
+      Plan: {
+        'Node Type': 'Sort', 'Plan Rows': 500, 'Total Cost': 120.5, 'Sort Key': ['email'], 'Actual Rows': 480, 'Actual Loops': 1,
+        Plans: [{
+          'Node Type': 'Seq Scan', 'Relation Name': 'users', 'Plan Rows': 500, 'Total Cost': 100,
+          Filter: '(active = true)', 'Actual Rows': 480, 'Actual Loops': 1, 'Actual Total Time': 2.5,
+        }],
+      },
+    }]);
+
+    expect(plan.analyzed).toBe(true);
+    expect(plan.root).toMatchObject({ operation: 'Sort', kind: 'sort', detail: 'email', estimatedRows: 500, actualRows: 480 });
+    expect(plan.root.children[0]).toMatchObject({
+      operation: 'Seq Scan', kind: 'full_scan', relation: 'users', cost: 100, detail: '(active = true)', actualTimeMs: 2.5,
+    });
+  });
+
+  it('should normalize MySQL JSON plans', () => {
+    const plan = PlanNormalizer.mysql(JSON.stringify({
+      query_block: {
+        cost_info: { query_cost: '25.10' },
+        ordering_operation: {
+          using_filesort: true,
+          nested_loop: [
+            { table: { table_name: 'o', access_type: 'ALL', rows_examined_per_scan: 20000, rows_produced_per_join: 2000, attached_condition: '(o.total > 10)' } },
+            { table: { table_name: 'u', access_type: 'eq_ref', key: 'PRIMARY', rows_examined_per_scan: 1 } },
+          ],
+        },
+      },
+    }));
+
+    expect(plan.root).toMatchObject({ operation: 'Query Block', cost: 25.1 });
+    const sort = plan.root.children[0]!;
+    expect(sort).toMatchObject({ operation: 'Filesort', kind: 'sort' });
+    expect(sort.children[0]!.children).toMatchObject([
+      { operation: 'Full Table Scan', kind: 'full_scan', relation: 'o', rowsExamined: 20000, estimatedRows: 2000 },
+      { operation: 'Index Lookup', kind: 'index_scan', relation: 'u', index: 'PRIMARY' },
+    ]);
+  });
+
+  it('should build the SQLite plan tree from parent ids', () => {
+    const plan = PlanNormalizer.sqlite([
+      { id: 2, parent: 0, notused: 0, detail: 'SCAN users' },
+      { id: 5, parent: 0, notused: 0, detail: 'SEARCH orders USING INDEX idx_orders_user (user_id=?)' },
+      { id: 9, parent: 0, notused: 0, detail: 'USE TEMP B-TREE FOR ORDER BY' },
+    ]);
+
+    expect(plan.root.children).toMatchObject([
+      { operation: 'SCAN', kind: 'full_scan', relation: 'users' },
+      { operation: 'SEARCH', kind: 'index_scan', relation: 'orders', index: 'idx_orders_user', detail: 'user_id=?' },
+      { operation: 'USE TEMP B-TREE', kind: 'sort' },
+    ]);
+  });
+
+  it('should read SQL Server showplan XML', () => {
+    const xml = `<?xml version="1.0" encoding="utf-16"?>
+      <ShowPlanXML xmlns="http://schemas.microsoft.com/sqlserver/2004/07/showplan">
+        <BatchSequence><Batch><Statements>
+          <StmtSimple StatementText="SELECT * FROM users WHERE name = @param0" StatementType="SELECT" StatementSubTreeCost="0.5" StatementEstRows="3">
+            <QueryPlan>
+              <RelOp PhysicalOp="Nested Loops" LogicalOp="Inner Join" EstimateRows="3" EstimatedTotalSubtreeCost="0.5">
+                <NestedLoops>
+                  <RelOp PhysicalOp="Clustered Index Scan" LogicalOp="Clustered Index Scan" EstimateRows="3" TableCardinality="50000" EstimatedTotalSubtreeCost="0.4">
+                    <IndexScan><Object Database="[app]" Schema="[dbo]" Table="[users]" Index="[PK_users]" /></IndexScan>
+                    <Predicate><ScalarOperator ScalarString="[app].[dbo].[users].[name]=[@param0]" /></Predicate>
+                  </RelOp>
+                  <RelOp PhysicalOp="Index Seek" LogicalOp="Index Seek" EstimateRows="1" EstimatedTotalSubtreeCost="0.1">
+                    <IndexScan><Object Table="[orders]" Index="[IX_orders_user]" /></IndexScan>
+                  </RelOp>
+                </NestedLoops>
+              </RelOp>
+            </QueryPlan>
+          </StmtSimple>
+        </Statements></Batch></BatchSequence>
+      </ShowPlanXML>`;
+    const plan = PlanNormalizer.mssql([xml]);
+
+    expect(plan.analyzed).toBe(false);
+    expect(plan.root).toMatchObject({ operation: 'SELECT', estimatedRows: 3, cost: 0.5 });
+    const join = plan.root.children[0]!;
+    expect(join).toMatchObject({ operation: 'Nested Loops', kind: 'join' });
+    expect(join.children).toMatchObject([
+      { operation: 'Clustered Index Scan', kind: 'full_scan', relation: 'users', index: 'PK_users', rowsExamined: 50000, detail: '[app].[dbo].[users].[name]=[@param0]' },
+      { operation: 'Index Seek', kind: 'index_scan', relation: 'orders', index: 'IX_orders_user' },
+    ]);
+  });
+
+  it('should normalize MongoDB explain output', () => {
+    const plan = PlanNormalizer.mongodb({
+      queryPlanner: { namespace: 'app.users', winningPlan: { stage: 'FETCH', inputStage: { stage: 'IXSCAN', indexName: 'email_1' } } },
+      executionStats: {
+        executionStages: {
+          stage: 'SORT', nReturned: 10, executionTimeMillisEstimate: 3,
+          inputStage: { stage: 'COLLSCAN', nReturned: 10, docsExamined: 40000, filter: { active: { $eq: true } } },
+        },
+      },
+    });
+
+    expect(plan.analyzed).toBe(true);
+    expect(plan.root).toMatchObject({ operation: 'SORT', kind: 'sort', actualRows: 10, actualTimeMs: 3 });
+    expect(plan.root.children[0]).toMatchObject({ operation: 'COLLSCAN', kind: 'full_scan', relation: 'users', rowsExamined: 40000 });
+  });
+});
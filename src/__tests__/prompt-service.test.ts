@@ -0,0 +1,75 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { SQLiteAdapter } from '../adapters/sqlite-adapter.js';
+import { AccessPolicyService } from '../services/access-policy-service.js';
+import { PromptService } from '../services/prompt-service.js';
+import { QueryAnalysisService } from '../services/query-analysis-service.js';
+import type { DatabaseConnectionManager } from '../adapters/database-connection-manager.js';
+
+describe('PromptService', () => {
+  let directory: string;
+  let cwd: string;
+  let adapter: SQLiteAdapter;
+  let queryAnalysis: QueryAnalysisService;
+  let service: PromptService;
+
+  beforeEach(async () => {
+    cwd = process.cwd();
+    directory = mkdtempSync(join(tmpdir(), 'pinemcp-prompts-'));
+    // Saved templates live under the working directory
+    process.chdir(directory);
+    adapter = new SQLiteAdapter({ type: 'sqlite', filename: ':memory:' });
+    await adapter.connect();
+    await adapter.executeQuery('CREATE TABLE users (id INTEGER PRIMARY KEY, email TEXT, password_hash TEXT)');
+    await adapter.executeQuery('CREATE TABLE api_secrets (id INTEGER PRIMARY KEY, token TEXT)');
+
+    const connectionManager = {
+      getConnection: (name?: string) => (!name || name === 'main' ? adapter : null),
+      getCurrentConnectionName: () => 'main',
+    } as unknown as DatabaseConnectionManager;
+    const accessPolicy = new AccessPolicyService(connectionManager);
+    accessPolicy.setRuntimePolicy('main', { tables: { deny: ['api_secrets'] }, deniedColumns: ['users.password_hash'] });
+    queryAnalysis = new QueryAnalysisService(connectionManager, accessPolicy);
+    service = new PromptService(connectionManager, accessPolicy, queryAnalysis);
+  });
+
+  afterEach(async () => {
+    await adapter.disconnect();
+    process.chdir(cwd);
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('should list the built-in prompts and one prompt per saved template', async () => {
+    const template = await queryAnalysis.saveTemplate({
+      name: 'User by email',
+      description: 'Find a user by email',
+      query: 'SELECT id FROM users WHERE email = {email}',
+      parameters: [{ name: 'email', type: 'string', required: true }],
+      tags: [],
+      connectionType: 'sqlite',
+    });
+
+    const prompts = service.listPrompts();
+
+    expect(prompts.map(prompt => prompt.name)).toEqual(['explain_table', 'write_query', 'review_migration', template.id]);
+    expect(prompts[3]!.arguments!.map(argument => [argument.name, argument.required])).toEqual([['email', true], ['connection', false]]);
+  });
+
+  it('should reject unknown prompts and missing required arguments', async () => {
+    await expect(service.getPrompt('unknown')).rejects.toThrow('Unknown prompt: unknown');
+    await expect(service.getPrompt('explain_table', { connection: 'main' })).rejects.toThrow("Missing required argument 'table' for prompt explain_table");
+  });
+
+  it('should leave hidden tables and denied columns out of the embedded schema', async () => {
+    const prompt = await service.getPrompt('write_query', { task: 'List every user' });
+    const text = prompt.messages[0]!.content.text;
+
+    expect(text).toContain('"email"');
+    expect(text).not.toContain('password_hash');
+    expect(text).not.toContain('api_secrets');
+    await expect(service.getPrompt('explain_table', { table: 'api_secrets' })).rejects.toThrow("denies table 'api_secrets'");
+    expect((await service.getPrompt('explain_table', { table: 'users' })).messages[0]!.content.text).not.toContain('password_hash');
+  });
+});
@@ -0,0 +1,74 @@
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import { mkdtempSync, mkdirSync, writeFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { QueryAnalysisService } from '../services/query-analysis-service.js';
+import { SQLiteAdapter } from '../adapters/sqlite-adapter.js';
+import { AccessPolicyService } from '../services/access-policy-service.js';
+import type { DatabaseConnectionManager } from '../adapters/database-connection-manager.js';
+
+describe('QueryAnalysisService', () => {
+  let directory: string;
+  let cwd: string;
+
+  beforeEach(() => {
+    cwd = process.cwd();
+    directory = mkdtempSync(join(tmpdir(), 'pinemcp-templates-'));
+    // Templates are loaded from and saved under the working directory
+    process.chdir(directory);
+  });
+
+  afterEach(() => {
+    process.chdir(cwd);
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('should keep the previous version of a template saved before versioning', async () => {
+    mkdirSync(join(directory, 'data'));
+    writeFileSync(join(directory, 'data', 'query-templates.json'), JSON.stringify([{
+      id: 'template_legacy',
+      name: 'Active users',
+      description: 'Users that are active',
+      query: 'SELECT * FROM users WHERE active = 1',
+      parameters: [],
+      tags: [],
+      connectionType: 'sqlite',
+      createdAt: '2024-01-01T00:00:00.000Z',
+      updatedAt: '2024-01-01T00:00:00.000Z',
+    }]));
+    const service = new QueryAnalysisService({} as DatabaseConnectionManager, {} as AccessPolicyService);
+
+    await service.updateTemplate('template_legacy', { query: 'SELECT id FROM users WHERE active = 1' });
+
+    expect(service.getTemplateHistory('template_legacy').map(entry => [entry.version, entry.query])).toEqual([
+      [1, 'SELECT * FROM users WHERE active = 1'],
+      [2, 'SELECT id FROM users WHERE active = 1'],
+    ]);
+  });
+
+  it('should only load the tables the recorded queries reference', async () => {
+    const adapter = new SQLiteAdapter({ type: 'sqlite', filename: ':memory:' });
+    await adapter.connect();
+    try {
+      for (const table of ['users', 'orders', 'audit_log']) {
+        await adapter.executeQuery(`CREATE TABLE ${table} (id INTEGER PRIMARY KEY, email TEXT)`);
+      }
+      const connectionManager = {
+        getConnection: () => adapter,
+        getCurrentConnectionName: () => 'main',
+      } as unknown as DatabaseConnectionManager;
+      const service = new QueryAnalysisService(connectionManager, new AccessPolicyService(connectionManager));
+      await service.analyzeQuery('main', "SELECT id FROM users WHERE email = 'a@example.com'");
+      const getTables = jest.spyOn(adapter, 'getTables');
+      const getTableInfo = jest.spyOn(adapter, 'getTableInfo');
+
+      const advice = await service.recommendIndexes('main');
+
+      expect(getTables).not.toHaveBeenCalled();
+      expect(getTableInfo.mock.calls.map(call => call[0])).toEqual(['users']);
+      expect(advice.recommendations.map(recommendation => [recommendation.table, recommendation.columns])).toEqual([['users', ['email']]]);
+    } finally {
+      await adapter.disconnect();
+    }
+  });
+});
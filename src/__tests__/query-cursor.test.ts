@@ -0,0 +1,35 @@
+import { describe, it, expect } from '@jest/globals';
+import { IteratorCursor, PagedCursor } from '../adapters/query-cursor.js';
+
+describe('IteratorCursor', () => {
+  it('should report done on the page that exhausts the stream', async () => {
+    async function* rows() {
+      for (let id = 0; id < 4; id++) yield { id };
+    }
+    const released: boolean[] = [];
+    const cursor = new IteratorCursor(rows(), () => [], async finished => { released.push(finished); });
+
+    expect(await cursor.read(2)).toEqual({ rows: [{ id: 0 }, { id: 1 }], fields: [], done: false });
+    expect(await cursor.read(2)).toEqual({ rows: [{ id: 2 }, { id: 3 }], fields: [], done: true });
+    await cursor.close();
+    expect(released).toEqual([true]);
+  });
+});
+
+describe('PagedCursor', () => {
+  it('should resume from the paging marker until the driver stops returning one', async () => {
+    const pages = [
+      { rows: [{ id: 0 }], rowCount: 1, fields: [], truncated: true, nextPage: { pageState: 'a' } },
+      { rows: [{ id: 1 }], rowCount: 1, fields: [] },
+    ];
+    const requested: unknown[] = [];
+    const cursor = new PagedCursor(async (_maxRows, page) => {
+      requested.push(page);
+      return pages.shift()!;
+    });
+
+    expect((await cursor.read(1)).done).toBe(false);
+    expect((await cursor.read(1)).done).toBe(true);
+    expect(requested).toEqual([undefined, { pageState: 'a' }]);
+  });
+});
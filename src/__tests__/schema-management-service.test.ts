@@ -0,0 +1,156 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { mkdtempSync, mkdirSync, writeFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { SQLiteAdapter } from '../adapters/sqlite-adapter.js';
+import { AccessPolicyService } from '../services/access-policy-service.js';
+import { SchemaManagementService } from '../services/schema-management-service.js';
+import type { DatabaseConnectionManager } from '../adapters/database-connection-manager.js';
+import type { BaseDatabaseAdapter } from '../adapters/base-database-adapter.js';
+import type { QueryParameters, SchemaObject } from '../types/database.js';
+
+describe('SchemaManagementService', () => {
+  let directory: string;
+  let cwd: string;
+  let adapters: Record<string, SQLiteAdapter>;
+  let service: SchemaManagementService;
+
+  beforeEach(async () => {
+    cwd = process.cwd();
+    directory = mkdtempSync(join(tmpdir(), 'pinemcp-schema-'));
+    // Generated migrations are saved under the working directory
+    process.chdir(directory);
+    adapters = {
+      source: new SQLiteAdapter({ type: 'sqlite', filename: join(directory, 'source.db') }),
+      target: new SQLiteAdapter({ type: 'sqlite', filename: join(directory, 'target.db'), queryPolicy: { blockDestructive: false } }),
+    };
+    for (const adapter of Object.values(adapters)) {
+      await adapter.connect();
+    }
+    const connectionManager = {
+      getConnection: (name: string) => adapters[name] ?? null,
+      getCurrentConnectionName: () => 'target',
+    } as unknown as DatabaseConnectionManager;
+    service = new SchemaManagementService(connectionManager, new AccessPolicyService(connectionManager));
+  });
+
+  afterEach(async () => {
+    for (const adapter of Object.values(adapters)) {
+      await adapter.disconnect();
+    }
+    process.chdir(cwd);
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('should rebuild a referenced SQLite table without touching the rows that reference it', async () => {
+    const child = 'CREATE TABLE child (id INTEGER PRIMARY KEY, parent_id INTEGER REFERENCES parent(id) ON DELETE CASCADE)';
+    await adapters.source!.executeQuery('CREATE TABLE parent (id INTEGER PRIMARY KEY, name INTEGER)');
+    await adapters.source!.executeQuery(child);
+    await adapters.target!.executeQuery('CREATE TABLE parent (id INTEGER PRIMARY KEY, name TEXT)');
+    await adapters.target!.executeQuery(child);
+    await adapters.target!.executeQuery("INSERT INTO parent VALUES (1, 'a')");
+    await adapters.target!.executeQuery('INSERT INTO child VALUES (1, 1)');
+    const childRows = async () => (await adapters.target!.executeQuery('SELECT COUNT(*) AS count FROM child')).rows[0]!.count;
+
+    const migration = await service.generateMigration('source', 'target', 'retype_parent_name');
+    expect(migration.steps[0]!.description).toContain('rebuilds the table');
+
+    await expect(service.applyMigration(migration.id, 'source')).rejects.toThrow('was generated for target, not source');
+    await service.applyMigration(migration.id, 'target');
+    expect(await childRows()).toBe(1);
+    expect((await adapters.target!.getTableInfo('parent'))!.columns[1]!.dataType).toBe('INTEGER');
+
+    await service.rollbackMigration(migration.id, 'target');
+    expect(await childRows()).toBe(1);
+    expect((await adapters.target!.executeQuery('PRAGMA foreign_keys')).rows[0]!.foreign_keys).toBe(1);
+  });
+
+  it('should create objects in the mapped schema and alter sequences and enums in place', async () => {
+    const postgres = (objects: SchemaObject[]) => ({
+      getType: () => 'postgresql',
+      getTables: async () => [],
+      getSchemaObjects: async () => objects,
+    }) as unknown as BaseDatabaseAdapter;
+    const sequence = 'AS bigint INCREMENT BY 1 MINVALUE 1 MAXVALUE';
+    const connections: Record<string, BaseDatabaseAdapter> = {
+      source: postgres([
+        { type: 'view', name: 'active_users', schema: 'src', definition: 'CREATE VIEW src.active_users AS\n SELECT id FROM src.users' },
+        { type: 'view', name: 'report', schema: 'src', definition: 'CREATE VIEW src.report AS\n SELECT count(*) FROM "src".users' },
+        { type: 'enum', name: 'mood', schema: 'src', definition: "CREATE TYPE src.mood AS ENUM ('sad', 'happy')" },
+        { type: 'sequence', name: 'ids', schema: 'src', definition: `CREATE SEQUENCE src.ids ${sequence} 100 START WITH 1 CACHE 1` },
+      ]),
+      target: postgres([
+        { type: 'view', name: 'active_users', schema: 'app', definition: 'CREATE VIEW app.active_users AS\n SELECT id FROM app.users' },
+        { type: 'enum', name: 'mood', schema: 'app', definition: "CREATE TYPE app.mood AS ENUM ('sad')" },
+        { type: 'sequence', name: 'ids', schema: 'app', definition: `CREATE SEQUENCE app.ids ${sequence} 50 START WITH 1 CACHE 1 CYCLE` },
+      ]),
+    };
+    const connectionManager = {
+      getConnection: (name: string) => connections[name] ?? null,
+      getCurrentConnectionName: () => 'target',
+    } as unknown as DatabaseConnectionManager;
+    const mapped = new SchemaManagementService(connectionManager, new AccessPolicyService(connectionManager));
+
+    const migration = await mapped.generateMigration('source', 'target', 'map_schema', { schemaMap: { src: 'app' } });
+
+    expect(migration.steps.map(step => [step.type, step.sql, step.rollbackSql])).toEqual([
+      ['alter_object', 'ALTER TYPE "app"."mood" ADD VALUE \'happy\' AFTER \'sad\';', ''],
+      ['alter_object', `ALTER SEQUENCE "app"."ids" ${sequence} 100 START WITH 1 CACHE 1 NO CYCLE;`, `ALTER SEQUENCE "app"."ids" ${sequence} 50 START WITH 1 CACHE 1 CYCLE;`],
+      ['create_object', 'CREATE VIEW app.report AS\n SELECT count(*) FROM "app".users;', 'DROP VIEW "app"."report";'],
+    ]);
+  });
+
+  it('should find the tracking table in the MySQL connection\'s own database', async () => {
+    const migration = (id: string, table: string) => ({
+      id,
+      name: id,
+      description: '',
+      timestamp: '2024-01-01T00:00:00.000Z',
+      steps: [{ id: `${id}_1`, type: 'create_table', tableName: table, sql: `CREATE TABLE ${table} (id INT);`, rollbackSql: `DROP TABLE ${table};`, description: `Create ${table}` }],
+      sourceConnection: 'source',
+      targetConnection: 'mysql',
+    });
+    mkdirSync(join(directory, 'data'));
+    writeFileSync(join(directory, 'data', 'migrations.json'), JSON.stringify([migration('first', 'a'), migration('second', 'b')]));
+    let tracking: Array<Record<string, unknown>> | null = null;
+    const executed: string[] = [];
+    const mysql = {
+      getType: () => 'mysql',
+      supportsTransactionalDdl: () => false,
+      isInTransaction: () => false,
+      // Like the MySQL adapter, only a lookup in the right schema finds the table
+      getTableInfo: async (name: string, schema?: string) => (tracking && name === 'pinemcp_migrations' && schema === 'app' ? { name } : null),
+      safeExecuteQuery: async (query: string, parameters?: QueryParameters) => {
+        if (query.startsWith('SELECT DATABASE()')) return { rows: [{ name: 'app' }] };
+        if (query.includes('pinemcp_migrations')) {
+          if (query.startsWith('CREATE TABLE')) {
+            if (tracking) throw new Error("Table 'pinemcp_migrations' already exists");
+            tracking = [];
+          } else if (query.startsWith('INSERT')) {
+            const [id, name, appliedAt] = parameters as unknown[];
+            tracking!.push({ id, name, applied_at: appliedAt });
+          } else if (query.startsWith('DELETE')) {
+            tracking = tracking!.filter(row => row.id !== (parameters as unknown[])[0]);
+          }
+          return { rows: query.startsWith('SELECT') ? tracking! : [] };
+        }
+        executed.push(query);
+        return { rows: [] };
+      },
+    } as unknown as BaseDatabaseAdapter;
+    const connectionManager = {
+      getConnection: (name: string) => (name === 'mysql' ? mysql : null),
+      getCurrentConnectionName: () => 'mysql',
+    } as unknown as DatabaseConnectionManager;
+    const tracked = new SchemaManagementService(connectionManager, new AccessPolicyService(connectionManager));
+
+    await tracked.applyMigration('first', 'mysql');
+    await tracked.applyMigration('second', 'mysql');
+    await expect(tracked.applyMigration('second', 'mysql')).rejects.toThrow('has already been applied');
+    expect((await tracked.getMigrationStatus('mysql')).applied.map(entry => entry.id)).toEqual(['first', 'second']);
+    await tracked.rollbackMigration('second', 'mysql');
+
+    expect(executed).toEqual(['CREATE TABLE a (id INT)', 'CREATE TABLE b (id INT)', 'DROP TABLE b']);
+    expect((await tracked.getMigrationStatus('mysql')).applied.map(entry => entry.id)).toEqual(['first']);
+  });
+});
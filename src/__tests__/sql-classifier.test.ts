@@ -0,0 +1,94 @@
+import { describe, it, expect } from '@jest/globals';
+import { SqlClassifier } from '../core/sql-classifier.js';
+import { QueryPolicyEnforcer, QueryPolicyError } from '../core/query-policy.js';
+
+const categories = (sql: string, dialect: Parameters<typeof SqlClassifier.classify>[1] = 'postgresql') =>
+  SqlClassifier.classify(sql, dialect).map(statement => statement.category);
+
+describe('SqlClassifier', () => {
+  it('should split statements and ignore separators inside strings and comments', () => {
+    const sql = "SELECT ';' AS a; -- DROP TABLE x;\nINSERT INTO t VALUES ($$;$$) /* ; */; ";
+    expect(SqlClassifier.split(sql, 'postgresql')).toEqual(["SELECT ';' AS a", 'INSERT INTO t VALUES ($$;$$)']);
+  });
+
+  it('should keep the BEGIN ... END body of a trigger or routine in one statement', () => {
+    const trigger = 'CREATE TRIGGER t AFTER INSERT ON a BEGIN INSERT INTO b VALUES (CASE WHEN 1 THEN 2 END); DELETE FROM c WHERE id = 1; END';
+    expect(SqlClassifier.split(`${trigger}; SELECT 1`, 'sqlite')).toEqual([trigger, 'SELECT 1']);
+
+    const procedure = 'CREATE PROCEDURE p() BEGIN IF x THEN SET y = 1; END IF; CASE z WHEN 1 THEN SET y = 2; END CASE; END';
+    expect(SqlClassifier.split(`${procedure};\nBEGIN; COMMIT`, 'mysql')).toEqual([procedure, 'BEGIN', 'COMMIT']);
+  });
+
+  it('should not let a routine word or an unclosed body hide the statements after it', () => {
+    const drop = SqlClassifier.classify('CREATE TABLE t (function int, begin int); DROP TABLE users', 'postgresql');
+    expect(drop.map(statement => statement.keyword)).toEqual(['CREATE', 'DROP']);
+    expect(drop[1]!.destructive).toBe(true);
+
+    const remove = SqlClassifier.classify('CREATE TABLE t (trigger int, "x" int, begin int); DELETE FROM users', 'postgresql');
+    expect(remove.map(statement => statement.category)).toEqual(['ddl', 'write']);
+
+    const unclosed = SqlClassifier.classify('CREATE PROCEDURE p() BEGIN SELECT 1; DROP TABLE users', 'mysql');
+    expect(unclosed.map(statement => statement.keyword)).toEqual(['CREATE', 'DROP']);
+    expect(unclosed[1]!.destructive).toBe(true);
+  });
+
+  it('should classify statements by category', () => {
+    expect(categories('SELECT 1; UPDATE t SET a = 1 WHERE id = 2; ALTER TABLE t ADD c int; GRANT SELECT ON t TO bob')).toEqual([
+      'read', 'write', 'ddl', 'admin',
+    ]);
+    expect(categories('WITH d AS (DELETE FROM t WHERE id = 1 RETURNING *) SELECT * FROM d')).toEqual(['write']);
+    expect(categories('EXPLAIN SELECT 1; EXPLAIN ANALYZE DROP SCHEMA s')).toEqual(['read', 'ddl']);
+    expect(categories("SELECT * FROM t INTO OUTFILE '/tmp/x'", 'mysql')).toEqual(['admin']);
+    expect(categories('BEGIN BATCH INSERT INTO t (a) VALUES (1)', 'cassandra')).toEqual(['write']);
+  });
+
+  it('should see keywords hidden in MySQL executable comments but not in quoted identifiers', () => {
+    expect(categories('SELECT 1 /*!50000 ; DROP TABLE users */', 'mysql')).toEqual(['read', 'ddl']);
+    expect(categories('SELECT [drop] FROM [delete]', 'mssql')).toEqual(['read']);
+  });
+
+  it('should flag destructive statements', () => {
+    const destructive = (sql: string) => SqlClassifier.classify(sql, 'postgresql').map(statement => statement.destructive);
+    expect(destructive('DROP SCHEMA app CASCADE')).toEqual([true]);
+    expect(destructive('DELETE FROM t')).toEqual([true]);
+    expect(destructive('DELETE FROM t WHERE 1=1')).toEqual([true]);
+    expect(destructive("UPDATE t SET a = 1 WHERE id = 3 OR ('x' = 'x')")).toEqual([true]);
+    expect(destructive('DELETE FROM t WHERE id = 1')).toEqual([false]);
+    expect(destructive('ALTER TABLE t ADD COLUMN c int')).toEqual([false]);
+    expect(destructive('ALTER TABLE t DROP COLUMN c')).toEqual([true]);
+  });
+});
+
+describe('QueryPolicyEnforcer', () => {
+  const denial = (run: () => unknown) => {
+    try {
+      run();
+    } catch (error) {
+      return error instanceof QueryPolicyError ? error.denial : error;
+    }
+    return null;
+  };
+
+  it('should return a structured denial for the offending statement', () => {
+    expect(denial(() => QueryPolicyEnforcer.enforce('SELECT 1; DROP TABLE users', 'postgresql'))).toMatchObject({
+      code: 'destructive_statement',
+      statementIndex: 1,
+      statement: 'DROP TABLE users',
+      category: 'ddl',
+    });
+  });
+
+  it('should apply allowed categories, multi-statement and read-only settings', () => {
+    expect(denial(() => QueryPolicyEnforcer.enforce('CREATE TABLE t (a int)', 'sqlite', { allow: ['read', 'write'] }))).toMatchObject({
+      code: 'category_not_allowed',
+      allowed: ['read', 'write'],
+    });
+    expect(denial(() => QueryPolicyEnforcer.enforce('SELECT 1; SELECT 2', 'mysql', { allowMultipleStatements: false }))).toMatchObject({
+      code: 'multiple_statements',
+    });
+    expect(denial(() => QueryPolicyEnforcer.enforce('INSERT INTO t VALUES (1)', 'mssql', {}, true))).toMatchObject({
+      code: 'read_only',
+    });
+    expect(denial(() => QueryPolicyEnforcer.enforce('ALTER TABLE t ADD c int', 'postgresql'))).toBeNull();
+  });
+});
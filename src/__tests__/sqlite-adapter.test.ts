@@ -0,0 +1,43 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { SQLiteAdapter } from '../adapters/sqlite-adapter.js';
+
+describe('SQLiteAdapter', () => {
+  let adapter: SQLiteAdapter;
+
+  beforeEach(async () => {
+    adapter = new SQLiteAdapter({ type: 'sqlite', filename: ':memory:' });
+    await adapter.connect();
+    await adapter.executeQuery('CREATE TABLE items (id INTEGER PRIMARY KEY, name TEXT)');
+    await adapter.executeQuery("INSERT INTO items (name) VALUES ('a'), ('b'), ('c')");
+  });
+
+  afterEach(async () => {
+    await adapter.disconnect();
+  });
+
+  it('should page a read past maxRows', async () => {
+    const result = await adapter.executeQuery('SELECT id FROM items ORDER BY id', [], { maxRows: 2 });
+
+    expect(result.rows).toEqual([{ id: 1 }, { id: 2 }]);
+    expect(result.truncated).toBe(true);
+    expect(result.nextPage).toEqual({ offset: 2 });
+  });
+
+  it('should truncate a write returning rows without a next page or a changed row count', async () => {
+    const result = await adapter.executeQuery("UPDATE items SET name = name || '!' RETURNING id", [], { maxRows: 2 });
+
+    expect(result.rows).toHaveLength(2);
+    expect(result.rowCount).toBe(3);
+    expect(result.truncated).toBe(true);
+    expect(result.nextPage).toBeUndefined();
+    expect(adapter.isPageable("UPDATE items SET name = name || '!' RETURNING id")).toBe(false);
+  });
+
+  it('should refuse a cursor while a transaction is open', async () => {
+    await adapter.beginTransaction();
+
+    await expect(adapter.safeOpenCursor('SELECT id FROM items')).rejects.toThrow('Cursors cannot be opened while a transaction is open');
+    await adapter.rollbackTransaction();
+    await (await adapter.safeOpenCursor('SELECT id FROM items')).close();
+  });
+});
@@ -0,0 +1,58 @@
+import { describe, it, expect } from '@jest/globals';
+import { TemplateCompiler } from '../core/template-compiler.js';
+
+describe('TemplateCompiler', () => {
+  const template = {
+    query: "SELECT * FROM {table} WHERE email = '{email}' AND id IN ({ids}) AND created_at > {since} -- {ignored}",
+    parameters: [
+      { name: 'table', type: 'identifier' as const, required: true, allowedValues: ['users', 'app.accounts'] },
+      { name: 'email', type: 'string' as const, required: true },
+      { name: 'ids', type: 'array' as const, required: true },
+      { name: 'since', type: 'date' as const, required: false, defaultValue: '2024-01-01' },
+    ],
+  };
+
+  it('should compile placeholders into bound parameters and apply defaults', () => {
+    expect(TemplateCompiler.compile(template, { table: 'app.accounts', email: "x' OR '1'='1", ids: [1, 2] }, 'postgresql')).toEqual({
+      query: 'SELECT * FROM "app"."accounts" WHERE email = :email AND id IN (:ids_0, :ids_1) AND created_at > :since -- {ignored}',
+      parameters: { email: "x' OR '1'='1", ids_0: 1, ids_1: 2, since: '2024-01-01' },
+    });
+    expect(TemplateCompiler.compile(template, { table: 'users', email: 'a', ids: [1] }, 'mysql').query)
+      .toContain('FROM `users` WHERE');
+  });
+
+  it('should reject identifiers outside the whitelist and mistyped values', () => {
+    expect(() => TemplateCompiler.compile(template, { table: 'users; DROP TABLE users', email: 'a', ids: [1] }, 'postgresql'))
+      .toThrow('Template parameter table must be one of: users, app.accounts');
+    expect(() => TemplateCompiler.compile(template, { table: 'users', email: 'a', ids: [] }, 'postgresql'))
+      .toThrow('Template parameter ids must be a non-empty array');
+    expect(() => TemplateCompiler.compile(template, { table: 'users', email: 'a', ids: [1], since: 'yesterday' }, 'postgresql'))
+      .toThrow('Template parameter since must be an ISO 8601 date');
+    expect(() => TemplateCompiler.compile(
+      { query: 'SELECT {n}', parameters: [{ name: 'n', type: 'int', required: true }] }, { n: '1.5' }, 'sqlite'
+    )).toThrow('Template parameter n must be an integer');
+  });
+
+  it('should reject missing, unknown and undeclared parameters', () => {
+    expect(() => TemplateCompiler.compile(template, { table: 'users', ids: [1] }, 'postgresql'))
+      .toThrow('Missing required template parameter: email');
+    expect(() => TemplateCompiler.compile(template, { table: 'users', email: 'a', ids: [1], extra: 1 }, 'postgresql'))
+      .toThrow('Unknown template parameter: extra');
+    expect(() => TemplateCompiler.validate({ query: 'SELECT {a}', parameters: [] }, 'postgresql'))
+      .toThrow('Template placeholder {a} is not declared');
+    expect(() => TemplateCompiler.validate({ query: 'SELECT * FROM {t}', parameters: [{ name: 't', type: 'identifier', required: true }] }, 'postgresql'))
+      .toThrow('Identifier parameter t requires allowedValues');
+    expect(() => TemplateCompiler.compile(
+      { query: 'SELECT * FROM users WHERE id IN ({ids})', parameters: [{ name: 'ids', type: 'array', required: false }] }, {}, 'postgresql'
+    )).toThrow('Missing template parameter: ids; an optional array parameter without a defaultValue still needs a value');
+  });
+
+  it('should reject placeholders inside a longer string literal', () => {
+    const search = (query: string) => ({ query, parameters: [{ name: 'q', type: 'string' as const, required: true }] });
+
+    expect(() => TemplateCompiler.validate(search("SELECT * FROM users WHERE name LIKE '%{q}%'"), 'postgresql'))
+      .toThrow("Template placeholder {q} is inside the string literal '%{q}%' and would not be replaced; build the string around it, e.g. '%' || {q} || '%'");
+    expect(() => TemplateCompiler.validate(search("SELECT * FROM users WHERE name LIKE '%{q}%'"), 'mysql')).toThrow("CONCAT('%', {q}, '%')");
+    expect(() => TemplateCompiler.validate(search("SELECT * FROM users WHERE name LIKE '%' || {q} || '%'"), 'postgresql')).not.toThrow();
+  });
+});
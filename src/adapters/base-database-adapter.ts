@@ -1,4 +1,26 @@
-import { DatabaseConfig, QueryResult, TableInfo, DatabaseStats, DatabaseOperation } from '../types/database.js';
+import { DatabaseConfig, QueryResult, TableInfo, DatabaseStats, DatabaseOperation, QueryOptions, PageState, QueryCursor, IsolationLevel, TransactionOptions, SavepointAction, QueryParameters, ExecutionPlan, ExplainOptions, SchemaObject } from '../types/database.js';
+import { SqlClassifier } from '../core/sql-classifier.js';
+import { QueryPolicyEnforcer, QueryPolicyError } from '../core/query-policy.js';
+import { BoundQuery, ParameterBinder } from '../core/parameter-binder.js';
+import { SessionContext, SessionState } from '../core/session-context.js';
+import { PagedCursor } from './query-cursor.js';
+
+const DEFAULT_MAX_ROWS = 1000;
+const DEFAULT_MAX_RESPONSE_BYTES = 1024 * 1024;
+const DEFAULT_CURSOR_IDLE_TIMEOUT_MS = 5 * 60 * 1000;
+const DEFAULT_TRANSACTION_IDLE_TIMEOUT_MS = 5 * 60 * 1000;
+
+// Savepoint names are interpolated into SQL, so only plain identifiers are accepted
+const SAVEPOINT_NAME = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+// Transaction state key for requests outside an MCP session (the stdio server)
+const DEFAULT_SESSION_KEY = '';
+
+// Savepoint that isolates a statement executed for analysis inside a session's open transaction
+const ANALYSIS_SAVEPOINT = 'pinemcp_analysis';
+
+// Statements that can be wrapped in a row-limiting subquery
+const PAGEABLE_KEYWORDS = new Set(['SELECT', 'WITH', 'VALUES', 'TABLE']);
 
 export abstract class BaseDatabaseAdapter {
   protected config: DatabaseConfig;
@@ -11,7 +33,7 @@ export abstract class BaseDatabaseAdapter {
   abstract connect(): Promise<void>;
   abstract disconnect(): Promise<void>;
   abstract isConnected(): boolean;
-  abstract executeQuery(query: string, parameters?: unknown[]): Promise<QueryResult>;
+  abstract executeQuery(query: string, parameters?: unknown[], options?: QueryOptions): Promise<QueryResult>;
   abstract getTables(): Promise<TableInfo[]>;
   abstract getTableInfo(tableName: string, schema?: string): Promise<TableInfo | null>;
   abstract getDatabaseStats(): Promise<DatabaseStats>;
@@ -25,68 +47,464 @@ export abstract class BaseDatabaseAdapter {
       throw new Error('Query must be a non-empty string');
     }
     
-    const dangerousPatterns = [
-      /(^|\s)drop\s+table\b/i,
-      /(^|\s)drop\s+database\b/i,
-      /(^|\s)truncate\s+table\b/i,
-      /(^|\s)alter\s+table\b/i,
-      /(^|\s)delete\s+from\b(?!.*\bwhere\b)/i,
-    ];
-    
-    for (const pattern of dangerousPatterns) {
-      if (pattern.test(query)) {
-        throw new Error('Potentially dangerous query detected');
-      }
+    const dialect = SqlClassifier.dialectFor(this.config.type);
+    if (dialect) {
+      QueryPolicyEnforcer.enforce(query, dialect, this.config.queryPolicy, this.isReadOnly());
+    }
+  }
+
+  protected validateParameters(parameters?: QueryParameters): void {
+    if (parameters && typeof parameters !== 'object') {
+      throw new Error('Parameters must be an array or an object of named values');
     }
   }
 
-  protected validateParameters(parameters?: unknown[]): void {
+  /**
+   * Rewrite `?` / `:name` placeholders to the driver's native style; see ParameterBinder.
+   */
+  bindParameters(query: string, parameters?: QueryParameters): BoundQuery {
+    const dialect = SqlClassifier.dialectFor(this.config.type);
+    if (dialect) {
+      return ParameterBinder.bind(query, parameters, dialect);
+    }
     if (parameters && !Array.isArray(parameters)) {
-      throw new Error('Parameters must be an array');
+      throw new Error(`Named parameters are not supported for ${this.config.type} connections`);
     }
+    return { query, parameters };
   }
 
-  abstract beginTransaction(): Promise<void>;
+  abstract beginTransaction(options?: TransactionOptions): Promise<void>;
   abstract commitTransaction(): Promise<void>;
   abstract rollbackTransaction(): Promise<void>;
   abstract isInTransaction(): boolean;
+
+  /**
+   * Reject transaction options the adapter cannot apply rather than silently running with the defaults.
+   */
+  protected assertTransactionOptions(options: TransactionOptions | undefined, isolationLevels: IsolationLevel[], readOnly: boolean): void {
+    if (options?.isolationLevel && !isolationLevels.includes(options.isolationLevel)) {
+      throw new Error(`Isolation level '${options.isolationLevel}' is not supported for ${this.config.type} connections`);
+    }
+    if (options?.readOnly && !readOnly) {
+      throw new Error(`Read-only transactions are not supported for ${this.config.type} connections`);
+    }
+  }
+
+  /**
+   * SQL-standard spelling of an isolation level, e.g. `REPEATABLE READ`.
+   */
+  protected isolationLevelSql(level: IsolationLevel): string {
+    return level.replace('_', ' ').toUpperCase();
+  }
+
+  supportsSavepoints(): boolean {
+    return false;
+  }
+
+  /**
+   * Whether beginTransaction/rollbackTransaction really undo writes. Adapters that only emulate transactions override this.
+   */
+  supportsRollback(): boolean {
+    return true;
+  }
+
+  /**
+   * Whether DDL is undone by a rollback rather than committing the transaction implicitly.
+   */
+  supportsTransactionalDdl(): boolean {
+    return true;
+  }
+
+  /**
+   * Views, routines, triggers, sequences and enum types, with their definitions. Adapters without them return none.
+   */
+  async getSchemaObjects(): Promise<SchemaObject[]> {
+    return [];
+  }
+
+  /**
+   * Whether every statement in the query only reads. Adapters whose queries are not SQL override this;
+   * statements that cannot be classified count as writes.
+   */
+  isReadStatement(query: string): boolean {
+    const dialect = SqlClassifier.dialectFor(this.config.type);
+    return dialect !== null && SqlClassifier.classify(query, dialect).every(statement => statement.category === 'read');
+  }
+
+  /**
+   * Whether an EXPLAIN that collects actual timings also applies the statement's writes.
+   */
+  protected analyzeExecutesWrites(): boolean {
+    return true;
+  }
+
+  /**
+   * Create, roll back to or release a savepoint in the session's open transaction.
+   */
+  async savepoint(action: SavepointAction, name: string): Promise<void> {
+    if (!this.supportsSavepoints()) {
+      throw new Error(`Savepoints are not supported for ${this.config.type} connections`);
+    }
+    if (!SAVEPOINT_NAME.test(name)) {
+      throw new Error(`Invalid savepoint name '${name}': use letters, digits and underscores`);
+    }
+    if (!this.isInTransaction()) {
+      throw new Error('No transaction in progress');
+    }
+    await this.runSavepoint(action, name);
+  }
+
+  protected async runSavepoint(action: SavepointAction, name: string): Promise<void> {
+    await this.executeQuery(this.savepointStatement(action, name));
+  }
+
+  protected savepointStatement(action: SavepointAction, name: string): string {
+    switch (action) {
+      case 'create':
+        return `SAVEPOINT ${name}`;
+      case 'rollback':
+        return `ROLLBACK TO SAVEPOINT ${name}`;
+      case 'release':
+        return `RELEASE SAVEPOINT ${name}`;
+    }
+  }
+
+  /**
+   * Roll back the transaction an MCP session left open when it ends.
+   */
+  async endSession(session: SessionState): Promise<void> {
+    await SessionContext.run(session, async () => {
+      if (this.isInTransaction()) {
+        await this.rollbackTransaction();
+      }
+    });
+  }
+
+  /**
+   * Key for per-session transaction state, so statements from one MCP session never run inside another's transaction.
+   */
+  protected getSessionKey(): string {
+    return SessionContext.current()?.id ?? DEFAULT_SESSION_KEY;
+  }
   
   getType(): string {
     return this.config.type;
   }
 
+  /**
+   * Row and response size limits for query results returned to MCP clients.
+   */
+  getResultLimits(): { maxRows: number; maxResponseBytes: number } {
+    return {
+      maxRows: this.config.maxRows ?? DEFAULT_MAX_ROWS,
+      maxResponseBytes: this.config.maxResponseBytes ?? DEFAULT_MAX_RESPONSE_BYTES,
+    };
+  }
+
+  getCursorIdleTimeout(): number {
+    return this.config.cursorIdleTimeoutMs ?? DEFAULT_CURSOR_IDLE_TIMEOUT_MS;
+  }
+
+  getTransactionIdleTimeout(): number {
+    return this.config.transactionIdleTimeoutMs ?? DEFAULT_TRANSACTION_IDLE_TIMEOUT_MS;
+  }
+
+  isReadOnly(): boolean {
+    return this.config.readOnly === true;
+  }
+
+  /**
+   * Reject a write operation on a read-only connection.
+   */
+  protected assertWritable(operation: string): void {
+    if (this.isReadOnly()) {
+      throw new Error(`Connection is read-only: ${operation} is not allowed`);
+    }
+  }
+
+  /**
+   * Reject any statement that is not a read on a read-only connection (or in a read-only transaction), for
+   * drivers without a native read-only mode.
+   */
+  protected assertReadOnlyStatement(query: string, readOnly: boolean = this.isReadOnly()): void {
+    const dialect = SqlClassifier.dialectFor(this.config.type);
+    if (readOnly && dialect) {
+      QueryPolicyEnforcer.enforce(query, dialect, { blockDestructive: false }, true);
+    }
+  }
+
+  /**
+   * Per-call timeout, falling back to the connection's `timeoutMs`.
+   */
+  protected getTimeout(options?: QueryOptions): number | undefined {
+    return options?.timeoutMs ?? this.config.timeoutMs;
+  }
+
+  /**
+   * Run a driver call and invoke `cancel` (pg_cancel_backend, request.cancel(), ...) when the client aborts
+   * the request or the call outlives `timeoutMs`. Drivers with a native statement timeout pass no `timeoutMs`.
+   */
+  protected cancellable<T>(run: () => Promise<T>, cancel: () => unknown, signal?: AbortSignal, timeoutMs?: number): Promise<T> {
+    if (!signal && !timeoutMs) {
+      return run();
+    }
+    if (signal?.aborted) {
+      return Promise.reject(new Error('Query cancelled by the client'));
+    }
+
+    return new Promise<T>((resolve, reject) => {
+      let timer: ReturnType<typeof setTimeout> | undefined;
+      const cleanup = () => {
+        signal?.removeEventListener('abort', onAbort);
+        clearTimeout(timer);
+      };
+      const stop = (error: Error) => {
+        cleanup();
+        Promise.resolve().then(cancel).catch(() => {});
+        reject(error);
+      };
+      const onAbort = () => stop(new Error('Query cancelled by the client'));
+
+      signal?.addEventListener('abort', onAbort, { once: true });
+      if (timeoutMs) {
+        timer = setTimeout(() => stop(new Error(`Query exceeded the ${timeoutMs} ms timeout`)), timeoutMs);
+      }
+      run().then(
+        value => { cleanup(); resolve(value); },
+        error => { cleanup(); reject(error); }
+      );
+    });
+  }
+
+  /**
+   * Whether a truncated result of the query can be continued: always for non-SQL stores, otherwise only for a single read statement.
+   */
+  isPageable(query: string): boolean {
+    return SqlClassifier.dialectFor(this.config.type) === null || this.getPageableStatement(query) !== null;
+  }
+
+  /**
+   * The statement text when the query is a single read statement that can be wrapped in a subquery.
+   */
+  protected getPageableStatement(query: string): string | null {
+    const dialect = SqlClassifier.dialectFor(this.config.type);
+    if (!dialect) {
+      return null;
+    }
+
+    const statements = SqlClassifier.classify(query, dialect);
+    const statement = statements[0];
+    if (statements.length !== 1 || !statement || statement.category !== 'read' || !PAGEABLE_KEYWORDS.has(statement.keyword)) {
+      return null;
+    }
+    return statement.text;
+  }
+
+  /**
+   * Wrap a read statement so the database returns the requested page plus one look-ahead row.
+   */
+  protected limitStatement(statement: string, maxRows: number, offset: number = 0): string {
+    return `SELECT * FROM (${statement}) AS pinemcp_page LIMIT ${maxRows + 1} OFFSET ${offset}`;
+  }
+
+  /**
+   * Cut a result down to the requested page and mark it truncated when more rows exist.
+   * `offsetApplied` says whether the driver already skipped `page.offset` rows; `nextPage` is the
+   * driver's own paging marker when it reported more data.
+   */
+  protected toPage(query: string, result: QueryResult, options: QueryOptions | undefined, offsetApplied: boolean, nextPage?: PageState): QueryResult {
+    if (!options?.maxRows) {
+      return result;
+    }
+    if (!this.isPageable(query)) {
+      // Following a page of a write would run it again, so the extra rows are dropped and the affected count is kept
+      return result.rows.length > options.maxRows
+        ? { ...result, rows: result.rows.slice(0, options.maxRows), truncated: true }
+        : result;
+    }
+
+    const offset = options.page?.offset || 0;
+    const available = offsetApplied ? result.rows : result.rows.slice(offset);
+    const rows = available.slice(0, options.maxRows);
+    const paged: QueryResult = { ...result, rows, rowCount: result.rows.length > 0 ? rows.length : result.rowCount };
+
+    if (available.length > options.maxRows) {
+      return { ...paged, truncated: true, nextPage: { ...options.page, offset: offset + options.maxRows } };
+    }
+    if (nextPage) {
+      return { ...paged, truncated: true, nextPage };
+    }
+    return paged;
+  }
+
   async ensureConnection(): Promise<void> {
     if (!this.isConnected()) {
       await this.connect();
     }
   }
 
-  async safeExecuteQuery(query: string, parameters?: unknown[]): Promise<QueryResult> {
+  async safeExecuteQuery(query: string, parameters?: QueryParameters, options?: QueryOptions): Promise<QueryResult> {
+    try {
+      this.validateQuery(query);
+      this.validateParameters(parameters);
+      const bound = this.bindParameters(query, parameters);
+      await this.ensureConnection();
+      return await this.executeQuery(bound.query, bound.parameters, options);
+    } catch (error) {
+      if (error instanceof QueryPolicyError) {
+        throw error;
+      }
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Open a cursor over a read query. Adapters with server-side cursors override this; the default
+   * pages through executeQuery, resuming from the driver's paging marker.
+   */
+  protected async openCursor(query: string, parameters?: unknown[]): Promise<QueryCursor> {
+    return new PagedCursor((maxRows, page) => this.executeQuery(query, parameters, { maxRows, page }));
+  }
+
+  /**
+   * Execution plan for a single statement, normalized by PlanNormalizer. Adapters with an EXPLAIN override this.
+   */
+  protected async explainQuery(_query: string, _parameters?: unknown[], _options?: ExplainOptions): Promise<ExecutionPlan> {
+    throw new Error(`Execution plans are not supported for ${this.config.type} connections`);
+  }
+
+  /**
+   * Execute a statement and undo its effects: in a transaction that is always rolled back, or under a savepoint
+   * when the session already has a transaction open.
+   */
+  async safeExecuteRolledBack(query: string, parameters?: QueryParameters, options?: QueryOptions): Promise<QueryResult> {
+    try {
+      this.validateQuery(query);
+      this.validateParameters(parameters);
+      const bound = this.bindParameters(query, parameters);
+      this.assertRollbackable(query);
+      await this.ensureConnection();
+      return await this.withRollback(() => this.executeQuery(bound.query, bound.parameters, options));
+    } catch (error) {
+      if (error instanceof QueryPolicyError) {
+        throw error;
+      }
+      throw this.handleError(error);
+    }
+  }
+
+  async safeExplainQuery(query: string, parameters?: QueryParameters, options?: ExplainOptions): Promise<ExecutionPlan> {
     try {
       this.validateQuery(query);
       this.validateParameters(parameters);
+      const bound = this.bindParameters(query, parameters);
+
+      // EXPLAIN ANALYZE runs the statement, so writes are rolled back afterwards
+      const executesWrites = options?.analyze === true && this.analyzeExecutesWrites() && !this.isReadStatement(query);
+      if (executesWrites) {
+        this.assertRollbackable(query);
+      }
+
       await this.ensureConnection();
-      return await this.executeQuery(query, parameters);
+      const explain = () => this.explainQuery(bound.query, bound.parameters, options);
+      return executesWrites ? await this.withRollback(explain) : await explain();
     } catch (error) {
+      if (error instanceof QueryPolicyError) {
+        throw error;
+      }
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Reject statements whose effects a rollback would not undo.
+   */
+  private assertRollbackable(query: string): void {
+    if (!this.supportsRollback()) {
+      throw new Error(`${this.config.type} connections cannot roll back writes, so they can only be analyzed without executing them`);
+    }
+    const dialect = SqlClassifier.dialectFor(this.config.type);
+    const statements = dialect ? SqlClassifier.classify(query, dialect) : [];
+    if (statements.some(statement => statement.category === 'admin')) {
+      throw new Error('Administrative statements cannot be rolled back, so they can only be analyzed without executing them');
+    }
+    if (!this.supportsTransactionalDdl() && statements.some(statement => statement.category === 'ddl')) {
+      throw new Error(`DDL commits the transaction on ${this.config.type} connections, so it can only be analyzed without executing it`);
+    }
+  }
+
+  private async withRollback<T>(run: () => Promise<T>): Promise<T> {
+    if (this.isInTransaction()) {
+      if (!this.supportsSavepoints()) {
+        throw new Error(`Cannot undo a statement inside the open transaction on ${this.config.type} connections; end the transaction first`);
+      }
+      await this.runSavepoint('create', ANALYSIS_SAVEPOINT);
+      try {
+        return await run();
+      } finally {
+        await this.runSavepoint('rollback', ANALYSIS_SAVEPOINT);
+        await this.runSavepoint('release', ANALYSIS_SAVEPOINT);
+      }
+    }
+
+    await this.beginTransaction();
+    try {
+      return await run();
+    } finally {
+      // The transaction may already be gone if the database rolled it back itself
+      if (this.isInTransaction()) {
+        await this.rollbackTransaction();
+      }
+    }
+  }
+
+  async safeOpenCursor(query: string, parameters?: QueryParameters): Promise<QueryCursor> {
+    try {
+      this.validateQuery(query);
+      this.validateParameters(parameters);
+      const bound = this.bindParameters(query, parameters);
+
+      const dialect = SqlClassifier.dialectFor(this.config.type);
+      const statements = dialect ? SqlClassifier.classify(query, dialect) : [];
+      if (dialect && (statements.length !== 1 || statements[0]?.category !== 'read')) {
+        throw new Error('Cursors can only be opened for a single read statement');
+      }
+      if (this.isInTransaction()) {
+        // Cursors run on their own connection, so they would not see the transaction's uncommitted writes
+        throw new Error('Cursors cannot be opened while a transaction is open; commit or roll back first, or page with continuation_token');
+      }
+
+      await this.ensureConnection();
+      return await this.openCursor(bound.query, bound.parameters);
+    } catch (error) {
+      if (error instanceof QueryPolicyError) {
+        throw error;
+      }
       throw this.handleError(error);
     }
   }
 
   async executeBatch(operations: DatabaseOperation[]): Promise<QueryResult[]> {
     const results: QueryResult[] = [];
+    this.assertWritable('executeBatch');
+    operations.forEach(operation => this.validateQuery(operation.query));
     
     try {
       await this.beginTransaction();
       
       for (const operation of operations) {
-        const result = await this.executeQuery(operation.query, operation.parameters);
+        const bound = this.bindParameters(operation.query, operation.parameters);
+        const result = await this.executeQuery(bound.query, bound.parameters);
         results.push(result);
       }
       
       await this.commitTransaction();
       return results;
     } catch (error) {
-      await this.rollbackTransaction();
+      // The transaction may already be gone (BEGIN failed, or the database rolled it back itself)
+      if (this.isInTransaction()) {
+        await this.rollbackTransaction();
+      }
       throw this.handleError(error);
     }
   }
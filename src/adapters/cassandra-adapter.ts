@@ -1,10 +1,11 @@
 import { Client, types } from 'cassandra-driver';
 import { BaseDatabaseAdapter } from './base-database-adapter.js';
-import { QueryResult, TableInfo, DatabaseStats, ColumnInfo, IndexInfo } from '../types/database.js';
+import { QueryResult, QueryOptions, TableInfo, DatabaseStats, ColumnInfo, IndexInfo, TransactionOptions } from '../types/database.js';
 
 export class CassandraAdapter extends BaseDatabaseAdapter {
   private client: Client | null = null;
-  private inTransaction: boolean = false;
+  // MCP sessions that called beginTransaction (kept for compatibility; Cassandra has no transactions)
+  private transactionSessions: Set<string> = new Set();
 
   async connect(): Promise<void> {
     try {
@@ -16,6 +17,7 @@ export class CassandraAdapter extends BaseDatabaseAdapter {
           username: this.config.username,
           password: this.config.password || '',
         } : undefined,
+        ...(this.config.timeoutMs ? { socketOptions: { readTimeout: this.config.timeoutMs } } : {}),
       };
 
       this.client = new Client(connectionConfig);
@@ -43,13 +45,26 @@ export class CassandraAdapter extends BaseDatabaseAdapter {
     return this.connected && this.client !== null;
   }
 
-  async executeQuery(query: string, parameters?: unknown[]): Promise<QueryResult> {
+  async executeQuery(query: string, parameters?: unknown[], options?: QueryOptions): Promise<QueryResult> {
     if (!this.client) {
       throw new Error('Database not connected');
     }
 
+    this.assertReadOnlyStatement(query);
+
     try {
-      const result = await this.client.execute(query, parameters || []);
+      // Fetch a single driver page that ends where the requested page ends
+      const executeOptions: { fetchSize?: number; pageState?: string; readTimeout?: number } = {};
+      if (options?.maxRows) {
+        executeOptions.fetchSize = (options.page?.offset || 0) + options.maxRows;
+        if (options.page?.pageState) executeOptions.pageState = options.page.pageState;
+      }
+      if (options?.timeoutMs) {
+        executeOptions.readTimeout = options.timeoutMs;
+      }
+      // The driver cannot cancel a request in flight; a cancelled call stops waiting for it
+      const client = this.client;
+      const result = await this.cancellable(() => client.execute(query, parameters || [], executeOptions), () => {}, options?.signal);
       
       const rows = result.rows.map((row, index) => {
         const obj: Record<string, unknown> = { _row_id: index };
@@ -71,11 +86,11 @@ export class CassandraAdapter extends BaseDatabaseAdapter {
         defaultValue: undefined,
       }));
 
-      return {
+      return this.toPage(query, {
         rows,
         rowCount: rows.length,
         fields,
-      };
+      }, options, false, result.pageState ? { pageState: result.pageState } : undefined);
     } catch (error) {
       throw this.handleError(error);
     }
@@ -209,26 +224,31 @@ export class CassandraAdapter extends BaseDatabaseAdapter {
     }
   }
 
-  async beginTransaction(): Promise<void> {
+  async beginTransaction(options?: TransactionOptions): Promise<void> {
+    this.assertTransactionOptions(options, [], false);
     // Cassandra doesn't support traditional transactions
     // This is a no-op for compatibility
-    this.inTransaction = true;
+    this.transactionSessions.add(this.getSessionKey());
   }
 
   async commitTransaction(): Promise<void> {
     // Cassandra doesn't support traditional transactions
     // This is a no-op for compatibility
-    this.inTransaction = false;
+    this.transactionSessions.delete(this.getSessionKey());
   }
 
   async rollbackTransaction(): Promise<void> {
     // Cassandra doesn't support traditional transactions
     // This is a no-op for compatibility
-    this.inTransaction = false;
+    this.transactionSessions.delete(this.getSessionKey());
   }
 
   isInTransaction(): boolean {
-    return this.inTransaction;
+    return this.transactionSessions.has(this.getSessionKey());
+  }
+
+  override supportsRollback(): boolean {
+    return false;
   }
 
   private convertCassandraValue(value: unknown): unknown {
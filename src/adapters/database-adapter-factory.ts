@@ -8,6 +8,7 @@ import { MongoDBAdapter } from './mongodb-adapter.js';
 import { CassandraAdapter } from './cassandra-adapter.js';
 import { MSSQLAdapter } from './mssql-adapter.js';
 import { DynamoDBAdapter } from './dynamodb-adapter.js';
+import { ConfigReferences } from '../core/config-references.js';
 
 export class DatabaseAdapterFactory {
   static createDatabase(config: DatabaseConfig): BaseDatabaseAdapter {
@@ -99,6 +100,8 @@ export class DatabaseAdapterFactory {
         break;
     }
 
+    errors.push(...ConfigReferences.findUnresolved(config));
+
     return {
       valid: errors.length === 0,
       errors,
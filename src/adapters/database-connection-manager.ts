@@ -1,16 +1,46 @@
+import { randomUUID } from 'crypto';
 import { BaseDatabaseAdapter } from './base-database-adapter.js';
-import { DatabaseConfig, DatabaseType } from '../types/database.js';
+import { CursorPage, DatabaseConfig, DatabaseType, FieldInfo, QueryCursor } from '../types/database.js';
 import { DatabaseAdapterFactory } from './database-adapter-factory.js';
+import { ConnectionSource } from '../types/mcp.js';
+import { SessionContext, SessionState } from '../core/session-context.js';
+
+// Each cursor holds a pooled connection (20 for PostgreSQL and MySQL), so most of the pool stays free for queries and transactions
+const MAX_CURSORS_PER_CONNECTION = 5;
+
+interface OpenCursor {
+  connectionName: string;
+  // The MCP session that opened it; its cursors close when it ends
+  sessionId: string | undefined;
+  query: string;
+  cursor: QueryCursor;
+  // Rows read from the driver but not yet returned to the client
+  pending: Record<string, unknown>[];
+  fields: FieldInfo[];
+  exhausted: boolean;
+  expiry: ReturnType<typeof setTimeout> | null;
+}
+
+interface TransactionActivity {
+  sessionId: string | undefined;
+  // Tool calls in flight on the connection; the idle timer only runs when there are none
+  active: number;
+  expiry: ReturnType<typeof setTimeout> | null;
+}
 
 export class DatabaseConnectionManager {
   private connections: Map<string, BaseDatabaseAdapter> = new Map();
+  private sources: Map<string, ConnectionSource> = new Map();
+  private cursors: Map<string, OpenCursor> = new Map();
+  private transactionActivity: Map<string, TransactionActivity> = new Map();
   private currentConnection: string | null = null;
 
-  async addConnection(name: string, config: DatabaseConfig): Promise<void> {
+  async addConnection(name: string, config: DatabaseConfig, source: ConnectionSource = 'runtime'): Promise<void> {
     try {
       const database = DatabaseAdapterFactory.createDatabase(config);
       await database.connect();
       this.connections.set(name, database);
+      this.sources.set(name, source);
       
       if (!this.currentConnection) {
         this.currentConnection = name;
@@ -23,8 +53,10 @@ export class DatabaseConnectionManager {
   async removeConnection(name: string): Promise<void> {
     const connection = this.connections.get(name);
     if (connection) {
+      await this.closeCursors(name);
       await connection.disconnect();
       this.connections.delete(name);
+      this.sources.delete(name);
       
       if (this.currentConnection === name) {
         this.currentConnection = this.connections.keys().next().value || null;
@@ -36,29 +68,50 @@ export class DatabaseConnectionManager {
     if (name) {
       return this.connections.get(name) || null;
     }
-    return this.currentConnection ? this.connections.get(this.currentConnection) || null : null;
+    const current = this.getCurrentConnectionName();
+    return current ? this.connections.get(current) || null : null;
   }
 
+  /**
+   * Switch the current connection of the active session, or the server default outside a session.
+   */
   setCurrentConnection(name: string): void {
-    if (this.connections.has(name)) {
-      this.currentConnection = name;
-    } else {
+    if (!this.connections.has(name)) {
       throw new Error(`Connection '${name}' not found`);
     }
+
+    const session = SessionContext.current();
+    if (session) {
+      session.currentConnection = name;
+    } else {
+      this.currentConnection = name;
+    }
   }
 
   getCurrentConnectionName(): string | null {
+    const session = SessionContext.current();
+    if (session?.currentConnection && this.connections.has(session.currentConnection)) {
+      return session.currentConnection;
+    }
     return this.currentConnection;
   }
 
-  listConnections(): Array<{ name: string; type: DatabaseType; connected: boolean }> {
-    const result: Array<{ name: string; type: DatabaseType; connected: boolean }> = [];
+  setConnectionSource(name: string, source: ConnectionSource): void {
+    if (this.connections.has(name)) {
+      this.sources.set(name, source);
+    }
+  }
+
+  listConnections(): Array<{ name: string; type: DatabaseType; connected: boolean; readOnly: boolean; source: ConnectionSource }> {
+    const result: Array<{ name: string; type: DatabaseType; connected: boolean; readOnly: boolean; source: ConnectionSource }> = [];
 
     for (const [name, connection] of this.connections) {
       result.push({
         name,
         type: connection.getType() as DatabaseType,
         connected: connection.isConnected(),
+        readOnly: connection.isReadOnly(),
+        source: this.sources.get(name) || 'runtime',
       });
     }
 
@@ -79,7 +132,179 @@ export class DatabaseConnectionManager {
     return results;
   }
 
+  /**
+   * Track a cursor opened on a connection; it is closed after the connection's idle timeout.
+   */
+  registerCursor(connectionName: string, query: string, cursor: QueryCursor): string {
+    const open = [...this.cursors.values()].filter(entry => entry.connectionName === connectionName).length;
+    if (open >= MAX_CURSORS_PER_CONNECTION) {
+      void cursor.close().catch(() => {});
+      throw new Error(`Connection '${connectionName}' already has ${open} open cursors; close some with close_cursor`);
+    }
+
+    const id = randomUUID();
+    this.cursors.set(id, { connectionName, sessionId: SessionContext.current()?.id, query, cursor, pending: [], fields: [], exhausted: false, expiry: null });
+    this.touchCursor(id);
+    return id;
+  }
+
+  getCursor(id: string): { connectionName: string; query: string } {
+    const { connectionName, query } = this.requireCursor(id);
+    return { connectionName, query };
+  }
+
+  /**
+   * Read the next page from a cursor. `fit` says how many of the rows can be returned (e.g. to stay under a
+   * response size limit); the rest are kept for the next read. Exhausted cursors are closed.
+   */
+  async readCursor(id: string, count: number, fit: (_rows: Record<string, unknown>[], _fields: FieldInfo[]) => number = rows => rows.length): Promise<CursorPage> {
+    const entry = this.requireCursor(id);
+
+    try {
+      const rows = entry.pending.splice(0, count);
+      if (rows.length < count && !entry.exhausted) {
+        const page = await entry.cursor.read(count - rows.length);
+        rows.push(...page.rows);
+        entry.fields = page.fields.length > 0 ? page.fields : entry.fields;
+        entry.exhausted = page.done;
+        if (page.done) {
+          await entry.cursor.close();
+        }
+      }
+
+      entry.pending.unshift(...rows.splice(fit(rows, entry.fields)));
+      const done = entry.exhausted && entry.pending.length === 0;
+      if (done) {
+        await this.closeCursor(id);
+      } else {
+        this.touchCursor(id);
+      }
+      return { rows, fields: entry.fields, done };
+    } catch (error) {
+      await this.closeCursor(id).catch(() => {});
+      throw error;
+    }
+  }
+
+  async closeCursor(id: string): Promise<boolean> {
+    const entry = this.cursors.get(id);
+    if (!entry) {
+      return false;
+    }
+
+    this.cursors.delete(id);
+    if (entry.expiry) {
+      clearTimeout(entry.expiry);
+    }
+    if (!entry.exhausted) {
+      await entry.cursor.close();
+    }
+    return true;
+  }
+
+  async closeCursors(connectionName?: string): Promise<void> {
+    for (const [id, entry] of this.cursors) {
+      if (!connectionName || entry.connectionName === connectionName) {
+        try {
+          await this.closeCursor(id);
+        } catch (error) {
+          console.error(`Failed to close cursor ${id}:`, error);
+        }
+      }
+    }
+  }
+
+  private requireCursor(id: string): OpenCursor {
+    const entry = this.cursors.get(id);
+    if (!entry) {
+      throw new Error(`Cursor '${id}' not found; it may have expired or been closed`);
+    }
+    return entry;
+  }
+
+  private touchCursor(id: string): void {
+    const entry = this.cursors.get(id);
+    if (!entry) return;
+
+    if (entry.expiry) {
+      clearTimeout(entry.expiry);
+    }
+    const connection = this.connections.get(entry.connectionName);
+    if (!connection) return;
+
+    entry.expiry = setTimeout(() => {
+      this.closeCursor(id).catch(error => console.error(`Failed to close expired cursor ${id}:`, error));
+    }, connection.getCursorIdleTimeout());
+    entry.expiry.unref();
+  }
+
+  /**
+   * Stop the idle timers of the calling session's transactions on these connections while a tool call runs.
+   */
+  holdTransactions(connectionNames: string[]): void {
+    const sessionId = SessionContext.current()?.id;
+    for (const name of connectionNames) {
+      const key = this.transactionKey(sessionId, name);
+      const activity = this.transactionActivity.get(key) || { sessionId, active: 0, expiry: null };
+      clearTimeout(activity.expiry ?? undefined);
+      activity.expiry = null;
+      activity.active++;
+      this.transactionActivity.set(key, activity);
+    }
+  }
+
+  /**
+   * Restart the idle timers released by the last tool call on each connection. A transaction left idle for the
+   * connection's `transactionIdleTimeoutMs` is rolled back and reported through `onIdleRollback`.
+   */
+  releaseTransactions(connectionNames: string[], onIdleRollback: (_message: string) => void): void {
+    const session = SessionContext.current();
+    for (const name of connectionNames) {
+      const key = this.transactionKey(session?.id, name);
+      const activity = this.transactionActivity.get(key);
+      if (!activity || --activity.active > 0) continue;
+
+      const connection = this.connections.get(name);
+      if (!connection?.isInTransaction()) {
+        this.transactionActivity.delete(key);
+        continue;
+      }
+
+      const timeoutMs = connection.getTransactionIdleTimeout();
+      activity.expiry = setTimeout(() => {
+        this.transactionActivity.delete(key);
+        SessionContext.run(session, async () => {
+          if (this.connections.get(name) !== connection || !connection.isInTransaction()) return;
+          await connection.rollbackTransaction();
+          onIdleRollback(`Transaction on '${name}' was rolled back after ${timeoutMs} ms without activity`);
+        }).catch(error => console.error(`Failed to roll back idle transaction on ${name}:`, error));
+      }, timeoutMs);
+      activity.expiry.unref();
+    }
+  }
+
+  /**
+   * Roll back every transaction the session left open and close the cursors it opened.
+   */
+  async endSession(session: SessionState): Promise<void> {
+    this.clearTransactionActivity(session.id);
+    for (const [id, entry] of this.cursors) {
+      if (entry.sessionId === session.id) {
+        await this.closeCursor(id).catch(error => console.error(`Failed to close cursor ${id}:`, error));
+      }
+    }
+    for (const [name, connection] of this.connections) {
+      try {
+        await connection.endSession(session);
+      } catch (error) {
+        console.error(`Failed to roll back session ${session.id} on ${name}:`, error);
+      }
+    }
+  }
+
   async disconnectAll(): Promise<void> {
+    await this.closeCursors();
+    this.clearTransactionActivity();
     for (const [name, connection] of this.connections) {
       try {
         await connection.disconnect();
@@ -88,9 +313,23 @@ export class DatabaseConnectionManager {
       }
     }
     this.connections.clear();
+    this.sources.clear();
     this.currentConnection = null;
   }
 
+  private clearTransactionActivity(sessionId?: string): void {
+    for (const [key, activity] of this.transactionActivity) {
+      if (sessionId === undefined || activity.sessionId === sessionId) {
+        clearTimeout(activity.expiry ?? undefined);
+        this.transactionActivity.delete(key);
+      }
+    }
+  }
+
+  private transactionKey(sessionId: string | undefined, connectionName: string): string {
+    return JSON.stringify([sessionId ?? null, connectionName]);
+  }
+
   hasConnection(name: string): boolean {
     return this.connections.has(name);
   }
@@ -1,7 +1,9 @@
 import { DynamoDBClient, ListTablesCommand, DescribeTableCommand } from '@aws-sdk/client-dynamodb';
-import { DynamoDBDocumentClient, ScanCommand as DocScanCommand, QueryCommand as DocQueryCommand } from '@aws-sdk/lib-dynamodb';
+import { DynamoDBDocumentClient, ScanCommand as DocScanCommand, QueryCommand as DocQueryCommand, ScanCommandOutput, QueryCommandOutput } from '@aws-sdk/lib-dynamodb';
 import { BaseDatabaseAdapter } from './base-database-adapter.js';
-import { QueryResult, TableInfo, DatabaseStats, FieldInfo } from '../types/database.js';
+import { QueryResult, QueryOptions, TableInfo, DatabaseStats, FieldInfo, TransactionOptions } from '../types/database.js';
+
+const WRITE_OPERATIONS = new Set(['put', 'update', 'delete', 'batchwrite', 'transactwrite']);
 
 export class DynamoDBAdapter extends BaseDatabaseAdapter {
   private client: DynamoDBClient | null = null;
@@ -37,13 +39,16 @@ export class DynamoDBAdapter extends BaseDatabaseAdapter {
     }
   }
 
-  async executeQuery(query: string, _parameters?: unknown[]): Promise<QueryResult> {
+  async executeQuery(query: string, _parameters?: unknown[], options?: QueryOptions): Promise<QueryResult> {
     if (!this.docClient) {
       throw new Error('Not connected to database');
     }
 
     try {
       const queryObj = JSON.parse(query);
+      if (WRITE_OPERATIONS.has(String(queryObj.operation).toLowerCase())) {
+        this.assertWritable(queryObj.operation);
+      }
       
       if (queryObj.operation === 'scan') {
         const command = new DocScanCommand({
@@ -51,16 +56,16 @@ export class DynamoDBAdapter extends BaseDatabaseAdapter {
           FilterExpression: queryObj.filterExpression,
           ExpressionAttributeNames: queryObj.expressionAttributeNames,
           ExpressionAttributeValues: queryObj.expressionAttributeValues,
-          Limit: queryObj.limit,
+          ...this.getPaging(queryObj.limit, options),
         });
 
-        const result = await this.docClient.send(command);
+        const result = await this.send(command, options);
         
-        return {
+        return this.toPage(query, {
           rows: result.Items || [],
           rowCount: result.Count || 0,
           fields: this.mapFields(result.Items?.[0] || {}),
-        };
+        }, options, false, result.LastEvaluatedKey ? { exclusiveStartKey: result.LastEvaluatedKey } : undefined);
       } else if (queryObj.operation === 'query') {
         const command = new DocQueryCommand({
           TableName: queryObj.tableName,
@@ -68,16 +73,16 @@ export class DynamoDBAdapter extends BaseDatabaseAdapter {
           FilterExpression: queryObj.filterExpression,
           ExpressionAttributeNames: queryObj.expressionAttributeNames,
           ExpressionAttributeValues: queryObj.expressionAttributeValues,
-          Limit: queryObj.limit,
+          ...this.getPaging(queryObj.limit, options),
         });
 
-        const result = await this.docClient.send(command);
+        const result = await this.send(command, options);
         
-        return {
+        return this.toPage(query, {
           rows: result.Items || [],
           rowCount: result.Count || 0,
           fields: this.mapFields(result.Items?.[0] || {}),
-        };
+        }, options, false, result.LastEvaluatedKey ? { exclusiveStartKey: result.LastEvaluatedKey } : undefined);
       } else {
         throw new Error('Unsupported operation. Use "scan" or "query"');
       }
@@ -86,6 +91,36 @@ export class DynamoDBAdapter extends BaseDatabaseAdapter {
     }
   }
 
+  /**
+   * Send a scan/query that is aborted when the client cancels or the timeout elapses.
+   */
+  private send(command: DocScanCommand | DocQueryCommand, options?: QueryOptions): Promise<ScanCommandOutput | QueryCommandOutput> {
+    const docClient = this.docClient!;
+    const controller = new AbortController();
+    const request = { abortSignal: controller.signal };
+    return this.cancellable<ScanCommandOutput | QueryCommandOutput>(
+      () => (command instanceof DocScanCommand ? docClient.send(command, request) : docClient.send(command, request)),
+      () => controller.abort(),
+      options?.signal,
+      this.getTimeout(options)
+    );
+  }
+
+  /**
+   * Limit a scan/query to the end of the requested page, resuming from the page's start key.
+   */
+  private getPaging(limit: number | undefined, options?: QueryOptions): { Limit?: number; ExclusiveStartKey?: Record<string, any> } {
+    if (!options?.maxRows) {
+      return limit ? { Limit: limit } : {};
+    }
+
+    const pageEnd = (options.page?.offset || 0) + options.maxRows;
+    return {
+      Limit: limit ? Math.min(limit, pageEnd) : pageEnd,
+      ...(options.page?.exclusiveStartKey ? { ExclusiveStartKey: options.page.exclusiveStartKey } : {}),
+    };
+  }
+
   async getTables(): Promise<TableInfo[]> {
     if (!this.client) {
       throw new Error('Not connected to database');
@@ -226,7 +261,8 @@ export class DynamoDBAdapter extends BaseDatabaseAdapter {
     return new Error(`DynamoDB error: ${String(error)}`);
   }
 
-  async beginTransaction(): Promise<void> {
+  async beginTransaction(options?: TransactionOptions): Promise<void> {
+    this.assertTransactionOptions(options, [], false);
     // DynamoDB doesn't support traditional transactions in the same way
     // Transactions are handled at the item level
   }
@@ -243,6 +279,19 @@ export class DynamoDBAdapter extends BaseDatabaseAdapter {
     return false; // DynamoDB doesn't support traditional transactions
   }
 
+  override supportsRollback(): boolean {
+    return false;
+  }
+
+  override isReadStatement(query: string): boolean {
+    try {
+      const { operation } = JSON.parse(query);
+      return typeof operation === 'string' && !WRITE_OPERATIONS.has(operation.toLowerCase());
+    } catch {
+      return false;
+    }
+  }
+
   private mapFields(item: Record<string, any>): FieldInfo[] {
     return Object.keys(item).map(key => ({
       name: key,
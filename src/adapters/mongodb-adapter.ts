@@ -1,12 +1,16 @@
-import { MongoClient, Db } from 'mongodb';
+import { MongoClient, Db, ClientSession } from 'mongodb';
 import { BaseDatabaseAdapter } from './base-database-adapter.js';
-import { QueryResult, TableInfo, DatabaseStats, ColumnInfo, IndexInfo } from '../types/database.js';
+import { IteratorCursor } from './query-cursor.js';
+import { QueryResult, QueryOptions, QueryCursor, TableInfo, DatabaseStats, ColumnInfo, IndexInfo, TransactionOptions, ExecutionPlan, ExplainOptions } from '../types/database.js';
+import { PlanNormalizer } from '../core/plan-normalizer.js';
+
+const WRITE_OPERATIONS = new Set(['insertone', 'insertmany', 'updateone', 'updatemany', 'deleteone', 'deletemany']);
 
 export class MongoDBAdapter extends BaseDatabaseAdapter {
   private client: MongoClient | null = null;
   private db: Db | null = null;
-  private inTransaction: boolean = false;
-  private session: any = null;
+  // Driver session per MCP session with an open transaction
+  private transactionSessions: Map<string, ClientSession> = new Map();
 
   async connect(): Promise<void> {
     try {
@@ -30,10 +34,10 @@ export class MongoDBAdapter extends BaseDatabaseAdapter {
 
   async disconnect(): Promise<void> {
     try {
-      if (this.session) {
-        await this.session.endSession();
-        this.session = null;
+      for (const session of this.transactionSessions.values()) {
+        await session.endSession();
       }
+      this.transactionSessions.clear();
       if (this.client) {
         await this.client.close();
         this.client = null;
@@ -49,7 +53,7 @@ export class MongoDBAdapter extends BaseDatabaseAdapter {
     return this.connected && this.client !== null && this.db !== null;
   }
 
-  async executeQuery(query: string, _parameters?: unknown[]): Promise<QueryResult> {
+  async executeQuery(query: string, _parameters?: unknown[], queryOptions?: QueryOptions): Promise<QueryResult> {
     if (!this.db) {
       throw new Error('Database not connected');
     }
@@ -63,50 +67,80 @@ export class MongoDBAdapter extends BaseDatabaseAdapter {
         throw new Error('Query must include collection and operation');
       }
 
+      if (WRITE_OPERATIONS.has(operation.toLowerCase()) || this.isWritePipeline(operation, update)) {
+        this.assertWritable(operation);
+      }
+
       const coll = this.db.collection(collection);
+      const maxTimeMS = this.getTimeout(queryOptions);
+      const session = this.transactionSessions.get(this.getSessionKey());
+      const sessionOptions = session ? { session } : {};
+      const operationOptions = {
+        ...(options || {}),
+        ...sessionOptions,
+        ...(maxTimeMS ? { maxTimeMS } : {}),
+        ...(queryOptions?.signal ? { signal: queryOptions.signal } : {}),
+      };
+      const maxRows = queryOptions?.maxRows;
+      const offset = queryOptions?.page?.offset || 0;
+      let offsetApplied = false;
       let result: unknown;
 
       switch (operation.toLowerCase()) {
-        case 'find':
-          result = await coll.find(filter || {}, options || {}).toArray();
+        case 'find': {
+          const cursor = coll.find(filter || {}, operationOptions);
+          if (maxRows) {
+            // Respect a caller-supplied limit as the total across pages
+            const remaining = options?.limit ? Math.max(options.limit - offset, 0) : Infinity;
+            cursor.skip((options?.skip || 0) + offset).limit(Math.min(remaining, maxRows + 1));
+            offsetApplied = true;
+          }
+          result = await cursor.toArray();
           break;
+        }
         case 'findone':
-          result = await coll.findOne(filter || {}, options || {});
+          result = await coll.findOne(filter || {}, operationOptions);
           break;
         case 'insertone':
-          result = await coll.insertOne(update || {});
+          result = await coll.insertOne(update || {}, sessionOptions);
           break;
         case 'insertmany':
-          result = await coll.insertMany(Array.isArray(update) ? update : [update]);
+          result = await coll.insertMany(Array.isArray(update) ? update : [update], sessionOptions);
           break;
         case 'updateone':
-          result = await coll.updateOne(filter || {}, update || {}, options || {});
+          result = await coll.updateOne(filter || {}, update || {}, operationOptions);
           break;
         case 'updatemany':
-          result = await coll.updateMany(filter || {}, update || {}, options || {});
+          result = await coll.updateMany(filter || {}, update || {}, operationOptions);
           break;
         case 'deleteone':
-          result = await coll.deleteOne(filter || {}, options || {});
+          result = await coll.deleteOne(filter || {}, operationOptions);
           break;
         case 'deletemany':
-          result = await coll.deleteMany(filter || {}, options || {});
+          result = await coll.deleteMany(filter || {}, operationOptions);
           break;
         case 'count':
-          result = await coll.countDocuments(filter || {}, options || {});
+          result = await coll.countDocuments(filter || {}, operationOptions);
           break;
         case 'distinct':
-          result = await coll.distinct(update as string, filter || {}, options || {});
+          result = await coll.distinct(update as string, filter || {}, operationOptions);
           break;
-        case 'aggregate':
-          result = await coll.aggregate(Array.isArray(update) ? update : [update], options || {}).toArray();
+        case 'aggregate': {
+          const pipeline = Array.isArray(update) ? [...update] : [update];
+          if (maxRows && !this.isWritePipeline(operation, pipeline)) {
+            pipeline.push(...(offset > 0 ? [{ $skip: offset }] : []), { $limit: maxRows + 1 });
+            offsetApplied = true;
+          }
+          result = await coll.aggregate(pipeline, operationOptions).toArray();
           break;
+        }
         default:
           throw new Error(`Unsupported MongoDB operation: ${operation}`);
       }
 
       const rows = Array.isArray(result) ? result : [result];
       
-      return {
+      return this.toPage(query, {
         rows: rows.map((row, index) => ({ _id: index, ...row })),
         rowCount: rows.length,
         fields: rows.length > 0 ? Object.keys(rows[0] as Record<string, unknown>).map(key => ({
@@ -115,12 +149,98 @@ export class MongoDBAdapter extends BaseDatabaseAdapter {
           nullable: true,
           defaultValue: undefined,
         })) : [],
-      };
+      }, queryOptions, offsetApplied);
     } catch (error) {
       throw this.handleError(error);
     }
   }
 
+  /**
+   * Iterate a FindCursor or AggregationCursor; only find and read-only aggregate queries can be opened as cursors.
+   */
+  protected override async openCursor(query: string): Promise<QueryCursor> {
+    if (!this.db) {
+      throw new Error('Database not connected');
+    }
+
+    const { collection, operation, filter, update, options } = JSON.parse(query);
+    if (!collection || !operation) {
+      throw new Error('Query must include collection and operation');
+    }
+
+    const coll = this.db.collection(collection);
+    const cursorOptions = { ...(options || {}), ...(this.config.timeoutMs ? { maxTimeMS: this.config.timeoutMs } : {}) };
+    let cursor;
+    if (String(operation).toLowerCase() === 'find') {
+      cursor = coll.find(filter || {}, cursorOptions);
+    } else if (String(operation).toLowerCase() === 'aggregate' && !this.isWritePipeline(operation, update)) {
+      cursor = coll.aggregate(Array.isArray(update) ? update : [update], cursorOptions);
+    } else {
+      throw new Error('Cursors are only available for find and read-only aggregate operations');
+    }
+
+    const fields = (rows: Record<string, unknown>[]) => (rows[0]
+      ? Object.keys(rows[0]).map(key => ({ name: key, dataType: 'object', nullable: true, defaultValue: undefined }))
+      : []);
+    return new IteratorCursor(cursor[Symbol.asyncIterator](), fields, () => cursor.close());
+  }
+
+  /**
+   * `explain` with executionStats verbosity when analyzing. Updates and deletes are explained without applying
+   * their changes; inserts have no plan.
+   */
+  protected override async explainQuery(query: string, _parameters?: unknown[], explainOptions?: ExplainOptions): Promise<ExecutionPlan> {
+    if (!this.db) {
+      throw new Error('Database not connected');
+    }
+
+    const { collection, operation, filter, update, options } = JSON.parse(query);
+    if (!collection || !operation) {
+      throw new Error('Query must include collection and operation');
+    }
+
+    const verbosity = explainOptions?.analyze ? 'executionStats' : 'queryPlanner';
+    const coll = this.db.collection(collection);
+    const session = this.transactionSessions.get(this.getSessionKey());
+    const commandOptions = session ? { session } : {};
+    const explain = (command: Record<string, unknown>) => this.db!.command({ explain: command, verbosity }, commandOptions);
+    let result: Record<string, unknown>;
+
+    switch (String(operation).toLowerCase()) {
+      case 'find':
+        result = await coll.find(filter || {}, { ...(options || {}), ...commandOptions }).explain(verbosity);
+        break;
+      case 'findone':
+        result = await coll.find(filter || {}, { ...(options || {}), ...commandOptions }).limit(1).explain(verbosity);
+        break;
+      case 'aggregate':
+        if (this.isWritePipeline(operation, update)) {
+          this.assertWritable(operation);
+        }
+        result = await coll.aggregate(Array.isArray(update) ? update : [update], { ...(options || {}), ...commandOptions }).explain(verbosity);
+        break;
+      case 'count':
+        result = await explain({ count: collection, query: filter || {} });
+        break;
+      case 'distinct':
+        result = await explain({ distinct: collection, key: update, query: filter || {} });
+        break;
+      case 'updateone':
+      case 'updatemany':
+        this.assertWritable(operation);
+        result = await explain({ update: collection, updates: [{ q: filter || {}, u: update || {}, multi: String(operation).toLowerCase() === 'updatemany' }] });
+        break;
+      case 'deleteone':
+      case 'deletemany':
+        this.assertWritable(operation);
+        result = await explain({ delete: collection, deletes: [{ q: filter || {}, limit: String(operation).toLowerCase() === 'deleteone' ? 1 : 0 }] });
+        break;
+      default:
+        throw new Error(`Execution plans are not available for MongoDB ${operation} operations`);
+    }
+    return PlanNormalizer.mongodb(result);
+  }
+
   async getTables(): Promise<TableInfo[]> {
     if (!this.db) {
       throw new Error('Database not connected');
@@ -248,8 +368,10 @@ export class MongoDBAdapter extends BaseDatabaseAdapter {
     }
   }
 
-  async beginTransaction(): Promise<void> {
-    if (this.inTransaction) {
+  async beginTransaction(options?: TransactionOptions): Promise<void> {
+    this.assertTransactionOptions(options, [], false);
+    const key = this.getSessionKey();
+    if (this.transactionSessions.has(key)) {
       throw new Error('Transaction already in progress');
     }
     
@@ -257,35 +379,68 @@ export class MongoDBAdapter extends BaseDatabaseAdapter {
       throw new Error('Database not connected');
     }
     
-    this.session = this.client.startSession();
-    this.session.startTransaction();
-    this.inTransaction = true;
+    const session = this.client.startSession();
+    session.startTransaction();
+    this.transactionSessions.set(key, session);
   }
 
   async commitTransaction(): Promise<void> {
-    if (!this.inTransaction || !this.session) {
-      throw new Error('No transaction in progress');
+    const session = this.takeTransactionSession();
+    try {
+      await session.commitTransaction();
+    } finally {
+      await session.endSession();
     }
-    
-    await this.session.commitTransaction();
-    await this.session.endSession();
-    this.session = null;
-    this.inTransaction = false;
   }
 
   async rollbackTransaction(): Promise<void> {
-    if (!this.inTransaction || !this.session) {
-      throw new Error('No transaction in progress');
+    const session = this.takeTransactionSession();
+    try {
+      await session.abortTransaction();
+    } finally {
+      await session.endSession();
     }
-    
-    await this.session.abortTransaction();
-    await this.session.endSession();
-    this.session = null;
-    this.inTransaction = false;
   }
 
   isInTransaction(): boolean {
-    return this.inTransaction;
+    return this.transactionSessions.has(this.getSessionKey());
+  }
+
+  override isReadStatement(query: string): boolean {
+    try {
+      const { operation, update } = JSON.parse(query);
+      return typeof operation === 'string' && !WRITE_OPERATIONS.has(operation.toLowerCase()) && !this.isWritePipeline(operation, update);
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * explain() never applies writes, even with executionStats.
+   */
+  protected override analyzeExecutesWrites(): boolean {
+    return false;
+  }
+
+  private takeTransactionSession(): ClientSession {
+    const key = this.getSessionKey();
+    const session = this.transactionSessions.get(key);
+    if (!session) {
+      throw new Error('No transaction in progress');
+    }
+    this.transactionSessions.delete(key);
+    return session;
+  }
+
+  /**
+   * Aggregation pipelines ending in $out or $merge write their results to a collection.
+   */
+  private isWritePipeline(operation: string, pipeline: unknown): boolean {
+    if (operation.toLowerCase() !== 'aggregate') {
+      return false;
+    }
+    const stages = Array.isArray(pipeline) ? pipeline : [pipeline];
+    return stages.some(stage => stage && typeof stage === 'object' && ('$out' in stage || '$merge' in stage));
   }
 
   private getMongoDBType(value: unknown): string {
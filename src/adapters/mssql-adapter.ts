@@ -1,10 +1,41 @@
 import mssql from 'mssql';
 import type { config as MssqlConfig } from 'mssql';
 import { BaseDatabaseAdapter } from './base-database-adapter.js';
-import { QueryResult, TableInfo, DatabaseStats, FieldInfo } from '../types/database.js';
+import { IteratorCursor } from './query-cursor.js';
+import { QueryResult, QueryOptions, QueryCursor, TableInfo, DatabaseStats, FieldInfo, IsolationLevel, SavepointAction, TransactionOptions, ExecutionPlan, ExplainOptions, SchemaObject, SchemaObjectType } from '../types/database.js';
+import { PlanNormalizer } from '../core/plan-normalizer.js';
+import { TemplateCompiler } from '../core/template-compiler.js';
+
+const ISOLATION_LEVELS: Record<IsolationLevel, mssql.IIsolationLevel> = {
+  read_uncommitted: mssql.ISOLATION_LEVEL.READ_UNCOMMITTED,
+  read_committed: mssql.ISOLATION_LEVEL.READ_COMMITTED,
+  repeatable_read: mssql.ISOLATION_LEVEL.REPEATABLE_READ,
+  serializable: mssql.ISOLATION_LEVEL.SERIALIZABLE,
+  snapshot: mssql.ISOLATION_LEVEL.SNAPSHOT,
+};
+
+// sys.objects types of the modules compared as schema objects
+const MODULE_TYPES: Record<string, SchemaObjectType> = {
+  V: 'view',
+  P: 'procedure',
+  FN: 'function',
+  IF: 'function',
+  TF: 'function',
+  TR: 'trigger',
+};
+
+interface SessionTransaction {
+  transaction: mssql.Transaction;
+  /** SQL Server has no read-only transactions, so statements are classified instead */
+  readOnly: boolean;
+  /** Set when SQL Server rolled the transaction back itself (XACT_ABORT, deadlock victim, severe error) */
+  aborted: boolean;
+}
 
 export class MSSQLAdapter extends BaseDatabaseAdapter {
   private pool: mssql.ConnectionPool | null = null;
+  // Transaction per MCP session; it holds one pooled connection until committed or rolled back
+  private transactions: Map<string, SessionTransaction> = new Map();
 
   async connect(): Promise<void> {
     const config = this.config;
@@ -18,9 +49,10 @@ export class MSSQLAdapter extends BaseDatabaseAdapter {
         encrypt: config.ssl || false,
         trustServerCertificate: config.trustServerCertificate || false,
         instanceName: config.instanceName,
+        readOnlyIntent: this.isReadOnly(),
       },
       connectionTimeout: 30000,
-      requestTimeout: 30000,
+      requestTimeout: config.timeoutMs || 30000,
     };
 
     const { ConnectionPool } = mssql;
@@ -29,18 +61,21 @@ export class MSSQLAdapter extends BaseDatabaseAdapter {
   }
 
   async disconnect(): Promise<void> {
+    for (const { transaction, aborted } of this.transactions.values()) {
+      if (!aborted) {
+        await transaction.rollback().catch(() => {});
+      }
+    }
+    this.transactions.clear();
     if (this.pool) {
       await this.pool.close();
       this.pool = null;
     }
   }
 
-  async executeQuery(query: string, parameters?: unknown[]): Promise<QueryResult> {
-    if (!this.pool) {
-      throw new Error('Not connected to database');
-    }
-
-    const request = this.pool.request();
+  async executeQuery(query: string, parameters?: unknown[], options?: QueryOptions): Promise<QueryResult> {
+    this.assertReadOnlyStatement(query, this.isReadOnly() || this.transactions.get(this.getSessionKey())?.readOnly === true);
+    const request = this.createRequest();
     
     if (parameters) {
       parameters.forEach((param, index) => {
@@ -48,13 +83,124 @@ export class MSSQLAdapter extends BaseDatabaseAdapter {
       });
     }
 
-    const result = await request.query(query);
+    // The pool's requestTimeout is the connection-level timeout; a per-call timeout cancels the request itself
+    const timeoutMs = options?.timeoutMs !== this.config.timeoutMs ? options?.timeoutMs : undefined;
+    const run = <T>(execute: () => Promise<T>) => this.cancellable(execute, () => request.cancel(), options?.signal, timeoutMs);
+
+    if (options?.maxRows && this.getPageableStatement(query)) {
+      const limit = (options.page?.offset || 0) + options.maxRows + 1;
+      return this.toPage(query, await run(() => this.streamRows(request, query, limit)), options, false);
+    }
+
+    const result = await run(() => request.query(query));
     
-    return {
+    return this.toPage(query, {
       rows: result.recordset || [],
       rowCount: result.rowsAffected[0] || 0,
       fields: this.mapFields(result.recordset?.columns || {}),
-    };
+    }, options, false);
+  }
+
+  /**
+   * Stream a read query and cancel it once `limit` rows have arrived, so the server stops sending
+   * rows instead of the whole result being buffered.
+   */
+  private streamRows(request: mssql.Request, query: string, limit: number): Promise<QueryResult> {
+    return new Promise((resolve, reject) => {
+      const rows: Record<string, unknown>[] = [];
+      let columns: Record<string, unknown> = {};
+      let cancelled = false;
+
+      request.stream = true;
+      request.on('recordset', (recordsetColumns: Record<string, unknown>) => {
+        if (Object.keys(columns).length === 0) columns = recordsetColumns;
+      });
+      request.on('row', (row: Record<string, unknown>) => {
+        rows.push(row);
+        if (rows.length >= limit && !cancelled) {
+          cancelled = true;
+          request.cancel();
+        }
+      });
+      request.on('error', (error: { code?: string }) => {
+        if (!(cancelled && error.code === 'ECANCEL')) reject(error);
+      });
+      request.on('done', () => {
+        resolve({ rows: rows.slice(0, limit), rowCount: Math.min(rows.length, limit), fields: this.mapFields(columns) });
+      });
+      request.query(query);
+    });
+  }
+
+  /**
+   * Stream the result with backpressure: the request is paused between reads and cancelled on early close.
+   */
+  protected override async openCursor(query: string, parameters?: unknown[]): Promise<QueryCursor> {
+    if (!this.pool) {
+      throw new Error('Not connected to database');
+    }
+
+    const request = this.pool.request();
+    parameters?.forEach((param, index) => {
+      request.input(`param${index}`, param);
+    });
+
+    let columns: Record<string, unknown> = {};
+    request.on('recordset', (recordsetColumns: Record<string, unknown>) => {
+      if (Object.keys(columns).length === 0) columns = recordsetColumns;
+    });
+    const stream = request.toReadableStream();
+    // The cancellation error is re-emitted on the stream after the iterator has let go of it
+    stream.on('error', () => {});
+    request.query(query);
+
+    return new IteratorCursor(stream[Symbol.asyncIterator](), () => this.mapFields(columns), async (finished) => {
+      if (!finished) {
+        request.cancel();
+      }
+    });
+  }
+
+  /**
+   * SHOWPLAN_XML (STATISTICS XML when analyzing) is a connection setting, so the plan is taken on the session's
+   * transaction, or on a short-lived one that pins a pooled connection and is rolled back afterwards.
+   */
+  protected override async explainQuery(query: string, parameters?: unknown[], options?: ExplainOptions): Promise<ExecutionPlan> {
+    if (!this.pool) {
+      throw new Error('Not connected to database');
+    }
+    if (options?.analyze) {
+      this.assertReadOnlyStatement(query, this.isReadOnly() || this.transactions.get(this.getSessionKey())?.readOnly === true);
+    }
+
+    const own = this.transactions.has(this.getSessionKey()) ? null : new mssql.Transaction(this.pool);
+    const request = () => (own ? own.request() : this.createRequest());
+    const setting = options?.analyze ? 'STATISTICS XML' : 'SHOWPLAN_XML';
+
+    if (own) {
+      await own.begin();
+    }
+    try {
+      await request().batch(`SET ${setting} ON`);
+      try {
+        const planRequest = request();
+        parameters?.forEach((param, index) => {
+          planRequest.input(`param${index}`, param);
+        });
+        const result = await planRequest.query(query);
+        const recordsets = result.recordsets as unknown as Array<Array<Record<string, unknown>>>;
+        const plans = recordsets
+          .flatMap(recordset => recordset.map(row => Object.values(row)[0]))
+          .filter((value): value is string => typeof value === 'string' && value.includes('<ShowPlanXML'));
+        return PlanNormalizer.mssql(plans);
+      } finally {
+        await request().batch(`SET ${setting} OFF`);
+      }
+    } finally {
+      if (own) {
+        await own.rollback().catch(() => {});
+      }
+    }
   }
 
   async getTables(): Promise<TableInfo[]> {
@@ -152,7 +298,8 @@ export class MSSQLAdapter extends BaseDatabaseAdapter {
         tc.CONSTRAINT_TYPE,
         ccu.COLUMN_NAME,
         ccu2.TABLE_NAME as REFERENCED_TABLE,
-        ccu2.COLUMN_NAME as REFERENCED_COLUMN
+        ccu2.COLUMN_NAME as REFERENCED_COLUMN,
+        chk.CHECK_CLAUSE
       FROM INFORMATION_SCHEMA.TABLE_CONSTRAINTS tc
       LEFT JOIN INFORMATION_SCHEMA.CONSTRAINT_COLUMN_USAGE ccu 
         ON tc.CONSTRAINT_NAME = ccu.CONSTRAINT_NAME
@@ -160,6 +307,8 @@ export class MSSQLAdapter extends BaseDatabaseAdapter {
         ON tc.CONSTRAINT_NAME = rc.CONSTRAINT_NAME
       LEFT JOIN INFORMATION_SCHEMA.CONSTRAINT_COLUMN_USAGE ccu2 
         ON rc.UNIQUE_CONSTRAINT_NAME = ccu2.CONSTRAINT_NAME
+      LEFT JOIN INFORMATION_SCHEMA.CHECK_CONSTRAINTS chk
+        ON tc.CONSTRAINT_SCHEMA = chk.CONSTRAINT_SCHEMA AND tc.CONSTRAINT_NAME = chk.CONSTRAINT_NAME
       WHERE tc.TABLE_SCHEMA = @schema AND tc.TABLE_NAME = @tableName
     `;
 
@@ -185,6 +334,49 @@ export class MSSQLAdapter extends BaseDatabaseAdapter {
     };
   }
 
+  override async getSchemaObjects(): Promise<SchemaObject[]> {
+    const modules = await this.executeQuery(`
+      SELECT o.name, s.name as SCHEMA_NAME, RTRIM(o.type) as TYPE, m.definition as DEFINITION, OBJECT_NAME(tr.parent_id) as TABLE_NAME
+      FROM sys.sql_modules m
+      JOIN sys.objects o ON o.object_id = m.object_id
+      JOIN sys.schemas s ON s.schema_id = o.schema_id
+      LEFT JOIN sys.triggers tr ON tr.object_id = o.object_id
+      WHERE RTRIM(o.type) IN ('V', 'P', 'FN', 'IF', 'TF', 'TR') AND o.is_ms_shipped = 0
+      ORDER BY s.name, o.name
+    `);
+    const objects: SchemaObject[] = modules.rows
+      // Null when the module is encrypted
+      .filter(row => row.DEFINITION)
+      .map(row => ({
+        type: MODULE_TYPES[row.TYPE as string]!,
+        name: row.name as string,
+        schema: row.SCHEMA_NAME as string,
+        definition: String(row.DEFINITION).trim().replace(/;$/, ''),
+        ...(row.TABLE_NAME ? { table: row.TABLE_NAME as string } : {}),
+      }));
+
+    const sequences = await this.executeQuery(`
+      SELECT q.name, s.name as SCHEMA_NAME, TYPE_NAME(q.user_type_id) as DATA_TYPE, q.start_value as START_VALUE,
+        q.increment as INCREMENT, q.minimum_value as MINIMUM_VALUE, q.maximum_value as MAXIMUM_VALUE, q.is_cycling as IS_CYCLING
+      FROM sys.sequences q
+      JOIN sys.schemas s ON s.schema_id = q.schema_id
+      ORDER BY s.name, q.name
+    `);
+    for (const row of sequences.rows) {
+      objects.push({
+        type: 'sequence',
+        name: row.name as string,
+        schema: row.SCHEMA_NAME as string,
+        definition: `CREATE SEQUENCE ${TemplateCompiler.quoteIdentifier(row.SCHEMA_NAME as string, 'mssql')}.`
+          + `${TemplateCompiler.quoteIdentifier(row.name as string, 'mssql')} AS ${row.DATA_TYPE} `
+          + `START WITH ${row.START_VALUE} INCREMENT BY ${row.INCREMENT} MINVALUE ${row.MINIMUM_VALUE} MAXVALUE ${row.MAXIMUM_VALUE} `
+          + (row.IS_CYCLING ? 'CYCLE' : 'NO CYCLE'),
+      });
+    }
+
+    return objects;
+  }
+
   async getDatabaseStats(): Promise<DatabaseStats> {
     const statsQuery = `
       SELECT 
@@ -251,20 +443,89 @@ export class MSSQLAdapter extends BaseDatabaseAdapter {
     return new Error(`MSSQL error: ${String(error)}`);
   }
 
-  async beginTransaction(): Promise<void> {
+  async beginTransaction(options?: TransactionOptions): Promise<void> {
     if (!this.pool) {
       throw new Error('Not connected to database');
     }
+    this.assertTransactionOptions(options, Object.keys(ISOLATION_LEVELS) as IsolationLevel[], true);
+    const key = this.getSessionKey();
+    if (this.transactions.has(key)) {
+      throw new Error('Transaction already in progress');
+    }
+
+    const entry: SessionTransaction = { transaction: new mssql.Transaction(this.pool), readOnly: options?.readOnly === true, aborted: false };
+    entry.transaction.on('rollback', (aborted: boolean) => {
+      if (aborted) entry.aborted = true;
+    });
+    const isolationLevel = options?.isolationLevel;
+    await entry.transaction.begin(isolationLevel ? ISOLATION_LEVELS[isolationLevel] : undefined);
+    this.transactions.set(key, entry);
   }
 
   async commitTransaction(): Promise<void> {
+    const key = this.getSessionKey();
+    const entry = this.requireTransaction(key);
+    if (entry.aborted) {
+      this.transactions.delete(key);
+      throw new Error('The transaction was rolled back by SQL Server after an error and cannot be committed');
+    }
+
+    await entry.transaction.commit();
+    this.transactions.delete(key);
   }
 
   async rollbackTransaction(): Promise<void> {
+    const key = this.getSessionKey();
+    const entry = this.requireTransaction(key);
+    this.transactions.delete(key);
+    if (!entry.aborted) {
+      await entry.transaction.rollback();
+    }
   }
 
   isInTransaction(): boolean {
-    return false;
+    return this.transactions.has(this.getSessionKey());
+  }
+
+  override supportsSavepoints(): boolean {
+    return true;
+  }
+
+  /**
+   * SQL Server spells savepoints `SAVE TRANSACTION` / `ROLLBACK TRANSACTION` and cannot release them early;
+   * a savepoint lasts until the transaction ends, so release is a no-op.
+   */
+  protected override async runSavepoint(action: SavepointAction, name: string): Promise<void> {
+    if (action === 'release') {
+      return;
+    }
+    await this.createRequest().query(action === 'create' ? `SAVE TRANSACTION ${name}` : `ROLLBACK TRANSACTION ${name}`);
+  }
+
+  /**
+   * A request on the session's transaction while one is open, otherwise on the pool.
+   */
+  private createRequest(): mssql.Request {
+    if (!this.pool) {
+      throw new Error('Not connected to database');
+    }
+
+    const entry = this.transactions.get(this.getSessionKey());
+    if (!entry) {
+      return this.pool.request();
+    }
+    if (entry.aborted) {
+      throw new Error('The transaction was rolled back by SQL Server after an error; call rollback_transaction to end it');
+    }
+    return entry.transaction.request();
+  }
+
+  private requireTransaction(key: string): SessionTransaction {
+    const entry = this.transactions.get(key);
+    if (!entry) {
+      throw new Error('No transaction in progress');
+    }
+    return entry;
   }
 
   private mapFields(columns: Record<string, any>): FieldInfo[] {
@@ -307,6 +568,7 @@ export class MSSQLAdapter extends BaseDatabaseAdapter {
           columns: [],
           referencedTable: row.REFERENCED_TABLE as string | undefined,
           referencedColumns: [],
+          definition: (row.CHECK_CLAUSE as string | null) ?? undefined,
         });
       }
       
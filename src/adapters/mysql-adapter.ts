@@ -1,11 +1,22 @@
-import mysql, { Connection, Pool, PoolConnection } from 'mysql2/promise';
+import mysql, { Connection, FieldPacket, Pool, PoolConnection } from 'mysql2/promise';
+import type { PoolConnection as CallbackPoolConnection } from 'mysql2';
 import { BaseDatabaseAdapter } from './base-database-adapter.js';
-import { QueryResult, TableInfo, DatabaseStats, ColumnInfo, IndexInfo, ConstraintInfo } from '../types/database.js';
+import { IteratorCursor } from './query-cursor.js';
+import { QueryResult, QueryOptions, QueryCursor, TableInfo, DatabaseStats, ColumnInfo, IndexInfo, FieldInfo, ConstraintInfo, IsolationLevel, SavepointAction, TransactionOptions, ExecutionPlan, SchemaObject } from '../types/database.js';
+import { PlanNormalizer } from '../core/plan-normalizer.js';
+import { TemplateCompiler } from '../core/template-compiler.js';
+
+const ER_DUP_FIELDNAME = 1060;
+const SYSTEM_SCHEMAS = `'information_schema', 'mysql', 'performance_schema', 'sys'`;
+// SHOW CREATE names the routine's definer, which may not exist on another server
+const DEFINER_CLAUSE = /\s+DEFINER=(`[^`]*`|\S+)@(`[^`]*`|\S+)/;
+const ISOLATION_LEVELS: IsolationLevel[] = ['read_uncommitted', 'read_committed', 'repeatable_read', 'serializable'];
 
 export class MySQLAdapter extends BaseDatabaseAdapter {
   private pool: Pool | null = null;
   private connection: Connection | null = null;
-  private transactionConnection: PoolConnection | null = null;
+  // Dedicated pool connection per MCP session with an open transaction
+  private transactionConnections: Map<string, PoolConnection> = new Map();
 
   async connect(): Promise<void> {
     try {
@@ -22,6 +33,19 @@ export class MySQLAdapter extends BaseDatabaseAdapter {
       };
 
       this.pool = mysql.createPool(connectionConfig);
+      const sessionSettings = [
+        ...(this.isReadOnly() ? ['SET SESSION TRANSACTION READ ONLY'] : []),
+        // Applies to SELECT statements only; other statements can still be cancelled with KILL QUERY
+        ...(this.config.timeoutMs ? [`SET SESSION max_execution_time = ${this.config.timeoutMs}`] : []),
+      ];
+      if (sessionSettings.length > 0) {
+        // The promise pool emits callback-style connections
+        this.pool.on('connection', (connection) => {
+          for (const statement of sessionSettings) {
+            (connection as unknown as CallbackPoolConnection).query(statement);
+          }
+        });
+      }
       this.connection = await this.pool.getConnection();
       this.connected = true;
     } catch (error) {
@@ -32,10 +56,10 @@ export class MySQLAdapter extends BaseDatabaseAdapter {
 
   async disconnect(): Promise<void> {
     try {
-      if (this.transactionConnection) {
-        this.transactionConnection.release();
-        this.transactionConnection = null;
+      for (const connection of this.transactionConnections.values()) {
+        connection.release();
       }
+      this.transactionConnections.clear();
       if (this.connection) {
         this.connection.destroy();
         this.connection = null;
@@ -54,26 +78,131 @@ export class MySQLAdapter extends BaseDatabaseAdapter {
     return this.connected && this.pool !== null;
   }
 
-  async executeQuery(query: string, parameters?: unknown[]): Promise<QueryResult> {
-    const connection = this.transactionConnection || this.connection;
-    if (!connection) {
+  async executeQuery(query: string, parameters?: unknown[], options?: QueryOptions): Promise<QueryResult> {
+    const transactionConnection = this.transactionConnections.get(this.getSessionKey());
+    if (!transactionConnection && !this.connection) {
       throw new Error('Database not connected');
     }
 
+    const timeoutMs = options?.timeoutMs && options.timeoutMs !== this.config.timeoutMs ? Math.floor(options.timeoutMs) : null;
+    const kill = (connection: Connection) => this.pool?.query(`KILL QUERY ${connection.threadId}`);
+    if (transactionConnection) {
+      // The session's transaction connection is its own, so the timeout can change on it for one statement
+      return this.cancellable(async () => {
+        if (timeoutMs === null) {
+          return this.runQuery(transactionConnection, query, parameters, options);
+        }
+        await transactionConnection.query(`SET SESSION max_execution_time = ${timeoutMs}`);
+        try {
+          return await this.runQuery(transactionConnection, query, parameters, options);
+        } finally {
+          await transactionConnection.query(`SET SESSION max_execution_time = ${this.config.timeoutMs || 0}`).catch(() => {});
+        }
+      }, () => kill(transactionConnection), options?.signal);
+    }
+    if (timeoutMs === null && !options?.signal) {
+      return this.runQuery(this.connection!, query, parameters, options);
+    }
+
+    if (!this.pool) {
+      throw new Error('Database not connected');
+    }
+    // The shared connection serves every session, so a changed timeout, and the KILL QUERY that cancels, need a
+    // pool connection of their own
+    const connection = await this.pool.getConnection();
+    let reusable = false;
+    try {
+      return await this.cancellable(async () => {
+        if (timeoutMs !== null) {
+          await connection.query(`SET SESSION max_execution_time = ${timeoutMs}`);
+        }
+        try {
+          return await this.runQuery(connection, query, parameters, options);
+        } finally {
+          reusable = timeoutMs === null
+            || await connection.query(`SET SESSION max_execution_time = ${this.config.timeoutMs || 0}`).then(() => true, () => false);
+        }
+      }, () => kill(connection), options?.signal);
+    } finally {
+      // A connection still running a cancelled query, or whose timeout could not be reset, is discarded rather than
+      // returned to the pool
+      if (reusable) {
+        connection.release();
+      } else {
+        connection.destroy();
+      }
+    }
+  }
+
+  private async runQuery(connection: Connection, query: string, parameters?: unknown[], options?: QueryOptions): Promise<QueryResult> {
+    const maxRows = options?.maxRows;
+    const statement = maxRows ? this.getPageableStatement(query) : null;
+    if (statement && maxRows) {
+      try {
+        const [rows, fields] = await connection.execute(this.limitStatement(statement, maxRows, options?.page?.offset), parameters);
+        return this.toPage(query, this.mapResult(rows, fields), options, true);
+      } catch (error) {
+        // Derived tables reject duplicate column names (e.g. a.id, b.id); fall back to trimming after the fetch
+        if ((error as { errno?: number }).errno !== ER_DUP_FIELDNAME) {
+          throw error;
+        }
+      }
+    }
+
     const [rows, fields] = await connection.execute(query, parameters);
-    
+    return this.toPage(query, this.mapResult(rows, fields), options, false);
+  }
+
+  /**
+   * Stream the result on a dedicated connection; closing before the end destroys the connection,
+   * since MySQL cannot stop a result set mid-stream.
+   */
+  protected override async openCursor(query: string, parameters?: unknown[]): Promise<QueryCursor> {
+    if (!this.pool) {
+      throw new Error('Database not connected');
+    }
+
+    const connection = await this.pool.getConnection();
+    const stream = (connection.connection as unknown as CallbackPoolConnection).query(query, parameters);
+    let fields: FieldInfo[] = [];
+    stream.on('fields', (packets: FieldPacket[]) => {
+      fields = this.mapFields(packets);
+    });
+
+    return new IteratorCursor(stream.stream()[Symbol.asyncIterator](), () => fields, async (finished) => {
+      if (finished) {
+        connection.release();
+      } else {
+        connection.destroy();
+      }
+    });
+  }
+
+  private mapResult(rows: unknown, fields: FieldPacket[] | undefined): QueryResult {
     return {
       rows: Array.isArray(rows) ? rows as Record<string, unknown>[] : [],
       rowCount: Array.isArray(rows) ? rows.length : 0,
-      fields: fields ? fields.map(field => ({
-        name: field.name,
-        dataType: field.type?.toString() || 'UNKNOWN',
-        nullable: !(field.flags && (field.flags as number & 1)), // NOT_NULL flag
-        defaultValue: undefined, // MySQL2 doesn't provide defaultValue in FieldPacket
-      })) : [],
+      fields: fields ? this.mapFields(fields) : [],
     };
   }
 
+  private mapFields(fields: FieldPacket[]): FieldInfo[] {
+    return fields.map(field => ({
+      name: field.name,
+      dataType: field.type?.toString() || 'UNKNOWN',
+      nullable: !(field.flags && (field.flags as number & 1)), // NOT_NULL flag
+      defaultValue: undefined, // MySQL2 doesn't provide defaultValue in FieldPacket
+    }));
+  }
+
+  /**
+   * MySQL's JSON plans carry estimates only; EXPLAIN ANALYZE has no JSON format, so `analyze` is not used.
+   */
+  protected override async explainQuery(query: string, parameters?: unknown[]): Promise<ExecutionPlan> {
+    const result = await this.executeQuery(`EXPLAIN FORMAT=JSON ${query}`, parameters);
+    return PlanNormalizer.mysql(result.rows[0]?.EXPLAIN);
+  }
+
   async getTables(): Promise<TableInfo[]> {
     const query = `
       SELECT 
@@ -179,25 +308,38 @@ export class MySQLAdapter extends BaseDatabaseAdapter {
     // Get constraints
     const constraintsQuery = `
       SELECT 
-        constraint_name as name,
-        constraint_type as type,
-        GROUP_CONCAT(column_name ORDER BY ordinal_position) as columns,
-        referenced_table_name as referenced_table,
-        GROUP_CONCAT(referenced_column_name ORDER BY ordinal_position) as referenced_columns
-      FROM information_schema.key_column_usage
-      WHERE table_name = ? AND table_schema = ?
-      GROUP BY constraint_name, constraint_type, referenced_table_name
+        tc.constraint_name as name,
+        tc.constraint_type as type,
+        GROUP_CONCAT(kcu.column_name ORDER BY kcu.ordinal_position) as columns,
+        MAX(kcu.referenced_table_name) as referenced_table,
+        GROUP_CONCAT(kcu.referenced_column_name ORDER BY kcu.ordinal_position) as referenced_columns
+      FROM information_schema.table_constraints tc
+      LEFT JOIN information_schema.key_column_usage kcu
+        ON kcu.constraint_schema = tc.constraint_schema AND kcu.constraint_name = tc.constraint_name AND kcu.table_name = tc.table_name
+      WHERE tc.table_name = ? AND tc.table_schema = ?
+      GROUP BY tc.constraint_name, tc.constraint_type
     `;
 
     const constraintsResult = await this.executeQuery(constraintsQuery, [tableName, schemaName]);
     const constraints: ConstraintInfo[] = constraintsResult.rows.map(row => ({
       name: row.name as string,
       type: (row.type as string) as 'PRIMARY KEY' | 'FOREIGN KEY' | 'UNIQUE' | 'CHECK' | 'NOT NULL',
-      columns: (row.columns as string).split(','),
-      referencedTable: row.referenced_table as string,
+      columns: row.columns ? (row.columns as string).split(',') : [],
+      referencedTable: (row.referenced_table as string | null) ?? undefined,
       referencedColumns: row.referenced_columns ? (row.referenced_columns as string).split(',') : undefined,
     }));
 
+    // CHECK constraints are enforced from MySQL 8.0.16, which is also when their conditions became visible
+    if (constraints.some(constraint => constraint.type === 'CHECK')) {
+      const checksResult = await this.executeQuery(
+        'SELECT constraint_name as name, check_clause as definition FROM information_schema.check_constraints WHERE constraint_schema = ?',
+        [schemaName]
+      );
+      for (const constraint of constraints.filter(existing => existing.type === 'CHECK')) {
+        constraint.definition = checksResult.rows.find(row => row.name === constraint.name)?.definition as string | undefined;
+      }
+    }
+
     return {
       name: (table?.table_name as string) || '',
       schema: (table?.table_schema as string) || '',
@@ -208,6 +350,68 @@ export class MySQLAdapter extends BaseDatabaseAdapter {
     };
   }
 
+  override async getSchemaObjects(): Promise<SchemaObject[]> {
+    const objects: SchemaObject[] = [];
+    const qualified = (schema: unknown, name: unknown) =>
+      `${TemplateCompiler.quoteIdentifier(String(schema), 'mysql')}.${TemplateCompiler.quoteIdentifier(String(name), 'mysql')}`;
+
+    const views = await this.executeQuery(`
+      SELECT table_schema as schema_name, table_name as name, view_definition as body
+      FROM information_schema.views
+      WHERE table_schema NOT IN (${SYSTEM_SCHEMAS})
+      ORDER BY table_schema, table_name
+    `);
+    for (const row of views.rows) {
+      objects.push({
+        type: 'view',
+        name: row.name as string,
+        schema: row.schema_name as string,
+        definition: `CREATE VIEW ${qualified(row.schema_name, row.name)} AS ${row.body}`,
+      });
+    }
+
+    // information_schema.routines holds only the body, so the full statement comes from SHOW CREATE
+    const routines = await this.executeQuery(`
+      SELECT routine_schema as schema_name, routine_name as name, routine_type as type
+      FROM information_schema.routines
+      WHERE routine_schema NOT IN (${SYSTEM_SCHEMAS})
+      ORDER BY routine_schema, routine_name
+    `);
+    for (const row of routines.rows) {
+      const kind = row.type === 'PROCEDURE' ? 'Procedure' : 'Function';
+      const created = await this.executeQuery(`SHOW CREATE ${kind.toUpperCase()} ${qualified(row.schema_name, row.name)}`);
+      const definition = created.rows[0]?.[`Create ${kind}`] as string | null | undefined;
+      // Null when the user may not see the routine's body
+      if (!definition) continue;
+      objects.push({
+        type: kind === 'Procedure' ? 'procedure' : 'function',
+        name: row.name as string,
+        schema: row.schema_name as string,
+        definition: definition.replace(DEFINER_CLAUSE, ''),
+      });
+    }
+
+    const triggers = await this.executeQuery(`
+      SELECT trigger_schema as schema_name, trigger_name as name, event_object_table as table_name,
+        action_timing as timing, event_manipulation as event, action_statement as body
+      FROM information_schema.triggers
+      WHERE trigger_schema NOT IN (${SYSTEM_SCHEMAS})
+      ORDER BY trigger_schema, event_object_table, action_order
+    `);
+    for (const row of triggers.rows) {
+      objects.push({
+        type: 'trigger',
+        name: row.name as string,
+        schema: row.schema_name as string,
+        table: row.table_name as string,
+        definition: `CREATE TRIGGER ${qualified(row.schema_name, row.name)} ${row.timing} ${row.event} `
+          + `ON ${qualified(row.schema_name, row.table_name)} FOR EACH ROW ${row.body}`,
+      });
+    }
+
+    return objects;
+  }
+
   async getDatabaseStats(): Promise<DatabaseStats> {
     const tablesQuery = `
       SELECT COUNT(*) as total_tables
@@ -269,37 +473,75 @@ export class MySQLAdapter extends BaseDatabaseAdapter {
     }
   }
 
-  async beginTransaction(): Promise<void> {
-    if (this.transactionConnection) {
+  async beginTransaction(options?: TransactionOptions): Promise<void> {
+    this.assertTransactionOptions(options, ISOLATION_LEVELS, true);
+    const key = this.getSessionKey();
+    if (this.transactionConnections.has(key)) {
       throw new Error('Transaction already in progress');
     }
     
-    this.transactionConnection = await this.pool!.getConnection();
-    await this.transactionConnection.execute('START TRANSACTION');
+    const connection = await this.pool!.getConnection();
+    try {
+      // SET TRANSACTION applies to the next transaction on this connection only
+      if (options?.isolationLevel) {
+        await connection.query(`SET TRANSACTION ISOLATION LEVEL ${this.isolationLevelSql(options.isolationLevel)}`);
+      }
+      await connection.query(options?.readOnly ? 'START TRANSACTION READ ONLY' : 'START TRANSACTION');
+    } catch (error) {
+      connection.release();
+      throw error;
+    }
+    this.transactionConnections.set(key, connection);
   }
 
   async commitTransaction(): Promise<void> {
-    if (!this.transactionConnection) {
-      throw new Error('No transaction in progress');
-    }
-    
-    await this.transactionConnection.execute('COMMIT');
-    this.transactionConnection.release();
-    this.transactionConnection = null;
+    await this.endTransaction('COMMIT');
   }
 
   async rollbackTransaction(): Promise<void> {
-    if (!this.transactionConnection) {
-      throw new Error('No transaction in progress');
-    }
-    
-    await this.transactionConnection.execute('ROLLBACK');
-    this.transactionConnection.release();
-    this.transactionConnection = null;
+    await this.endTransaction('ROLLBACK');
   }
 
   isInTransaction(): boolean {
-    return this.transactionConnection !== null;
+    return this.transactionConnections.has(this.getSessionKey());
+  }
+
+  override supportsSavepoints(): boolean {
+    return true;
+  }
+
+  /**
+   * DDL statements commit the open transaction implicitly.
+   */
+  override supportsTransactionalDdl(): boolean {
+    return false;
+  }
+
+  /**
+   * Savepoint statements are not all accepted by the prepared-statement protocol, so they use a plain query.
+   */
+  protected override async runSavepoint(action: SavepointAction, name: string): Promise<void> {
+    await this.transactionConnections.get(this.getSessionKey())!.query(this.savepointStatement(action, name));
+  }
+
+  /**
+   * A connection whose COMMIT or ROLLBACK failed may still hold the transaction, so it is destroyed rather than pooled.
+   */
+  private async endTransaction(command: 'COMMIT' | 'ROLLBACK'): Promise<void> {
+    const key = this.getSessionKey();
+    const connection = this.transactionConnections.get(key);
+    if (!connection) {
+      throw new Error('No transaction in progress');
+    }
+
+    this.transactionConnections.delete(key);
+    try {
+      await connection.execute(command);
+    } catch (error) {
+      connection.destroy();
+      throw error;
+    }
+    connection.release();
   }
 
   protected formatQuery(query: string, parameters?: unknown[]): string {
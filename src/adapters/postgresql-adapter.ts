@@ -1,11 +1,27 @@
-import { Pool, PoolClient, QueryResult as PGQueryResult } from 'pg';
+import { Pool, PoolClient, FieldDef, QueryResult as PGQueryResult } from 'pg';
+import Cursor from 'pg-cursor';
 import { BaseDatabaseAdapter } from './base-database-adapter.js';
-import { QueryResult, TableInfo, DatabaseStats, ColumnInfo, IndexInfo, ConstraintInfo } from '../types/database.js';
+import { IteratorCursor } from './query-cursor.js';
+import { QueryResult, QueryOptions, QueryCursor, TableInfo, DatabaseStats, ColumnInfo, IndexInfo, FieldInfo, ConstraintInfo, IsolationLevel, TransactionOptions, ExecutionPlan, ExplainOptions, SchemaObject } from '../types/database.js';
+import { PlanNormalizer } from '../core/plan-normalizer.js';
+
+// Rows pulled from the server per cursor round trip
+const CURSOR_FETCH_SIZE = 100;
+
+// PostgreSQL runs READ UNCOMMITTED as READ COMMITTED and has no separate SNAPSHOT level
+const ISOLATION_LEVELS: IsolationLevel[] = ['read_uncommitted', 'read_committed', 'repeatable_read', 'serializable'];
+
+// Schemas holding user objects, as a condition on pg_namespace `n`
+const USER_SCHEMAS = `n.nspname <> 'information_schema' AND n.nspname NOT LIKE 'pg\\_%'`;
+
+// Objects that belong to an extension are created by CREATE EXTENSION, not compared one by one
+const notFromExtension = (oid: string) => `NOT EXISTS (SELECT 1 FROM pg_depend d WHERE d.objid = ${oid} AND d.deptype = 'e')`;
 
 export class PostgreSQLAdapter extends BaseDatabaseAdapter {
   private pool: Pool | null = null;
   private client: PoolClient | null = null;
-  private transactionClient: PoolClient | null = null;
+  // Dedicated pool client per MCP session with an open transaction
+  private transactionClients: Map<string, PoolClient> = new Map();
 
   async connect(): Promise<void> {
     try {
@@ -19,6 +35,8 @@ export class PostgreSQLAdapter extends BaseDatabaseAdapter {
         max: 20,
         idleTimeoutMillis: 30000,
         connectionTimeoutMillis: 2000,
+        ...(this.isReadOnly() ? { options: '-c default_transaction_read_only=on' } : {}),
+        ...(this.config.timeoutMs ? { statement_timeout: this.config.timeoutMs } : {}),
       };
 
       this.pool = new Pool(connectionConfig);
@@ -32,10 +50,10 @@ export class PostgreSQLAdapter extends BaseDatabaseAdapter {
 
   async disconnect(): Promise<void> {
     try {
-      if (this.transactionClient) {
-        await this.transactionClient.release();
-        this.transactionClient = null;
+      for (const client of this.transactionClients.values()) {
+        client.release();
       }
+      this.transactionClients.clear();
       if (this.client) {
         this.client.release();
         this.client = null;
@@ -54,24 +72,129 @@ export class PostgreSQLAdapter extends BaseDatabaseAdapter {
     return this.connected && this.pool !== null;
   }
 
-  async executeQuery(query: string, parameters?: unknown[]): Promise<QueryResult> {
-    const client = this.transactionClient || this.client;
-    if (!client) {
+  async executeQuery(query: string, parameters?: unknown[], options?: QueryOptions): Promise<QueryResult> {
+    const transactionClient = this.transactionClients.get(this.getSessionKey());
+    if (!transactionClient && !this.client) {
       throw new Error('Database not connected');
     }
 
-    const result: PGQueryResult = await client.query(query, parameters);
+    const maxRows = options?.maxRows;
+    const statement = maxRows ? this.getPageableStatement(query) : null;
+    const sql = statement && maxRows ? this.limitStatement(statement, maxRows, options?.page?.offset) : query;
+    const timeoutMs = options?.timeoutMs && options.timeoutMs !== this.config.timeoutMs ? Math.floor(options.timeoutMs) : null;
+    let result: PGQueryResult;
+    if (timeoutMs === null) {
+      const client = (transactionClient || this.client)!;
+      result = await this.cancellable(() => client.query(sql, parameters), () => this.cancelBackend(client), options?.signal);
+    } else if (transactionClient) {
+      result = await this.cancellable(
+        () => this.queryWithLocalTimeout(transactionClient, sql, parameters, timeoutMs),
+        () => this.cancelBackend(transactionClient),
+        options?.signal
+      );
+    } else {
+      if (!this.pool) {
+        throw new Error('Database not connected');
+      }
+      // The shared client serves every session, so a changed timeout runs on a pool client of its own
+      const client = await this.pool.connect();
+      let reset = false;
+      try {
+        result = await this.cancellable(async () => {
+          await client.query(`SET statement_timeout = ${timeoutMs}`);
+          try {
+            return await client.query(sql, parameters);
+          } finally {
+            // RESET returns to the connection-level statement_timeout
+            reset = await client.query('RESET statement_timeout').then(() => true, () => false);
+          }
+        }, () => this.cancelBackend(client), options?.signal);
+      } finally {
+        // A client whose timeout could not be reset is discarded rather than returned to the pool
+        client.release(!reset);
+      }
+    }
     
-    return {
+    return this.toPage(query, {
       rows: result.rows,
       rowCount: result.rowCount || 0,
-      fields: result.fields.map(field => ({
-        name: field.name,
-        dataType: field.dataTypeID.toString(),
-        nullable: true, // PostgreSQL FieldDef doesn't have notNull property
-        defaultValue: undefined, // PostgreSQL FieldDef doesn't have defaultValue property
-      })),
-    };
+      fields: this.mapFields(result.fields),
+    }, options, statement !== null);
+  }
+
+  /**
+   * Server-side cursor on a dedicated pool client, so other queries are not blocked while it is open.
+   */
+  protected override async openCursor(query: string, parameters?: unknown[]): Promise<QueryCursor> {
+    if (!this.pool) {
+      throw new Error('Database not connected');
+    }
+
+    const client = await this.pool.connect();
+    const cursor = client.query(new Cursor(query, parameters));
+    let fields: FieldInfo[] = [];
+
+    const fetch = () => new Promise<Record<string, unknown>[]>((resolve, reject) => {
+      cursor.read(CURSOR_FETCH_SIZE, (error, rows, result) => {
+        if (error) {
+          reject(error);
+          return;
+        }
+        fields = this.mapFields(result.fields);
+        resolve(rows);
+      });
+    });
+    async function* rows() {
+      for (let batch = await fetch(); batch.length > 0; batch = await fetch()) {
+        yield* batch;
+      }
+    }
+
+    return new IteratorCursor(rows(), () => fields, async () => {
+      try {
+        await cursor.close();
+      } finally {
+        client.release();
+      }
+    });
+  }
+
+  protected override async explainQuery(query: string, parameters?: unknown[], options?: ExplainOptions): Promise<ExecutionPlan> {
+    const explainOptions = options?.analyze ? 'FORMAT JSON, ANALYZE, BUFFERS' : 'FORMAT JSON';
+    const result = await this.executeQuery(`EXPLAIN (${explainOptions}) ${query}`, parameters);
+    return PlanNormalizer.postgresql(result.rows[0]?.['QUERY PLAN']);
+  }
+
+  /**
+   * Run a statement inside the client's open transaction with `SET LOCAL statement_timeout`, restoring the previous value afterwards.
+   */
+  private async queryWithLocalTimeout(client: PoolClient, sql: string, parameters: unknown[] | undefined, timeoutMs: number): Promise<PGQueryResult> {
+    const previous = await client.query("SELECT current_setting('statement_timeout') AS value");
+    await client.query(`SET LOCAL statement_timeout = ${timeoutMs}`);
+    try {
+      return await client.query(sql, parameters);
+    } finally {
+      await client.query("SELECT set_config('statement_timeout', $1, true)", [previous.rows[0].value]).catch(() => {});
+    }
+  }
+
+  /**
+   * Ask the server to cancel whatever the client is running, from another pooled connection.
+   */
+  private async cancelBackend(client: PoolClient): Promise<void> {
+    const { processID } = client as unknown as { processID: number | null };
+    if (this.pool && processID) {
+      await this.pool.query('SELECT pg_cancel_backend($1)', [processID]);
+    }
+  }
+
+  private mapFields(fields: FieldDef[]): FieldInfo[] {
+    return fields.map(field => ({
+      name: field.name,
+      dataType: field.dataTypeID.toString(),
+      nullable: true, // PostgreSQL FieldDef doesn't have notNull property
+      defaultValue: undefined, // PostgreSQL FieldDef doesn't have defaultValue property
+    }));
   }
 
   async getTables(): Promise<TableInfo[]> {
@@ -193,19 +316,27 @@ export class PostgreSQLAdapter extends BaseDatabaseAdapter {
       type: row.type as string,
     }));
 
-    // Get constraints
+    // Get constraints; pg_constraint keeps key column order and leaves out the NOT NULL checks information_schema reports
     const constraintsQuery = `
       SELECT 
-        tc.constraint_name as name,
-        tc.constraint_type as type,
-        array_agg(kcu.column_name ORDER BY kcu.ordinal_position) as columns,
-        ccu.table_name as referenced_table,
-        array_agg(ccu.column_name ORDER BY kcu.ordinal_position) as referenced_columns
-      FROM information_schema.table_constraints tc
-      LEFT JOIN information_schema.key_column_usage kcu ON tc.constraint_name = kcu.constraint_name
-      LEFT JOIN information_schema.constraint_column_usage ccu ON tc.constraint_name = ccu.constraint_name
-      WHERE tc.table_name = $1 AND tc.table_schema = $2
-      GROUP BY tc.constraint_name, tc.constraint_type, ccu.table_name
+        c.conname as name,
+        CASE c.contype WHEN 'p' THEN 'PRIMARY KEY' WHEN 'f' THEN 'FOREIGN KEY' WHEN 'u' THEN 'UNIQUE' ELSE 'CHECK' END as type,
+        ARRAY(
+          SELECT a.attname::text FROM unnest(c.conkey) WITH ORDINALITY k(attnum, n)
+          JOIN pg_attribute a ON a.attrelid = c.conrelid AND a.attnum = k.attnum ORDER BY k.n
+        ) as columns,
+        rt.relname as referenced_table,
+        ARRAY(
+          SELECT a.attname::text FROM unnest(c.confkey) WITH ORDINALITY k(attnum, n)
+          JOIN pg_attribute a ON a.attrelid = c.confrelid AND a.attnum = k.attnum ORDER BY k.n
+        ) as referenced_columns,
+        CASE WHEN c.contype = 'c' THEN pg_get_expr(c.conbin, c.conrelid) END as definition
+      FROM pg_constraint c
+      JOIN pg_class t ON t.oid = c.conrelid
+      JOIN pg_namespace n ON n.oid = t.relnamespace
+      LEFT JOIN pg_class rt ON rt.oid = c.confrelid
+      WHERE t.relname = $1 AND n.nspname = $2 AND c.contype IN ('p', 'f', 'u', 'c')
+      ORDER BY c.conname
     `;
 
     const constraintsResult = await this.executeQuery(constraintsQuery, [tableName, schemaName]);
@@ -213,8 +344,9 @@ export class PostgreSQLAdapter extends BaseDatabaseAdapter {
       name: row.name as string,
       type: (row.type as string) as 'PRIMARY KEY' | 'FOREIGN KEY' | 'UNIQUE' | 'CHECK' | 'NOT NULL',
       columns: row.columns as string[],
-      referencedTable: row.referenced_table as string,
-      referencedColumns: row.referenced_columns as string[],
+      referencedTable: (row.referenced_table as string | null) ?? undefined,
+      referencedColumns: row.referenced_table ? row.referenced_columns as string[] : undefined,
+      definition: (row.definition as string | null) ?? undefined,
     }));
 
     return {
@@ -227,6 +359,108 @@ export class PostgreSQLAdapter extends BaseDatabaseAdapter {
     };
   }
 
+  override async getSchemaObjects(): Promise<SchemaObject[]> {
+    const objects: SchemaObject[] = [];
+    const qualified = (row: Record<string, unknown>) => row.qualified_name as string;
+
+    const views = await this.executeQuery(`
+      SELECT c.relname as name, n.nspname as schema, c.relkind as kind, pg_get_viewdef(c.oid) as body,
+        quote_ident(n.nspname) || '.' || quote_ident(c.relname) as qualified_name
+      FROM pg_class c
+      JOIN pg_namespace n ON n.oid = c.relnamespace
+      WHERE c.relkind IN ('v', 'm') AND ${USER_SCHEMAS} AND ${notFromExtension('c.oid')}
+      ORDER BY n.nspname, c.relname
+    `);
+    for (const row of views.rows) {
+      const materialized = row.kind === 'm';
+      objects.push({
+        type: materialized ? 'materialized_view' : 'view',
+        name: row.name as string,
+        schema: row.schema as string,
+        definition: `CREATE ${materialized ? 'MATERIALIZED VIEW' : 'VIEW'} ${qualified(row)} AS\n${String(row.body).trim().replace(/;$/, '')}`,
+      });
+    }
+
+    const routines = await this.executeQuery(`
+      SELECT p.proname as name, n.nspname as schema, p.prokind as kind,
+        pg_get_function_identity_arguments(p.oid) as signature, pg_get_functiondef(p.oid) as definition
+      FROM pg_proc p
+      JOIN pg_namespace n ON n.oid = p.pronamespace
+      WHERE p.prokind IN ('f', 'p') AND ${USER_SCHEMAS} AND ${notFromExtension('p.oid')}
+      ORDER BY n.nspname, p.proname
+    `);
+    for (const row of routines.rows) {
+      objects.push({
+        type: row.kind === 'p' ? 'procedure' : 'function',
+        name: row.name as string,
+        schema: row.schema as string,
+        signature: row.signature as string,
+        definition: String(row.definition).trim(),
+      });
+    }
+
+    const triggers = await this.executeQuery(`
+      SELECT t.tgname as name, n.nspname as schema, c.relname as table_name, pg_get_triggerdef(t.oid) as definition
+      FROM pg_trigger t
+      JOIN pg_class c ON c.oid = t.tgrelid
+      JOIN pg_namespace n ON n.oid = c.relnamespace
+      WHERE NOT t.tgisinternal AND ${USER_SCHEMAS} AND ${notFromExtension('t.oid')}
+      ORDER BY n.nspname, c.relname, t.tgname
+    `);
+    for (const row of triggers.rows) {
+      objects.push({
+        type: 'trigger',
+        name: row.name as string,
+        schema: row.schema as string,
+        table: row.table_name as string,
+        definition: row.definition as string,
+      });
+    }
+
+    // Sequences owned by a serial or identity column come with their table
+    const sequences = await this.executeQuery(`
+      SELECT c.relname as name, n.nspname as schema, format_type(s.seqtypid, NULL) as data_type,
+        s.seqstart as start, s.seqincrement as increment, s.seqmin as min, s.seqmax as max, s.seqcache as cache, s.seqcycle as cycle,
+        quote_ident(n.nspname) || '.' || quote_ident(c.relname) as qualified_name
+      FROM pg_sequence s
+      JOIN pg_class c ON c.oid = s.seqrelid
+      JOIN pg_namespace n ON n.oid = c.relnamespace
+      WHERE ${USER_SCHEMAS} AND NOT EXISTS (SELECT 1 FROM pg_depend d WHERE d.objid = c.oid AND d.deptype IN ('a', 'i', 'e'))
+      ORDER BY n.nspname, c.relname
+    `);
+    for (const row of sequences.rows) {
+      objects.push({
+        type: 'sequence',
+        name: row.name as string,
+        schema: row.schema as string,
+        definition: `CREATE SEQUENCE ${qualified(row)} AS ${row.data_type} INCREMENT BY ${row.increment} MINVALUE ${row.min} `
+          + `MAXVALUE ${row.max} START WITH ${row.start} CACHE ${row.cache}${row.cycle ? ' CYCLE' : ''}`,
+      });
+    }
+
+    const enums = await this.executeQuery(`
+      SELECT t.typname as name, n.nspname as schema,
+        string_agg(quote_literal(e.enumlabel), ', ' ORDER BY e.enumsortorder) as labels,
+        quote_ident(n.nspname) || '.' || quote_ident(t.typname) as qualified_name
+      FROM pg_type t
+      JOIN pg_enum e ON e.enumtypid = t.oid
+      JOIN pg_namespace n ON n.oid = t.typnamespace
+      WHERE ${USER_SCHEMAS} AND ${notFromExtension('t.oid')}
+      GROUP BY t.oid, t.typname, n.nspname
+      ORDER BY n.nspname, t.typname
+    `);
+    for (const row of enums.rows) {
+      objects.push({
+        type: 'enum',
+        name: row.name as string,
+        schema: row.schema as string,
+        definition: `CREATE TYPE ${qualified(row)} AS ENUM (${row.labels})`,
+      });
+    }
+
+    return objects;
+  }
+
   async getDatabaseStats(): Promise<DatabaseStats> {
     const tablesQuery = `
       SELECT COUNT(*) as total_tables
@@ -282,37 +516,59 @@ export class PostgreSQLAdapter extends BaseDatabaseAdapter {
     }
   }
 
-  async beginTransaction(): Promise<void> {
-    if (this.transactionClient) {
+  async beginTransaction(options?: TransactionOptions): Promise<void> {
+    this.assertTransactionOptions(options, ISOLATION_LEVELS, true);
+    const key = this.getSessionKey();
+    if (this.transactionClients.has(key)) {
       throw new Error('Transaction already in progress');
     }
     
-    this.transactionClient = await this.pool!.connect();
-    await this.transactionClient.query('BEGIN');
+    const client = await this.pool!.connect();
+    try {
+      await client.query([
+        'BEGIN',
+        ...(options?.isolationLevel ? [`ISOLATION LEVEL ${this.isolationLevelSql(options.isolationLevel)}`] : []),
+        ...(options?.readOnly ? ['READ ONLY'] : []),
+      ].join(' '));
+    } catch (error) {
+      client.release();
+      throw error;
+    }
+    this.transactionClients.set(key, client);
   }
 
   async commitTransaction(): Promise<void> {
-    if (!this.transactionClient) {
-      throw new Error('No transaction in progress');
-    }
-    
-    await this.transactionClient.query('COMMIT');
-    this.transactionClient.release();
-    this.transactionClient = null;
+    await this.endTransaction('COMMIT');
   }
 
   async rollbackTransaction(): Promise<void> {
-    if (!this.transactionClient) {
-      throw new Error('No transaction in progress');
-    }
-    
-    await this.transactionClient.query('ROLLBACK');
-    this.transactionClient.release();
-    this.transactionClient = null;
+    await this.endTransaction('ROLLBACK');
   }
 
   isInTransaction(): boolean {
-    return this.transactionClient !== null;
+    return this.transactionClients.has(this.getSessionKey());
+  }
+
+  override supportsSavepoints(): boolean {
+    return true;
+  }
+
+  /**
+   * PostgreSQL ends the transaction even when COMMIT fails, so the client always goes back to the pool.
+   */
+  private async endTransaction(command: 'COMMIT' | 'ROLLBACK'): Promise<void> {
+    const key = this.getSessionKey();
+    const client = this.transactionClients.get(key);
+    if (!client) {
+      throw new Error('No transaction in progress');
+    }
+
+    this.transactionClients.delete(key);
+    try {
+      await client.query(command);
+    } finally {
+      client.release();
+    }
   }
 
   protected formatQuery(query: string, parameters?: unknown[]): string {
@@ -0,0 +1,69 @@
+import { CursorPage, FieldInfo, PageState, QueryCursor, QueryResult } from '../types/database.js';
+
+type Row = Record<string, unknown>;
+
+/**
+ * Cursor over a driver row stream (pg-cursor, MySQL/MSSQL streams, MongoDB cursors). One row is read
+ * ahead so the page that exhausts the stream reports `done`.
+ */
+export class IteratorCursor implements QueryCursor {
+  private iterator: AsyncIterator<Row>;
+  private getFields: (_rows: Row[]) => FieldInfo[];
+  private release: (_finished: boolean) => Promise<void>;
+  private lookahead: Row[] = [];
+  private finished: boolean = false;
+
+  constructor(iterator: AsyncIterator<Row>, getFields: (_rows: Row[]) => FieldInfo[], release: (_finished: boolean) => Promise<void>) {
+    this.iterator = iterator;
+    this.getFields = getFields;
+    this.release = release;
+  }
+
+  async read(count: number): Promise<CursorPage> {
+    const rows = this.lookahead.splice(0);
+    while (!this.finished && rows.length <= count) {
+      const next = await this.iterator.next();
+      if (next.done) {
+        this.finished = true;
+      } else {
+        rows.push(next.value);
+      }
+    }
+
+    this.lookahead = rows.splice(count);
+    return { rows, fields: this.getFields(rows), done: this.finished && this.lookahead.length === 0 };
+  }
+
+  async close(): Promise<void> {
+    try {
+      if (!this.finished) {
+        await this.iterator.return?.();
+      }
+    } finally {
+      await this.release(this.finished);
+    }
+  }
+}
+
+/**
+ * Cursor for drivers that page natively (Cassandra pageState, DynamoDB LastEvaluatedKey): each read
+ * fetches one page and resumes from the marker the driver returned.
+ */
+export class PagedCursor implements QueryCursor {
+  private fetchPage: (_maxRows: number, _page: PageState | undefined) => Promise<QueryResult>;
+  private page: PageState | undefined;
+
+  constructor(fetchPage: (_maxRows: number, _page: PageState | undefined) => Promise<QueryResult>) {
+    this.fetchPage = fetchPage;
+  }
+
+  async read(count: number): Promise<CursorPage> {
+    const result = await this.fetchPage(count, this.page);
+    this.page = result.truncated ? result.nextPage : undefined;
+    return { rows: result.rows, fields: result.fields, done: !this.page };
+  }
+
+  async close(): Promise<void> {
+    this.page = undefined;
+  }
+}
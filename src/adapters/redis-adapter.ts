@@ -1,11 +1,13 @@
 import { createClient, RedisClientType } from 'redis';
 import { BaseDatabaseAdapter } from './base-database-adapter.js';
-import { QueryResult, TableInfo, DatabaseStats } from '../types/database.js';
+import { QueryResult, QueryOptions, TableInfo, DatabaseStats, TransactionOptions } from '../types/database.js';
+
+const WRITE_COMMANDS = new Set(['SET', 'DEL', 'HSET', 'LPUSH', 'RPUSH', 'SADD', 'ZADD']);
 
 export class RedisAdapter extends BaseDatabaseAdapter {
   private client: RedisClientType | null = null;
-  private inTransaction: boolean = false;
-  private transactionCommands: string[] = [];
+  // MCP sessions that called beginTransaction (Redis commands are not held back or rolled back)
+  private transactionSessions: Set<string> = new Set();
 
   async connect(): Promise<void> {
     try {
@@ -44,7 +46,12 @@ export class RedisAdapter extends BaseDatabaseAdapter {
     return this.connected && this.client !== null;
   }
 
-  async executeQuery(query: string, parameters?: unknown[]): Promise<QueryResult> {
+  async executeQuery(query: string, parameters?: unknown[], options?: QueryOptions): Promise<QueryResult> {
+    // Redis has no per-command timeout; a timed-out or cancelled call stops waiting for the reply
+    return this.cancellable(() => this.runCommand(query, parameters, options), () => {}, options?.signal, this.getTimeout(options));
+  }
+
+  private async runCommand(query: string, parameters?: unknown[], options?: QueryOptions): Promise<QueryResult> {
     if (!this.client) {
       throw new Error('Database not connected');
     }
@@ -64,6 +71,10 @@ export class RedisAdapter extends BaseDatabaseAdapter {
         }
       }
 
+      if (WRITE_COMMANDS.has(command)) {
+        this.assertWritable(command);
+      }
+
       let result: unknown;
       
       switch (command) {
@@ -136,13 +147,13 @@ export class RedisAdapter extends BaseDatabaseAdapter {
           throw new Error(`Unsupported Redis command: ${command}`);
       }
 
-      return {
+      return this.toPage(query, {
         rows: Array.isArray(result) ? result.map((item, index) => ({ key: index, value: item })) : [{ result }],
         rowCount: Array.isArray(result) ? result.length : 1,
         fields: [
           { name: 'result', dataType: 'string', nullable: true, defaultValue: undefined },
         ],
-      };
+      }, options, false);
     } catch (error) {
       throw this.handleError(error);
     }
@@ -230,36 +241,42 @@ export class RedisAdapter extends BaseDatabaseAdapter {
     }
   }
 
-  async beginTransaction(): Promise<void> {
-    if (this.inTransaction) {
+  async beginTransaction(options?: TransactionOptions): Promise<void> {
+    this.assertTransactionOptions(options, [], false);
+    if (this.isInTransaction()) {
       throw new Error('Transaction already in progress');
     }
-    this.inTransaction = true;
-    this.transactionCommands = [];
+    this.transactionSessions.add(this.getSessionKey());
   }
 
   async commitTransaction(): Promise<void> {
-    if (!this.inTransaction) {
+    if (!this.isInTransaction()) {
       throw new Error('No transaction in progress');
     }
     
     // Redis doesn't have traditional transactions, but we can execute commands in sequence
-    this.inTransaction = false;
-    this.transactionCommands = [];
+    this.transactionSessions.delete(this.getSessionKey());
   }
 
   async rollbackTransaction(): Promise<void> {
-    if (!this.inTransaction) {
+    if (!this.isInTransaction()) {
       throw new Error('No transaction in progress');
     }
     
     // Redis doesn't support rollback, just clear the transaction
-    this.inTransaction = false;
-    this.transactionCommands = [];
+    this.transactionSessions.delete(this.getSessionKey());
   }
 
   isInTransaction(): boolean {
-    return this.inTransaction;
+    return this.transactionSessions.has(this.getSessionKey());
+  }
+
+  override supportsRollback(): boolean {
+    return false;
+  }
+
+  override isReadStatement(query: string): boolean {
+    return !WRITE_COMMANDS.has(query.trim().split(' ')[0]?.toUpperCase() || '');
   }
 
   protected formatQuery(query: string, parameters?: unknown[]): string {
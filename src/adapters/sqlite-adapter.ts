@@ -1,28 +1,25 @@
 import sqlite3 from 'sqlite3';
 import { BaseDatabaseAdapter } from './base-database-adapter.js';
-import { QueryResult, TableInfo, DatabaseStats, ColumnInfo, IndexInfo, ConstraintInfo } from '../types/database.js';
+import { IteratorCursor } from './query-cursor.js';
+import { QueryResult, QueryOptions, QueryCursor, TableInfo, DatabaseStats, ColumnInfo, IndexInfo, ConstraintInfo, TransactionOptions, ExecutionPlan, SchemaObject } from '../types/database.js';
+import { PlanNormalizer } from '../core/plan-normalizer.js';
+
+// How long a write waits for another handle's transaction to release the database lock
+const BUSY_TIMEOUT_MS = 5000;
 
 export class SQLiteAdapter extends BaseDatabaseAdapter {
   private db: sqlite3.Database | null = null;
-  private inTransaction: boolean = false;
+  // Handle per MCP session with an open transaction; an in-memory database can only share `db`
+  private transactionDatabases: Map<string, sqlite3.Database> = new Map();
 
   async connect(): Promise<void> {
     try {
-      const filename = this.config.filename || this.config.database || ':memory:';
-      
-      await new Promise<void>((resolve, reject) => {
-        this.db = new sqlite3.Database(filename, (err) => {
-          if (err) {
-            reject(err);
-          } else {
-            resolve();
-          }
-        });
-      });
+      this.db = await this.openDatabase();
       
-      // Set pragmas
-      await this.executeQuery('PRAGMA journal_mode = WAL');
-      await this.executeQuery('PRAGMA foreign_keys = ON');
+      // The journal mode is stored in the file and cannot be changed on a read-only handle
+      if (!this.isReadOnly()) {
+        await this.executeQuery('PRAGMA journal_mode = WAL');
+      }
       
       this.connected = true;
     } catch (error) {
@@ -33,16 +30,14 @@ export class SQLiteAdapter extends BaseDatabaseAdapter {
 
   async disconnect(): Promise<void> {
     try {
+      for (const db of this.transactionDatabases.values()) {
+        if (db !== this.db) {
+          await this.closeDatabase(db);
+        }
+      }
+      this.transactionDatabases.clear();
       if (this.db) {
-        await new Promise<void>((resolve, reject) => {
-          this.db!.close((err) => {
-            if (err) {
-              reject(err);
-            } else {
-              resolve();
-            }
-          });
-        });
+        await this.closeDatabase(this.db);
         this.db = null;
       }
       this.connected = false;
@@ -55,13 +50,25 @@ export class SQLiteAdapter extends BaseDatabaseAdapter {
     return this.connected && this.db !== null;
   }
 
-  async executeQuery(query: string, parameters?: unknown[]): Promise<QueryResult> {
-    if (!this.db) {
-      throw new Error('Database not connected');
+  async executeQuery(query: string, parameters?: unknown[], options?: QueryOptions): Promise<QueryResult> {
+    // SQLite has no statement timeout; interrupting the database aborts the running statement
+    const db = this.getDatabase();
+    return this.cancellable(() => this.runQuery(db, query, parameters, options), () => db.interrupt(), options?.signal, this.getTimeout(options));
+  }
+
+  private async runQuery(db: sqlite3.Database, query: string, parameters?: unknown[], options?: QueryOptions): Promise<QueryResult> {
+    const maxRows = options?.maxRows;
+    const statement = maxRows ? this.getPageableStatement(query) : null;
+    if (statement && maxRows) {
+      const result = await this.runQuery(db, this.limitStatement(statement, maxRows, options?.page?.offset), parameters);
+      return this.toPage(query, result, options, true);
+    }
+    if (maxRows) {
+      return this.toPage(query, await this.runQuery(db, query, parameters), options, false);
     }
 
     return new Promise<QueryResult>((resolve, reject) => {
-      this.db!.all(query, parameters || [], (err, rows) => {
+      db.all(query, parameters || [], (err, rows) => {
         if (err) {
           reject(this.handleError(err));
           return;
@@ -69,7 +76,7 @@ export class SQLiteAdapter extends BaseDatabaseAdapter {
 
         // Get column information by running a similar query with LIMIT 0
         const columnQuery = query.includes('LIMIT') ? query : `${query} LIMIT 0`;
-        this.db!.all(columnQuery, parameters || [], (colErr, _colRows) => {
+        db.all(columnQuery, parameters || [], (colErr, _colRows) => {
           if (colErr) {
             // If we can't get column info, just return the data
             resolve({
@@ -100,6 +107,37 @@ export class SQLiteAdapter extends BaseDatabaseAdapter {
     });
   }
 
+  /**
+   * Step a prepared statement one row at a time.
+   */
+  protected override async openCursor(query: string, parameters?: unknown[]): Promise<QueryCursor> {
+    const db = this.getDatabase();
+    const statement = await new Promise<sqlite3.Statement>((resolve, reject) => {
+      const prepared = db.prepare(query, parameters || [], (err) => (err ? reject(err) : resolve(prepared)));
+    });
+    const step = () => new Promise<Record<string, unknown> | undefined>((resolve, reject) => {
+      statement.get((err, row) => (err ? reject(err) : resolve(row as Record<string, unknown> | undefined)));
+    });
+    async function* rows() {
+      for (let row = await step(); row !== undefined; row = await step()) {
+        yield row;
+      }
+    }
+
+    const fields = (rows: Record<string, unknown>[]) => (rows[0]
+      ? Object.keys(rows[0]).map(name => ({ name, dataType: 'TEXT', nullable: true, defaultValue: undefined }))
+      : []);
+    return new IteratorCursor(rows(), fields, () => new Promise<void>(resolve => statement.finalize(() => resolve())));
+  }
+
+  /**
+   * SQLite reports the plan's shape only, without row estimates or actual counts.
+   */
+  protected override async explainQuery(query: string, parameters?: unknown[]): Promise<ExecutionPlan> {
+    const result = await this.executeQuery(`EXPLAIN QUERY PLAN ${query}`, parameters);
+    return PlanNormalizer.sqlite(result.rows);
+  }
+
   async getTables(): Promise<TableInfo[]> {
     const query = `
       SELECT 
@@ -226,6 +264,21 @@ export class SQLiteAdapter extends BaseDatabaseAdapter {
     };
   }
 
+  override async getSchemaObjects(): Promise<SchemaObject[]> {
+    const result = await this.executeQuery(`
+      SELECT type, name, tbl_name, sql
+      FROM sqlite_master
+      WHERE type IN ('view', 'trigger') AND sql IS NOT NULL
+      ORDER BY type, name
+    `);
+    return result.rows.map(row => ({
+      type: row.type as 'view' | 'trigger',
+      name: row.name as string,
+      definition: row.sql as string,
+      ...(row.type === 'trigger' ? { table: row.tbl_name as string } : {}),
+    }));
+  }
+
   async getDatabaseStats(): Promise<DatabaseStats> {
     const tablesQuery = `
       SELECT COUNT(*) as total_tables
@@ -279,35 +332,137 @@ export class SQLiteAdapter extends BaseDatabaseAdapter {
     }
   }
 
-  async beginTransaction(): Promise<void> {
-    if (this.inTransaction) {
+  async beginTransaction(options?: TransactionOptions): Promise<void> {
+    // SQLite transactions are always serializable
+    this.assertTransactionOptions(options, ['serializable'], true);
+    const key = this.getSessionKey();
+    if (this.transactionDatabases.has(key)) {
       throw new Error('Transaction already in progress');
     }
-    
-    await this.executeQuery('BEGIN TRANSACTION');
-    this.inTransaction = true;
+    if (!this.db) {
+      throw new Error('Database not connected');
+    }
+
+    // A second handle on an in-memory database would open a different, empty database
+    const db = this.isMemoryDatabase() ? this.db : await this.openDatabase();
+    if (db === this.db && [...this.transactionDatabases.values()].includes(db)) {
+      throw new Error('Another session has a transaction open on this in-memory database');
+    }
+
+    this.transactionDatabases.set(key, db);
+    try {
+      // The pragma has no effect inside a transaction, so it is set on the handle first
+      if (options?.disableForeignKeys) {
+        await this.runQuery(db, 'PRAGMA foreign_keys = OFF');
+      }
+      await this.executeQuery('BEGIN TRANSACTION');
+      if (options?.readOnly) {
+        await this.executeQuery('PRAGMA query_only = ON');
+      }
+    } catch (error) {
+      await this.endTransaction(key, db);
+      throw error;
+    }
   }
 
   async commitTransaction(): Promise<void> {
-    if (!this.inTransaction) {
-      throw new Error('No transaction in progress');
-    }
-    
+    const key = this.getSessionKey();
+    const db = this.requireTransaction(key);
     await this.executeQuery('COMMIT');
-    this.inTransaction = false;
+    await this.endTransaction(key, db);
   }
 
   async rollbackTransaction(): Promise<void> {
-    if (!this.inTransaction) {
-      throw new Error('No transaction in progress');
+    const key = this.getSessionKey();
+    const db = this.requireTransaction(key);
+    try {
+      await this.executeQuery('ROLLBACK');
+    } finally {
+      await this.endTransaction(key, db);
     }
-    
-    await this.executeQuery('ROLLBACK');
-    this.inTransaction = false;
   }
 
   isInTransaction(): boolean {
-    return this.inTransaction;
+    return this.transactionDatabases.has(this.getSessionKey());
+  }
+
+  override supportsSavepoints(): boolean {
+    return true;
+  }
+
+  /**
+   * The handle for the calling session: its transaction handle, or the shared one unless another session's
+   * transaction holds it.
+   */
+  private getDatabase(): sqlite3.Database {
+    const transaction = this.transactionDatabases.get(this.getSessionKey());
+    if (transaction) {
+      return transaction;
+    }
+    if (!this.db) {
+      throw new Error('Database not connected');
+    }
+    if ([...this.transactionDatabases.values()].includes(this.db)) {
+      throw new Error('Another session has a transaction open on this in-memory database');
+    }
+    return this.db;
+  }
+
+  private requireTransaction(key: string): sqlite3.Database {
+    const db = this.transactionDatabases.get(key);
+    if (!db) {
+      throw new Error('No transaction in progress');
+    }
+    return db;
+  }
+
+  private async endTransaction(key: string, db: sqlite3.Database): Promise<void> {
+    this.transactionDatabases.delete(key);
+    if (db !== this.db) {
+      await this.closeDatabase(db);
+    } else {
+      // Undo a read-only transaction's query_only, and disabled foreign keys, on the shared handle
+      await this.runQuery(db, 'PRAGMA query_only = OFF');
+      await this.runQuery(db, 'PRAGMA foreign_keys = ON');
+    }
+  }
+
+  private isMemoryDatabase(): boolean {
+    const filename = this.getFilename();
+    return filename === ':memory:' || filename === '' || filename.includes('mode=memory');
+  }
+
+  private getFilename(): string {
+    return this.config.filename || this.config.database || ':memory:';
+  }
+
+  private async openDatabase(): Promise<sqlite3.Database> {
+    const mode = this.isReadOnly() ? sqlite3.OPEN_READONLY : sqlite3.OPEN_READWRITE | sqlite3.OPEN_CREATE;
+    const db = await new Promise<sqlite3.Database>((resolve, reject) => {
+      const opened = new sqlite3.Database(this.getFilename(), mode, (err) => {
+        if (err) {
+          reject(err);
+        } else {
+          resolve(opened);
+        }
+      });
+    });
+    db.configure('busyTimeout', BUSY_TIMEOUT_MS);
+    // Foreign key enforcement is a per-handle setting
+    await this.runQuery(db, 'PRAGMA foreign_keys = ON');
+    return db;
+  }
+
+  private closeDatabase(db: sqlite3.Database): Promise<void> {
+    return new Promise<void>((resolve, reject) => {
+      db.close((err) => {
+        if (err) {
+          reject(err);
+        } else {
+          resolve();
+        }
+      });
+    });
   }
 
   private escapeIdentifier(identifier: string): string {
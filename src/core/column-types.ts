@@ -0,0 +1,59 @@
+import { ColumnInfo } from '../types/database.js';
+
+export interface NormalizedType {
+  name: string;
+  /** Declared length, for character and binary types */
+  length: number | null;
+  /** Declared precision and scale, for numeric types */
+  precision: number | null;
+  scale: number | null;
+}
+
+// Names engines report for the same type, mapped to one spelling
+const TYPE_ALIASES: Record<string, string> = {
+  'int': 'integer',
+  'int4': 'integer',
+  'serial': 'integer',
+  'serial4': 'integer',
+  'int2': 'smallint',
+  'smallserial': 'smallint',
+  'serial2': 'smallint',
+  'int8': 'bigint',
+  'bigserial': 'bigint',
+  'serial8': 'bigint',
+  'float4': 'real',
+  'float8': 'double precision',
+  'double': 'double precision',
+  'bool': 'boolean',
+  'character varying': 'varchar',
+  'character': 'char',
+  'bpchar': 'char',
+  'decimal': 'numeric',
+  'timestamp without time zone': 'timestamp',
+  'timestamp with time zone': 'timestamptz',
+  'time without time zone': 'time',
+  'time with time zone': 'timetz',
+};
+const LENGTH_TYPES = new Set(['varchar', 'char', 'nvarchar', 'nchar', 'varbinary', 'binary', 'bit varying', 'bit']);
+
+/**
+ * Column types reduced to a comparable form: aliases resolved, and the length or precision taken from the type
+ * name (`varchar(255)`, `numeric(10,2)`) when the engine reports it there. Length, precision and scale are only
+ * kept for the types they are part of, so an integer's display width or reported precision never counts.
+ */
+export class ColumnTypes {
+  static normalize(column: Pick<ColumnInfo, 'dataType' | 'maxLength' | 'precision' | 'scale'>): NormalizedType {
+    const type = String(column.dataType).toLowerCase().trim();
+    const match = /^(.*?)\s*\(([^)]*)\)(.*)$/.exec(type);
+    const base = (match ? `${match[1]} ${match[3]}` : type).replace(/\s+/g, ' ').trim();
+    const args = match ? match[2]!.split(',').map(arg => Number(arg.trim())).map(arg => (Number.isNaN(arg) ? null : arg)) : [];
+    const name = TYPE_ALIASES[base] ?? base;
+
+    return {
+      name,
+      length: LENGTH_TYPES.has(name) ? column.maxLength ?? args[0] ?? null : null,
+      precision: name === 'numeric' ? column.precision ?? args[0] ?? null : null,
+      scale: name === 'numeric' ? column.scale ?? args[1] ?? null : null,
+    };
+  }
+}
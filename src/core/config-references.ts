@@ -0,0 +1,150 @@
+import { existsSync, readFileSync } from 'fs';
+import { resolve, sep } from 'path';
+
+const ENV_REFERENCE = /\$\{([A-Za-z_][A-Za-z0-9_]*)(?::-([^}]*))?\}/g;
+const FILE_PREFIX = 'file:';
+
+// SQLite accepts `file:` URI filenames, so the prefix is not a secret reference there
+const LITERAL_FILE_FIELDS = new Set(['filename']);
+const NUMERIC_FIELDS = new Set(['port', 'db', 'maxRows', 'maxResponseBytes', 'cursorIdleTimeoutMs', 'transactionIdleTimeoutMs', 'sessionIdleTimeoutMs', 'timeoutMs']);
+const BOOLEAN_FIELDS = new Set(['ssl', 'trustServerCertificate', 'readOnly']);
+
+type Environment = Record<string, string | undefined>;
+
+/**
+ * Resolves `${ENV_VAR}` / `${ENV_VAR:-default}` interpolation and whole-value
+ * `file:/path` secret references (Docker/Kubernetes secret mounts) in connection configs.
+ * References that cannot be resolved are left in place so validation can report them.
+ */
+export class ConfigReferences {
+  static resolve<T extends object>(config: T, env: Environment = process.env): T {
+    const resolved: Record<string, unknown> = {};
+
+    for (const [field, value] of Object.entries(config)) {
+      resolved[field] = this.resolveValue(field, value, env);
+    }
+
+    return resolved as T;
+  }
+
+  /**
+   * Whether a value is a reference rather than a literal, i.e. safe to persist in place of a secret.
+   */
+  static isReference(value: unknown): boolean {
+    return typeof value === 'string' && (value.startsWith(FILE_PREFIX) || new RegExp(ENV_REFERENCE.source).test(value));
+  }
+
+  /**
+   * Describe every reference in the config that is still unresolved.
+   */
+  static findUnresolved(config: object, prefix: string = ''): string[] {
+    const errors: string[] = [];
+
+    for (const [field, value] of Object.entries(config)) {
+      const path = prefix ? `${prefix}.${field}` : field;
+      if (typeof value === 'string') {
+        for (const match of value.matchAll(ENV_REFERENCE)) {
+          errors.push(`Unresolved environment variable ${match[1]} in '${path}'`);
+        }
+        if (value.startsWith(FILE_PREFIX) && !LITERAL_FILE_FIELDS.has(field)) {
+          errors.push(`Secret file '${value.slice(FILE_PREFIX.length)}' referenced by '${path}' could not be read`);
+        }
+      } else if (value && typeof value === 'object') {
+        errors.push(...this.findUnresolved(value, path));
+      }
+    }
+
+    return errors;
+  }
+
+  /**
+   * Top-level fields whose string value still holds an unresolved reference.
+   */
+  static unresolvedFields(config: object): string[] {
+    return Object.entries(config)
+      .filter(([field, value]) => typeof value === 'string' && this.findUnresolved({ [field]: value }).length > 0)
+      .map(([field]) => field);
+  }
+
+  /**
+   * Describe every reference in the config that the allowlist does not cover. Entries are
+   * environment variable names or directories whose files may be read as `file:` secrets.
+   */
+  static findDisallowed(config: object, allowlist: string[], prefix: string = ''): string[] {
+    const errors: string[] = [];
+    const directories = allowlist.filter(entry => entry.startsWith('/')).map(entry => resolve(entry));
+
+    for (const [field, value] of Object.entries(config)) {
+      const path = prefix ? `${prefix}.${field}` : field;
+      if (typeof value === 'string') {
+        for (const match of value.matchAll(ENV_REFERENCE)) {
+          if (!allowlist.includes(match[1]!)) {
+            errors.push(`Environment variable ${match[1]} in '${path}' is not in the server's connectionReferences`);
+          }
+        }
+        if (value.startsWith(FILE_PREFIX) && !LITERAL_FILE_FIELDS.has(field)) {
+          const file = resolve(value.slice(FILE_PREFIX.length));
+          if (!directories.some(directory => file.startsWith(directory.endsWith(sep) ? directory : directory + sep))) {
+            errors.push(`Secret file '${file}' referenced by '${path}' is not under a directory in the server's connectionReferences`);
+          }
+        }
+      } else if (value && typeof value === 'object') {
+        errors.push(...this.findDisallowed(value, allowlist, path));
+      }
+    }
+
+    return errors;
+  }
+
+  private static resolveValue(field: string, value: unknown, env: Environment): unknown {
+    if (Array.isArray(value)) {
+      return value.map(item => this.resolveValue(field, item, env));
+    }
+    if (value && typeof value === 'object') {
+      return this.resolve(value, env);
+    }
+    if (typeof value !== 'string') {
+      return value;
+    }
+
+    let resolved = this.interpolate(value, env);
+    if (resolved.startsWith(FILE_PREFIX) && !LITERAL_FILE_FIELDS.has(field)) {
+      resolved = this.readSecretFile(resolved) ?? value;
+    }
+
+    return this.coerce(field, resolved);
+  }
+
+  private static interpolate(value: string, env: Environment): string {
+    return value.replace(ENV_REFERENCE, (reference, name: string, fallback: string | undefined) => {
+      const envValue = env[name];
+      if (envValue !== undefined && envValue !== '') {
+        return envValue;
+      }
+      return fallback !== undefined ? fallback : reference;
+    });
+  }
+
+  private static readSecretFile(reference: string): string | null {
+    const path = reference.slice(FILE_PREFIX.length);
+    try {
+      if (!existsSync(path)) return null;
+      return readFileSync(path, 'utf-8').replace(/\r?\n$/, '');
+    } catch {
+      return null;
+    }
+  }
+
+  private static coerce(field: string, value: string): unknown {
+    if (value.match(ENV_REFERENCE)) {
+      return value;
+    }
+    if (NUMERIC_FIELDS.has(field) && /^\d+$/.test(value)) {
+      return parseInt(value, 10);
+    }
+    if (BOOLEAN_FIELDS.has(field) && (value === 'true' || value === 'false')) {
+      return value === 'true';
+    }
+    return value;
+  }
+}
@@ -1,9 +1,12 @@
-import { readFileSync, existsSync } from 'fs';
+import { readFileSync, existsSync, writeFileSync, renameSync, mkdirSync, unlinkSync } from 'fs';
 import { join, dirname } from 'path';
 import { fileURLToPath } from 'url';
-import { MCPConfig } from '../types/mcp.js';
+import { ZodError } from 'zod';
+import dotenv from 'dotenv';
+import { MCPConfig, MCPConfigInput, MCPDatabaseConfig, ConnectionSource } from '../types/mcp.js';
 import { DatabaseConfig } from '../types/database.js';
 import { DatabaseAdapterFactory } from '../adapters/database-adapter-factory.js';
+import { ConfigReferences } from './config-references.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
@@ -11,27 +14,111 @@ const __dirname = dirname(__filename);
 export class Configuration {
   private static readonly CONFIG_PATH = join(__dirname, '../../config/mcp-config.json');
   private static readonly DEFAULT_CONFIG_PATH = join(__dirname, '../../config/mcp-config.default.json');
+  private static readonly SECRET_FIELDS = ['password', 'secretAccessKey'] as const;
+  private static sources: Map<string, ConnectionSource> = new Map();
 
+  /**
+   * Load configuration in layers: bundled defaults, the project config file,
+   * databases discovered in editor mcp.json files, then environment overrides.
+   * Databases from a later file layer replace earlier ones with the same name;
+   * discovered databases only fill in names that are not configured yet.
+   * `${ENV_VAR}` and `file:` references are resolved after a `.env` file is loaded.
+   */
   static load(): MCPConfig {
-    const empty: MCPConfig = {
-      databases: [],
-      server: {
-        name: '',
-        version: '',
-        description: '',
-      },
-      logging: {
-        level: 'info',
-        format: 'text',
-      },
-    } as MCPConfig;
-    return this.mergeDiscoveredMCPJsonDatabases(empty);
+    dotenv.config({ path: process.env.PINEMCP_ENV_FILE || join(process.cwd(), '.env') });
+
+    let config: MCPConfigInput = {};
+    for (const path of [this.DEFAULT_CONFIG_PATH, this.getConfigPath()]) {
+      const layer = this.readConfigFile(path);
+      if (layer) {
+        config = this.mergeLayer(config, layer);
+      }
+    }
+
+    const sources = new Map<string, ConnectionSource>();
+    const recordSources = (source: ConnectionSource) => {
+      for (const db of config.databases || []) {
+        if (!sources.has(db.name)) sources.set(db.name, source);
+      }
+    };
+
+    recordSources('config');
+    config = this.mergeDiscoveredMCPJsonDatabases(config);
+    recordSources('discovered');
+    config = this.applyEnvironmentOverrides(config);
+    this.parseEnvironmentDatabases().forEach(db => sources.set(db.name, 'environment'));
+
+    const validated = this.validate(this.resolveReferences(config), 'merged configuration');
+    this.sources = sources;
+    return validated;
+  }
+
+  /**
+   * Where a database returned by the last `load()` was defined.
+   */
+  static getConnectionSource(name: string): ConnectionSource | undefined {
+    return this.sources.get(name);
+  }
+
+  /**
+   * Validate and write the configuration to the project config file. The file is
+   * written to a temporary sibling first and renamed into place so a crash never
+   * leaves a truncated config behind.
+   */
+  static save(config: MCPConfig, path: string = this.getConfigPath()): void {
+    this.writeConfigFile(path, this.validate(config, 'configuration to save'));
+  }
+
+  /**
+   * Add or replace a database in the project config file. Secrets are left out
+   * of the written entry unless `includeSecrets` is set.
+   */
+  static persistDatabase(database: MCPDatabaseConfig, options: { includeSecrets?: boolean } = {}): string {
+    const path = this.getConfigPath();
+    const entry = options.includeSecrets ? database : this.stripSecrets(database);
+    const updated = this.mergeLayer(this.readConfigFile(path) || {}, { databases: [entry] });
+
+    this.validate(updated, path);
+    this.writeConfigFile(path, updated);
+    this.sources.set(database.name, 'config');
+    return path;
+  }
+
+  /**
+   * Remove a database from the project config file. Returns false when the file
+   * has no entry with that name.
+   */
+  static removePersistedDatabase(name: string): boolean {
+    const path = this.getConfigPath();
+    const current = this.readConfigFile(path);
+    const databases = current?.databases || [];
+    if (!current || !databases.some(db => db.name === name)) {
+      return false;
+    }
+
+    this.writeConfigFile(path, { ...current, databases: databases.filter(db => db.name !== name) });
+    this.sources.delete(name);
+    return true;
   }
 
-  static save(_config: MCPConfig): void {
-    return;
+  static getConfigPath(): string {
+    return process.env.PINEMCP_CONFIG || this.CONFIG_PATH;
   }
 
+  private static writeConfigFile(path: string, config: MCPConfigInput): void {
+    const tempPath = `${path}.${process.pid}.tmp`;
+
+    mkdirSync(dirname(path), { recursive: true });
+    try {
+      writeFileSync(tempPath, `${JSON.stringify(config, null, 2)}\n`, { encoding: 'utf-8', mode: 0o600 });
+      renameSync(tempPath, path);
+    } catch (error) {
+      if (existsSync(tempPath)) {
+        unlinkSync(tempPath);
+      }
+      throw new Error(`Failed to write configuration file ${path}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
 
   static validateDatabaseConfig(config: DatabaseConfig): { valid: boolean; errors: string[] } {
     return DatabaseAdapterFactory.validateConfig(config);
@@ -119,8 +206,145 @@ export class Configuration {
   }
 
 
-  private static mergeDiscoveredMCPJsonDatabases(config: MCPConfig): MCPConfig {
+  private static readConfigFile(path: string): MCPConfigInput | null {
+    if (!existsSync(path)) {
+      return null;
+    }
+
+    let json: unknown;
+    try {
+      json = JSON.parse(readFileSync(path, 'utf-8'));
+    } catch (error) {
+      throw new Error(`Failed to parse configuration file ${path}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    this.validate(this.resolveReferences(json as MCPConfigInput), path);
+    return json as MCPConfigInput;
+  }
+
+  private static resolveReferences(config: MCPConfigInput): MCPConfigInput {
+    const resolved = config.server ? { ...config, server: ConfigReferences.resolve(config.server) } : config;
+    if (!Array.isArray(resolved.databases)) {
+      return resolved;
+    }
+    return { ...resolved, databases: resolved.databases.map(db => ConfigReferences.resolve(db)) };
+  }
+
+  /**
+   * Database fields still holding an unresolved reference skip the type check; DatabaseAdapterFactory.validateConfig
+   * reports them for that database alone instead of failing the whole configuration.
+   */
+  private static validate(config: unknown, source: string): MCPConfig {
+    const databases = (config as MCPConfigInput | null)?.databases;
+    const placeholders = Array.isArray(databases)
+      ? databases.map(db => (db && typeof db === 'object'
+        ? Object.fromEntries(ConfigReferences.unresolvedFields(db).map(field => [field, (db as Record<string, unknown>)[field]]))
+        : {}))
+      : [];
+    const checked = Array.isArray(databases)
+      ? { ...(config as MCPConfigInput), databases: databases.map((db, index) => this.omitFields(db, Object.keys(placeholders[index]!))) }
+      : config;
+
+    const result = MCPConfig.safeParse(checked);
+    if (!result.success) {
+      throw new Error(`Invalid ${source}:\n${this.formatValidationIssues(result.error)}`);
+    }
+    result.data.databases = result.data.databases.map((db, index) => ({ ...db, ...placeholders[index] }) as MCPDatabaseConfig);
+    return result.data;
+  }
+
+  private static omitFields<T>(value: T, fields: string[]): T {
+    if (fields.length === 0) return value;
+    return Object.fromEntries(Object.entries(value as Record<string, unknown>).filter(([field]) => !fields.includes(field))) as T;
+  }
+
+  private static formatValidationIssues(error: ZodError): string {
+    return error.issues
+      .map(issue => `  - ${issue.path.length > 0 ? issue.path.join('.') : '(root)'}: ${issue.message}`)
+      .join('\n');
+  }
+
+  private static mergeLayer(base: MCPConfigInput, layer: MCPConfigInput): MCPConfigInput {
+    const databases = [...(base.databases || [])];
+    for (const db of layer.databases || []) {
+      const index = databases.findIndex(existing => existing.name === db.name);
+      if (index === -1) {
+        databases.push(db);
+      } else {
+        databases[index] = db;
+      }
+    }
+
+    const merged: MCPConfigInput = { ...base, ...layer, databases };
+    if (base.server || layer.server) {
+      merged.server = { ...base.server, ...layer.server };
+    }
+    if (base.logging || layer.logging) {
+      merged.logging = { ...base.logging, ...layer.logging };
+    }
+    return merged;
+  }
+
+  private static stripSecrets(database: MCPDatabaseConfig): MCPDatabaseConfig {
+    const stripped: MCPDatabaseConfig = { ...database };
+    for (const field of this.SECRET_FIELDS) {
+      if (!ConfigReferences.isReference(stripped[field])) {
+        delete stripped[field];
+      }
+    }
+
+    if (stripped.url) {
+      try {
+        const url = new URL(stripped.url);
+        if (url.password) {
+          url.password = '';
+          stripped.url = url.toString();
+        }
+      } catch {
+        // Leave values that are not parseable URLs untouched
+      }
+    }
+
+    return stripped;
+  }
+
+  private static parseEnvironmentDatabases(): MCPDatabaseConfig[] {
+    const urls = process.env.PINEMCP_DATABASE_URLS;
+    if (!urls) return [];
+
+    return urls.split(',').map(s => s.trim()).filter(Boolean).map((url, index) => {
+      const parsed = this.parseDatabaseUrl(url);
+      if (!parsed) {
+        throw new Error(`Invalid database URL in PINEMCP_DATABASE_URLS at position ${index + 1}`);
+      }
+      return { ...parsed, name: this.deriveConnectionNameFromUrl(url, parsed, `env-db-${index + 1}`) };
+    });
+  }
+
+  private static applyEnvironmentOverrides(config: MCPConfigInput): MCPConfigInput {
+    const env = process.env;
+    const server = { ...config.server };
+    const logging = { ...config.logging };
+
+    if (env.PINEMCP_SERVER_NAME) server.name = env.PINEMCP_SERVER_NAME;
+    if (env.PINEMCP_SERVER_VERSION) server.version = env.PINEMCP_SERVER_VERSION;
+    if (env.PINEMCP_TRANSPORT) server.transport = env.PINEMCP_TRANSPORT as NonNullable<typeof server.transport>;
+    if (env.PINEMCP_HOST) server.host = env.PINEMCP_HOST;
+    if (env.PINEMCP_PORT) server.port = parseInt(env.PINEMCP_PORT, 10);
+    if (env.PINEMCP_AUTH_TOKEN) server.authToken = env.PINEMCP_AUTH_TOKEN;
+    if (env.PINEMCP_LOG_LEVEL) logging.level = env.PINEMCP_LOG_LEVEL as NonNullable<typeof logging.level>;
+    if (env.PINEMCP_LOG_FORMAT) logging.format = env.PINEMCP_LOG_FORMAT as NonNullable<typeof logging.format>;
+
+    const result: MCPConfigInput = { ...config, server, logging };
+    if (env.PINEMCP_READ_ONLY) result.readOnly = env.PINEMCP_READ_ONLY === 'true';
+    const databases = this.parseEnvironmentDatabases();
+    return databases.length > 0 ? this.mergeLayer(result, { databases }) : result;
+  }
+
+  private static mergeDiscoveredMCPJsonDatabases(config: MCPConfigInput): MCPConfigInput {
     const discovered: Array<{ name: string; cfg: DatabaseConfig }> = [];
+    // URLs may be `${ENV_VAR}` or `file:` references, which have to be resolved before they can be parsed
+    const resolveUrl = (url: string) => ConfigReferences.resolve({ url }).url;
     const mcpPaths = this.getPotentialMCPConfigPaths();
     for (const path of mcpPaths) {
       try {
@@ -137,16 +361,18 @@ export class Configuration {
             if (Array.isArray(arr)) {
               arr.forEach((entry: any, index: number) => {
                 if (typeof entry === 'string') {
-                  const parsed = this.parseDatabaseUrl(entry);
+                  const url = resolveUrl(entry);
+                  const parsed = this.parseDatabaseUrl(url);
                   if (parsed) {
-                    const name = this.deriveConnectionNameFromUrl(entry, parsed, `mcp-db-${index + 1}`);
+                    const name = this.deriveConnectionNameFromUrl(url, parsed, `mcp-db-${index + 1}`);
                     discovered.push({ name, cfg: { name, ...parsed } as unknown as DatabaseConfig });
                   }
                 } else if (entry && typeof entry === 'object') {
                   if (entry.url && typeof entry.url === 'string') {
-                    const parsed = this.parseDatabaseUrl(entry.url);
+                    const url = resolveUrl(entry.url);
+                    const parsed = this.parseDatabaseUrl(url);
                     if (parsed) {
-                      const name = (entry.name && String(entry.name)) || this.deriveConnectionNameFromUrl(entry.url, parsed, `mcp-db-${index + 1}`);
+                      const name = (entry.name && String(entry.name)) || this.deriveConnectionNameFromUrl(url, parsed, `mcp-db-${index + 1}`);
                       discovered.push({ name, cfg: { name, ...parsed } as unknown as DatabaseConfig });
                     }
                   } else if (entry.type) {
@@ -162,16 +388,18 @@ export class Configuration {
               const entries = Object.entries(arr as Record<string, any>);
               entries.forEach(([key, value], index) => {
                 if (typeof value === 'string') {
-                  const parsed = this.parseDatabaseUrl(value);
+                  const url = resolveUrl(value);
+                  const parsed = this.parseDatabaseUrl(url);
                   if (parsed) {
-                    const name = this.normalizeName(key) || this.deriveConnectionNameFromUrl(value, parsed, `mcp-db-${index + 1}`);
+                    const name = this.normalizeName(key) || this.deriveConnectionNameFromUrl(url, parsed, `mcp-db-${index + 1}`);
                     discovered.push({ name, cfg: { name, ...parsed } as unknown as DatabaseConfig });
                   }
                 } else if (value && typeof value === 'object') {
                   if (value.url && typeof value.url === 'string') {
-                    const parsed = this.parseDatabaseUrl(value.url);
+                    const url = resolveUrl(value.url);
+                    const parsed = this.parseDatabaseUrl(url);
                     if (parsed) {
-                      const name = (value.name && String(value.name)) || this.normalizeName(key) || this.deriveConnectionNameFromUrl(value.url, parsed, `mcp-db-${index + 1}`);
+                      const name = (value.name && String(value.name)) || this.normalizeName(key) || this.deriveConnectionNameFromUrl(url, parsed, `mcp-db-${index + 1}`);
                       discovered.push({ name, cfg: { name, ...parsed } as unknown as DatabaseConfig });
                     }
                   } else if (value.type) {
@@ -188,16 +416,18 @@ export class Configuration {
               : (typeof arr === 'string' ? (arr as string).split(',').map(s => s.trim()).filter(Boolean) : []);
             list.forEach((entry: any, index: number) => {
               if (typeof entry === 'string') {
-                const parsed = this.parseDatabaseUrl(entry);
+                const url = resolveUrl(entry);
+                const parsed = this.parseDatabaseUrl(url);
                 if (parsed) {
-                  const name = this.deriveConnectionNameFromUrl(entry, parsed, `mcp-db-${index + 1}`);
+                  const name = this.deriveConnectionNameFromUrl(url, parsed, `mcp-db-${index + 1}`);
                   discovered.push({ name, cfg: { name, ...parsed } as unknown as DatabaseConfig });
                 }
               } else if (entry && typeof entry === 'object') {
                 if (entry.url && typeof entry.url === 'string') {
-                  const parsed = this.parseDatabaseUrl(entry.url);
+                  const url = resolveUrl(entry.url);
+                  const parsed = this.parseDatabaseUrl(url);
                   if (parsed) {
-                    const name = (entry.name && String(entry.name)) || this.deriveConnectionNameFromUrl(entry.url, parsed, `mcp-db-${index + 1}`);
+                    const name = (entry.name && String(entry.name)) || this.deriveConnectionNameFromUrl(url, parsed, `mcp-db-${index + 1}`);
                     discovered.push({ name, cfg: { name, ...parsed } as unknown as DatabaseConfig });
                   }
                 } else if (entry.type) {
@@ -214,14 +444,14 @@ export class Configuration {
       }
     }
     if (discovered.length === 0) return config;
-    const existingNames = new Set(config.databases.map(d => d.name));
+    const existingNames = new Set((config.databases || []).map(d => d.name));
     const merged = [
-      ...config.databases,
+      ...(config.databases || []),
       ...discovered
         .filter(d => !existingNames.has(d.name))
         .map(d => ({ name: d.name, ...d.cfg } as any)),
     ];
-    return { ...config, databases: merged } as MCPConfig;
+    return { ...config, databases: merged };
   }
 
   private static getPotentialMCPConfigPaths(): string[] {
@@ -0,0 +1,34 @@
+import { createHash } from 'crypto';
+import { PageState, QueryParameters } from '../types/database.js';
+
+/**
+ * Stateless continuation tokens for truncated query results. A token holds where the next page
+ * starts plus a fingerprint of the query and parameters it was issued for.
+ */
+export class ContinuationToken {
+  static encode(query: string, parameters: QueryParameters | undefined, page: PageState): string {
+    const payload = { q: this.fingerprint(query, parameters), p: page };
+    return Buffer.from(JSON.stringify(payload)).toString('base64url');
+  }
+
+  static decode(token: string, query: string, parameters: QueryParameters | undefined): PageState {
+    let payload: { q?: unknown; p?: unknown };
+    try {
+      payload = JSON.parse(Buffer.from(token, 'base64url').toString('utf8'));
+    } catch {
+      throw new Error('Invalid continuation token');
+    }
+
+    if (!payload || typeof payload.p !== 'object' || payload.p === null) {
+      throw new Error('Invalid continuation token');
+    }
+    if (payload.q !== this.fingerprint(query, parameters)) {
+      throw new Error('Continuation token was issued for a different query or parameters');
+    }
+    return payload.p as PageState;
+  }
+
+  private static fingerprint(query: string, parameters: QueryParameters | undefined): string {
+    return createHash('sha256').update(JSON.stringify([query, parameters || []])).digest('hex').slice(0, 16);
+  }
+}
@@ -0,0 +1,355 @@
+import { ColumnInfo, ConstraintInfo, IndexInfo, SchemaObject, TableInfo } from '../types/database.js';
+import { SqlDialect } from './sql-classifier.js';
+import { TemplateCompiler } from './template-compiler.js';
+
+type TableName = { name: string; schema?: string | undefined };
+
+// Types whose declared length is part of the type, and types declared with precision and scale
+const LENGTH_TYPES = new Set([
+  'varchar', 'char', 'character varying', 'character', 'nvarchar', 'nchar', 'varbinary', 'binary', 'bit varying', 'bit',
+]);
+const DECIMAL_TYPES = new Set(['decimal', 'numeric']);
+// MySQL reports string defaults without quotes; these are the defaults that are not string literals
+const MYSQL_RAW_DEFAULT = /^(-?\d+(\.\d+)?|NULL|TRUE|FALSE|CURRENT_TIMESTAMP(\(\d*\))?|NOW\(\)|b'[01]*'|\(.*\))$/i;
+// Prefix of the temporary table a SQLite rebuild copies rows into
+const REBUILD_PREFIX = 'pinemcp_rebuild_';
+
+/**
+ * Dialect-correct DDL from introspected ColumnInfo, IndexInfo, ConstraintInfo and SchemaObject. Every method
+ * returns the statements without trailing semicolons, in the order they must run.
+ */
+export class DdlBuilder {
+  static createTable(table: TableInfo, dialect: SqlDialect): string[] {
+    const definitions = [
+      ...table.columns.map(column => this.columnDefinition(column, dialect)),
+      ...this.tableConstraints(table, dialect),
+    ];
+    return [
+      `CREATE TABLE ${this.tableName(table, dialect)} (\n  ${definitions.join(',\n  ')}\n)`,
+      ...this.ownIndexes(table).map(index => this.createIndex(table, index, dialect)),
+    ];
+  }
+
+  static dropTable(table: TableName, dialect: SqlDialect): string[] {
+    return [`DROP TABLE ${this.tableName(table, dialect)}`];
+  }
+
+  static addColumn(table: TableName, column: ColumnInfo, dialect: SqlDialect): string[] {
+    const keyword = dialect === 'mssql' ? 'ADD' : 'ADD COLUMN';
+    return [`ALTER TABLE ${this.tableName(table, dialect)} ${keyword} ${this.columnDefinition(column, dialect)}`];
+  }
+
+  static dropColumn(table: TableName, column: ColumnInfo, dialect: SqlDialect): string[] {
+    // SQL Server will not drop a column while its default constraint exists
+    const dropDefault = dialect === 'mssql' && this.hasDefault(column) ? [this.dropMssqlDefault(table, column.name)] : [];
+    return [...dropDefault, `ALTER TABLE ${this.tableName(table, dialect)} DROP COLUMN ${this.quote(column.name, dialect)}`];
+  }
+
+  /**
+   * Statements that change a column's type, nullability and default from `from` to `to`. SQLite cannot alter
+   * columns; use rebuildTable there.
+   */
+  static alterColumn(table: TableName, from: ColumnInfo, to: ColumnInfo, dialect: SqlDialect): string[] {
+    const tableName = this.tableName(table, dialect);
+    const column = this.quote(to.name, dialect);
+    const typeChanged = this.columnType(from) !== this.columnType(to);
+    const nullabilityChanged = from.nullable !== to.nullable;
+    const defaultChanged = this.defaultSql(from, dialect) !== this.defaultSql(to, dialect);
+
+    switch (dialect) {
+      case 'postgresql': {
+        const statements: string[] = [];
+        if (typeChanged) {
+          const type = this.columnType(to);
+          statements.push(`ALTER TABLE ${tableName} ALTER COLUMN ${column} TYPE ${type} USING ${column}::${type}`);
+        }
+        if (nullabilityChanged) {
+          statements.push(`ALTER TABLE ${tableName} ALTER COLUMN ${column} ${to.nullable ? 'DROP' : 'SET'} NOT NULL`);
+        }
+        if (defaultChanged) {
+          const value = this.defaultSql(to, dialect);
+          statements.push(`ALTER TABLE ${tableName} ALTER COLUMN ${column} ${value === null ? 'DROP DEFAULT' : `SET DEFAULT ${value}`}`);
+        }
+        return statements;
+      }
+      case 'mysql':
+        return [`ALTER TABLE ${tableName} MODIFY COLUMN ${this.columnDefinition(to, dialect)}`];
+      case 'mssql': {
+        const statements: string[] = [];
+        if (defaultChanged && this.hasDefault(from)) {
+          statements.push(this.dropMssqlDefault(table, to.name));
+        }
+        if (typeChanged || nullabilityChanged) {
+          statements.push(`ALTER TABLE ${tableName} ALTER COLUMN ${column} ${this.columnType(to)} ${to.nullable ? 'NULL' : 'NOT NULL'}`);
+        }
+        const value = this.defaultSql(to, dialect);
+        if (defaultChanged && value !== null) {
+          statements.push(`ALTER TABLE ${tableName} ADD DEFAULT ${value} FOR ${column}`);
+        }
+        return statements;
+      }
+      default:
+        throw new Error(`Columns cannot be altered in place on ${dialect}; rebuild the table instead`);
+    }
+  }
+
+  /**
+   * SQLite's table rebuild: create the new shape under a temporary name, copy the columns both shapes share,
+   * drop the old table, rename the new one into place and recreate its indexes.
+   */
+  static rebuildTable(current: TableInfo, desired: TableInfo, dialect: SqlDialect): string[] {
+    const temporary: TableInfo = { ...desired, name: `${REBUILD_PREFIX}${desired.name}` };
+    const shared = desired.columns
+      .filter(column => current.columns.some(existing => existing.name.toLowerCase() === column.name.toLowerCase()))
+      .map(column => this.quote(column.name, dialect))
+      .join(', ');
+    const [create] = this.createTable(temporary, dialect);
+
+    return [
+      create!,
+      ...(shared ? [`INSERT INTO ${this.tableName(temporary, dialect)} (${shared}) SELECT ${shared} FROM ${this.tableName(current, dialect)}`] : []),
+      ...this.dropTable(current, dialect),
+      `ALTER TABLE ${this.tableName(temporary, dialect)} RENAME TO ${this.quote(desired.name, dialect)}`,
+      ...this.ownIndexes(desired).map(index => this.createIndex(desired, index, dialect)),
+    ];
+  }
+
+  static createIndex(table: TableName, index: Pick<IndexInfo, 'name' | 'columns' | 'unique'>, dialect: SqlDialect): string {
+    const create = index.unique ? 'CREATE UNIQUE INDEX' : 'CREATE INDEX';
+    const columns = index.columns.map(column => this.quote(column, dialect)).join(', ');
+    // SQLite qualifies the index name with the schema rather than the table
+    if (dialect === 'sqlite') {
+      return `${create} ${this.qualified([table.schema, index.name], dialect)} ON ${this.quote(table.name, dialect)} (${columns})`;
+    }
+    return `${create} ${this.quote(index.name, dialect)} ON ${this.tableName(table, dialect)} (${columns})`;
+  }
+
+  static dropIndex(table: TableName, indexName: string, dialect: SqlDialect): string {
+    switch (dialect) {
+      case 'mysql':
+      case 'mssql':
+        return `DROP INDEX ${this.quote(indexName, dialect)} ON ${this.tableName(table, dialect)}`;
+      default:
+        return `DROP INDEX ${this.qualified([table.schema, indexName], dialect)}`;
+    }
+  }
+
+  /**
+   * Add a constraint to an existing table. SQLite cannot add constraints; use rebuildTable there.
+   */
+  static addConstraint(table: TableName, constraint: ConstraintInfo, dialect: SqlDialect): string {
+    if (dialect === 'sqlite') {
+      throw new Error('Constraints cannot be added in place on sqlite; rebuild the table instead');
+    }
+    const definition = this.constraintDefinition(table, constraint, dialect);
+    if (!definition) {
+      throw new Error(`Constraint ${constraint.name} cannot be recreated from its introspected definition`);
+    }
+    return `ALTER TABLE ${this.tableName(table, dialect)} ADD ${definition}`;
+  }
+
+  static dropConstraint(table: TableName, constraint: ConstraintInfo, dialect: SqlDialect): string {
+    const tableName = this.tableName(table, dialect);
+    switch (dialect) {
+      case 'mysql': {
+        if (constraint.type === 'PRIMARY KEY') return `ALTER TABLE ${tableName} DROP PRIMARY KEY`;
+        // A unique constraint is dropped through the index that enforces it
+        const clause = constraint.type === 'FOREIGN KEY' ? 'FOREIGN KEY' : constraint.type === 'UNIQUE' ? 'INDEX' : 'CHECK';
+        return `ALTER TABLE ${tableName} DROP ${clause} ${this.quote(constraint.name, dialect)}`;
+      }
+      case 'sqlite':
+        throw new Error('Constraints cannot be dropped in place on sqlite; rebuild the table instead');
+      default:
+        return `ALTER TABLE ${tableName} DROP CONSTRAINT ${this.quote(constraint.name, dialect)}`;
+    }
+  }
+
+  static dropObject(object: SchemaObject, dialect: SqlDialect): string {
+    const name = this.tableName(object, dialect);
+    switch (object.type) {
+      case 'view':
+        return `DROP VIEW ${name}`;
+      case 'materialized_view':
+        return `DROP MATERIALIZED VIEW ${name}`;
+      case 'function':
+      case 'procedure': {
+        // PostgreSQL overloads routines, so the argument types pick which one to drop
+        const signature = dialect === 'postgresql' ? `(${object.signature ?? ''})` : '';
+        return `DROP ${object.type.toUpperCase()} ${name}${signature}`;
+      }
+      case 'trigger':
+        return dialect === 'postgresql' && object.table
+          ? `DROP TRIGGER ${this.quote(object.name, dialect)} ON ${this.tableName({ name: object.table, schema: object.schema }, dialect)}`
+          : `DROP TRIGGER ${name}`;
+      case 'sequence':
+        return `DROP SEQUENCE ${name}`;
+      case 'enum':
+        return `DROP TYPE ${name}`;
+      default:
+        throw new Error(`Unsupported schema object type: ${object.type}`);
+    }
+  }
+
+  /**
+   * Statements that change a sequence or enum in place, so the columns using it keep working. Null when the
+   * object has to be dropped and created again instead.
+   */
+  static alterObject(from: SchemaObject, to: SchemaObject, dialect: SqlDialect): string[] | null {
+    const name = this.tableName(from, dialect);
+    switch (from.type) {
+      case 'sequence': {
+        const options = (object: SchemaObject) => object.definition.slice(object.definition.indexOf(' AS ') + 1);
+        if (dialect !== 'mssql') {
+          return [`ALTER SEQUENCE ${name} ${options(to)}${/ CYCLE$/.test(to.definition) ? '' : ' NO CYCLE'}`];
+        }
+        // SQL Server cannot change a sequence's type, and START WITH only applies when it is created
+        const [type, ...rest] = options(to).split(' START WITH ');
+        if (type !== options(from).split(' START WITH ')[0]) {
+          return null;
+        }
+        return [`ALTER SEQUENCE ${name} ${rest.join('').replace(/^\S+ /, '')}`];
+      }
+      case 'enum': {
+        const labels = (object: SchemaObject) => [...object.definition.matchAll(/'((?:[^']|'')*)'/g)].map(match => match[1]!);
+        const current = labels(from);
+        const desired = labels(to);
+        const kept = desired.filter(label => current.includes(label));
+        if (kept.length !== current.length || kept.some((label, index) => label !== current[index])) {
+          throw new Error(`Enum ${name} removes or reorders values, which PostgreSQL cannot alter; migrate it by hand or leave it out with ignore_tables`);
+        }
+        // Each new value goes after the one before it, or before the first value when it leads
+        return desired.flatMap((label, index) => {
+          if (current.includes(label)) return [];
+          const position = index > 0 ? ` AFTER '${desired[index - 1]}'` : current.length > 0 ? ` BEFORE '${current[0]}'` : '';
+          return [`ALTER TYPE ${name} ADD VALUE '${label}'${position}`];
+        });
+      }
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * Whether an index is created implicitly by a primary key or unique constraint rather than on its own.
+   */
+  static isConstraintIndex(table: TableInfo, index: IndexInfo): boolean {
+    return index.name === 'PRIMARY'
+      || index.name.startsWith('sqlite_autoindex_')
+      || table.constraints.some(constraint => constraint.name === index.name);
+  }
+
+  static columnDefinition(column: ColumnInfo, dialect: SqlDialect): string {
+    const parts = [this.quote(column.name, dialect), this.columnType(column)];
+    if (!column.nullable) parts.push('NOT NULL');
+    const value = this.defaultSql(column, dialect);
+    if (value !== null) parts.push(`DEFAULT ${value}`);
+    return parts.join(' ');
+  }
+
+  static columnType(column: ColumnInfo): string {
+    const type = column.dataType || 'text';
+    if (type.includes('(')) return type;
+    const lower = type.toLowerCase();
+    if (column.maxLength && LENGTH_TYPES.has(lower)) {
+      return `${type}(${column.maxLength === -1 ? 'max' : column.maxLength})`;
+    }
+    if (column.precision && DECIMAL_TYPES.has(lower)) {
+      return column.scale ? `${type}(${column.precision},${column.scale})` : `${type}(${column.precision})`;
+    }
+    return type;
+  }
+
+  static tableName(table: TableName, dialect: SqlDialect): string {
+    // SQLite's schema is the attached database, which the connection already targets
+    return dialect === 'sqlite' ? this.quote(table.name, dialect) : this.qualified([table.schema, table.name], dialect);
+  }
+
+  private static tableConstraints(table: TableInfo, dialect: SqlDialect): string[] {
+    const definitions: string[] = [];
+    const primaryKey = table.constraints.find(constraint => constraint.type === 'PRIMARY KEY');
+    const primaryColumns = primaryKey?.columns ?? table.columns.filter(column => column.isPrimaryKey).map(column => column.name);
+    if (primaryColumns.length > 0) {
+      definitions.push(`${this.constraintName(primaryKey, dialect)}PRIMARY KEY (${this.columnList(primaryColumns, dialect)})`);
+    }
+
+    for (const constraint of table.constraints) {
+      const definition = constraint.type === 'PRIMARY KEY' ? null : this.constraintDefinition(table, constraint, dialect);
+      if (definition) definitions.push(definition);
+    }
+    return definitions;
+  }
+
+  /**
+   * A constraint as it appears in CREATE TABLE or ALTER TABLE ... ADD, or null when the introspected constraint
+   * lacks what its definition needs (a foreign key's referenced table, a check's condition).
+   */
+  private static constraintDefinition(table: TableName, constraint: ConstraintInfo, dialect: SqlDialect): string | null {
+    const name = this.constraintName(constraint, dialect);
+    switch (constraint.type) {
+      case 'PRIMARY KEY':
+      case 'UNIQUE':
+        return constraint.columns.length > 0 ? `${name}${constraint.type} (${this.columnList(constraint.columns, dialect)})` : null;
+      case 'FOREIGN KEY': {
+        if (!constraint.referencedTable || constraint.columns.length === 0) return null;
+        const referencedColumns = constraint.referencedColumns?.length ? ` (${this.columnList(constraint.referencedColumns, dialect)})` : '';
+        const referencedTable = { name: constraint.referencedTable, schema: table.schema };
+        return `${name}FOREIGN KEY (${this.columnList(constraint.columns, dialect)}) `
+          + `REFERENCES ${this.tableName(referencedTable, dialect)}${referencedColumns}`;
+      }
+      case 'CHECK':
+        return constraint.definition ? `${name}CHECK (${constraint.definition})` : null;
+      default:
+        return null;
+    }
+  }
+
+  /** Indexes to create with their own statement, leaving out those the table's constraints create */
+  private static ownIndexes(table: TableInfo): IndexInfo[] {
+    return table.indexes.filter(index => !this.isConstraintIndex(table, index)
+      && index.columns.every(column => table.columns.some(existing => existing.name.toLowerCase() === column.toLowerCase())));
+  }
+
+  private static constraintName(constraint: ConstraintInfo | undefined, dialect: SqlDialect): string {
+    // MySQL always names its primary key PRIMARY
+    if (!constraint || (dialect === 'mysql' && constraint.type === 'PRIMARY KEY')) return '';
+    return `CONSTRAINT ${this.quote(constraint.name, dialect)} `;
+  }
+
+  private static defaultSql(column: ColumnInfo, dialect: SqlDialect): string | null {
+    if (!this.hasDefault(column)) return null;
+    const value = String(column.defaultValue);
+    if (dialect === 'mysql' && !MYSQL_RAW_DEFAULT.test(value) && !value.startsWith('\'')) {
+      return `'${value.replace(/'/g, '\'\'')}'`;
+    }
+    return value;
+  }
+
+  private static hasDefault(column: ColumnInfo): boolean {
+    return column.defaultValue !== undefined && column.defaultValue !== null;
+  }
+
+  /**
+   * SQL Server names default constraints itself, so the name is looked up when dropping one. This is a single
+   * batch statement, without semicolons, so it is never split apart.
+   */
+  private static dropMssqlDefault(table: TableName, column: string): string {
+    const objectName = this.tableName(table, 'mssql').replace(/'/g, '\'\'');
+    const columnName = column.replace(/'/g, '\'\'');
+    return `DECLARE @drop_default nvarchar(max) = (SELECT N'ALTER TABLE ${objectName} DROP CONSTRAINT ' + QUOTENAME(name) `
+      + `FROM sys.default_constraints WHERE parent_object_id = OBJECT_ID(N'${objectName}') `
+      + `AND parent_column_id = COLUMNPROPERTY(OBJECT_ID(N'${objectName}'), N'${columnName}', 'ColumnId')) `
+      + 'IF @drop_default IS NOT NULL EXEC sp_executesql @drop_default';
+  }
+
+  private static columnList(columns: string[], dialect: SqlDialect): string {
+    return columns.map(column => this.quote(column, dialect)).join(', ');
+  }
+
+  private static qualified(parts: Array<string | undefined>, dialect: SqlDialect): string {
+    return parts.filter((part): part is string => Boolean(part)).map(part => this.quote(part, dialect)).join('.');
+  }
+
+  private static quote(name: string, dialect: SqlDialect): string {
+    return TemplateCompiler.quoteIdentifier(name, dialect);
+  }
+}
@@ -0,0 +1,465 @@
+import { IndexRecommendation, RedundantIndex, TableInfo } from '../types/database.js';
+import { SqlClassifier, SqlDialect, SqlToken } from './sql-classifier.js';
+import { DdlBuilder } from './ddl-builder.js';
+
+// Longest index name every supported dialect accepts (PostgreSQL truncates at 63 bytes)
+const MAX_INDEX_NAME_LENGTH = 63;
+const MAX_EXAMPLE_QUERIES = 3;
+
+type ColumnRole = 'equality' | 'range' | 'join' | 'order';
+
+interface ColumnReference {
+  qualifier: string | null;
+  column: string;
+  role: ColumnRole;
+}
+
+interface TableReference {
+  name: string;
+  alias: string | null;
+}
+
+interface StatementUsage {
+  tables: TableReference[];
+  references: ColumnReference[];
+}
+
+interface Candidate {
+  table: TableInfo;
+  columns: string[];
+  equalityCount: number;
+  roles: Map<string, ColumnRole>;
+  times: number[];
+  occurrences: number;
+  queries: string[];
+}
+
+interface IndexKey {
+  name: string;
+  columns: string[];
+  unique: boolean;
+  type: string;
+  /** Backs a primary key or unique constraint, so it cannot be dropped on its own */
+  constraint: boolean;
+}
+
+export interface RecordedQuery {
+  query: string;
+  executionTime: number | null;
+}
+
+const EQUALITY_OPERATORS = new Set(['=', 'IN', 'IS']);
+const RANGE_OPERATORS = new Set(['<', '>', '<=', '>=', 'BETWEEN', 'LIKE', 'ILIKE']);
+// Words that open a new clause and end the current one
+const CLAUSE_STARTS = new Set([
+  'SELECT', 'FROM', 'JOIN', 'WHERE', 'ON', 'GROUP', 'HAVING', 'ORDER', 'LIMIT', 'OFFSET', 'FETCH', 'UNION', 'EXCEPT',
+  'INTERSECT', 'WINDOW', 'RETURNING', 'SET', 'VALUES', 'USING', 'FOR', 'OPTION', 'INTO',
+]);
+// Words that end a table reference instead of being its alias
+const TABLE_TERMINATORS = new Set([
+  ...CLAUSE_STARTS, 'INNER', 'LEFT', 'RIGHT', 'FULL', 'CROSS', 'NATURAL', 'OUTER', 'LATERAL', 'WITH', 'AS',
+]);
+// Words inside predicates and sort lists that are never column names
+const NON_COLUMN_WORDS = new Set([
+  'AND', 'OR', 'NOT', 'NULL', 'IS', 'IN', 'LIKE', 'ILIKE', 'BETWEEN', 'TRUE', 'FALSE', 'EXISTS', 'CASE', 'WHEN', 'THEN',
+  'ELSE', 'END', 'ANY', 'ALL', 'SOME', 'ESCAPE', 'COLLATE', 'INTERVAL', 'DATE', 'TIME', 'TIMESTAMP', 'CURRENT_DATE',
+  'CURRENT_TIME', 'CURRENT_TIMESTAMP', 'ASC', 'DESC', 'NULLS', 'FIRST', 'LAST', 'BY', 'DISTINCT',
+]);
+
+/**
+ * Index advice from recorded queries: which filter, join and sort columns no existing index covers, and which
+ * existing indexes duplicate or are a leading prefix of another.
+ */
+export class IndexAdvisor {
+  /**
+   * Candidate indexes for the recorded queries that existing indexes do not cover, ranked by how often they
+   * would be used and how slow those queries were.
+   */
+  static recommend(history: RecordedQuery[], tables: TableInfo[], dialect: SqlDialect): IndexRecommendation[] {
+    const candidates = new Map<string, Candidate>();
+
+    for (const entry of history) {
+      for (const statement of SqlClassifier.split(entry.query, dialect)) {
+        for (const candidate of this.candidatesFor(this.usage(statement, dialect), tables)) {
+          if (this.indexKeys(candidate.table).some(key => this.covers(key.columns, candidate.columns, candidate.equalityCount))) {
+            continue;
+          }
+          const id = `${this.tableId(candidate.table)}(${candidate.columns.join(',').toLowerCase()})`;
+          const existing = candidates.get(id) ?? { ...candidate, times: [], occurrences: 0, queries: [] };
+          candidate.roles.forEach((role, column) => existing.roles.set(column, role));
+          this.record(existing, entry);
+          candidates.set(id, existing);
+        }
+      }
+    }
+
+    // A candidate served by a longer one (its leading columns) is folded into it
+    const sorted = [...candidates.values()].sort((a, b) => b.columns.length - a.columns.length);
+    const kept: Candidate[] = [];
+    for (const candidate of sorted) {
+      const wider = kept.find(other => other.table === candidate.table && this.covers(other.columns, candidate.columns, candidate.equalityCount));
+      if (wider) {
+        wider.occurrences += candidate.occurrences;
+        wider.times.push(...candidate.times);
+        wider.queries.push(...candidate.queries.filter(query => !wider.queries.includes(query)));
+      } else {
+        kept.push(candidate);
+      }
+    }
+
+    return kept
+      .map(candidate => this.toRecommendation(candidate, dialect))
+      .sort((a, b) => b.score - a.score || b.occurrences - a.occurrences);
+  }
+
+  /**
+   * Existing indexes that another index (or the primary key) already serves.
+   */
+  static findRedundant(tables: TableInfo[], dialect: SqlDialect): RedundantIndex[] {
+    const findings: RedundantIndex[] = [];
+
+    for (const table of tables) {
+      const keys = this.indexKeys(table);
+      const flagged = new Set<string>();
+
+      for (const key of keys) {
+        if (key.unique || key.constraint) continue;
+        const wider = keys
+          .filter(other => other.type === key.type && other.columns.length > key.columns.length
+            && this.sameColumns(other.columns.slice(0, key.columns.length), key.columns))
+          .sort((a, b) => b.columns.length - a.columns.length)[0];
+        if (wider) {
+          flagged.add(key.name);
+          findings.push(this.toRedundant(table, key, wider, 'redundant', dialect));
+        }
+      }
+
+      keys.forEach((key, index) => {
+        for (const other of keys.slice(index + 1)) {
+          if (key.type !== other.type || !this.sameColumns(key.columns, other.columns)) continue;
+          // Keep the constraint or unique index, otherwise the first one listed
+          const drop = other.constraint || (other.unique && !key.unique) ? key : other;
+          const keep = drop === key ? other : key;
+          if (drop.constraint || flagged.has(drop.name) || flagged.has(keep.name)) continue;
+          flagged.add(drop.name);
+          findings.push(this.toRedundant(table, drop, keep, 'duplicate', dialect));
+        }
+      });
+    }
+
+    return findings;
+  }
+
+  /**
+   * Tables a statement reads and the columns it filters, joins and sorts on.
+   */
+  private static usage(statement: string, dialect: SqlDialect): StatementUsage {
+    const tokens = SqlClassifier.tokenize(statement, dialect);
+    const tables: TableReference[] = [];
+    const references: ColumnReference[] = [];
+    const clauses: Array<'filter' | 'order' | null> = [];
+    let clause: 'filter' | 'order' | null = null;
+
+    for (let index = 0; index < tokens.length; index++) {
+      const token = tokens[index]!;
+      const word = token.type === 'word' ? token.value.toUpperCase() : null;
+
+      if (token.value === '(') {
+        clauses.push(clause);
+        continue;
+      }
+      if (token.value === ')') {
+        clause = clauses.pop() ?? null;
+        continue;
+      }
+      if (word && CLAUSE_STARTS.has(word)) {
+        clause = word === 'WHERE' || word === 'HAVING' || word === 'ON' ? 'filter' : null;
+        if (word === 'ORDER' && this.isWord(tokens[index + 1], 'BY')) {
+          clause = 'order';
+          index++;
+        } else if (word === 'FROM' || word === 'JOIN') {
+          index = this.readTables(tokens, index + 1, tables, word === 'FROM') - 1;
+        }
+        continue;
+      }
+      // UPDATE opens a statement (possibly after a CTE); FOR UPDATE and ON DUPLICATE KEY UPDATE do not
+      if (word === 'UPDATE' && (index === 0 || tokens[index - 1]?.value === ')')) {
+        index = this.readTables(tokens, index + 1, tables, false) - 1;
+        continue;
+      }
+      if (clause === null || !this.isColumnStart(tokens, index)) continue;
+
+      const name = this.readName(tokens, index);
+      const next = tokens[name.next];
+      if (next?.value === '(') {
+        // A function call, not a column
+        index = name.next - 1;
+        continue;
+      }
+
+      if (clause === 'order') {
+        references.push({ ...name.reference, role: 'order' });
+        index = name.next - 1;
+        continue;
+      }
+
+      // Predicate: column <op> value, or value <op> column
+      const after = this.operator(tokens, name.next);
+      const before = this.operator(tokens, index - 1, true);
+      const role = after?.role ?? before?.role;
+      if (!role) {
+        index = name.next - 1;
+        continue;
+      }
+
+      const other = after && this.isColumnStart(tokens, after.next) ? this.readName(tokens, after.next) : null;
+      if (other && after?.role === 'equality' && tokens[other.next]?.value !== '(') {
+        references.push({ ...name.reference, role: 'join' }, { ...other.reference, role: 'join' });
+        index = other.next - 1;
+        continue;
+      }
+      references.push({ ...name.reference, role });
+      index = name.next - 1;
+    }
+
+    return { tables, references };
+  }
+
+  /**
+   * Read `name [AS] alias` table references after FROM, JOIN or UPDATE; FROM lists may name several.
+   */
+  private static readTables(tokens: SqlToken[], start: number, tables: TableReference[], list: boolean): number {
+    let position = start;
+    while (position < tokens.length) {
+      while (this.isWord(tokens[position], 'ONLY', 'LATERAL')) position++;
+      const token = tokens[position];
+      if (!token || (token.type !== 'word' && token.type !== 'identifier')) return position;
+      if (token.type === 'word' && TABLE_TERMINATORS.has(token.value.toUpperCase())) return position;
+
+      const name = this.readName(tokens, position);
+      position = name.next;
+      if (tokens[position]?.value === '(') return position;
+
+      let alias: string | null = null;
+      if (this.isWord(tokens[position], 'AS')) position++;
+      const aliasToken = tokens[position];
+      if (aliasToken && (aliasToken.type === 'identifier' || (aliasToken.type === 'word' && !TABLE_TERMINATORS.has(aliasToken.value.toUpperCase())))) {
+        alias = SqlClassifier.unquote(aliasToken.value);
+        position++;
+      }
+      tables.push({ name: name.parts.join('.'), alias });
+
+      if (!list || tokens[position]?.value !== ',') return position;
+      position++;
+    }
+    return position;
+  }
+
+  private static readName(tokens: SqlToken[], start: number): { parts: string[]; reference: Omit<ColumnReference, 'role'>; next: number } {
+    const parts: string[] = [];
+    let position = start;
+    while (tokens[position] && (tokens[position]!.type === 'word' || tokens[position]!.type === 'identifier')) {
+      parts.push(SqlClassifier.unquote(tokens[position]!.value));
+      position++;
+      if (tokens[position]?.value !== '.') break;
+      position++;
+    }
+    const column = parts[parts.length - 1] ?? '';
+    const qualifier = parts.length > 1 ? parts.slice(0, -1).join('.') : null;
+    return { parts, reference: { qualifier, column }, next: position };
+  }
+
+  /**
+   * The comparison next to a column, read forwards from `position` or backwards when `reverse` is set.
+   * Negated comparisons (`<>`, `NOT IN`, `IS NOT NULL`) cannot use an index and are ignored.
+   */
+  private static operator(tokens: SqlToken[], position: number, reverse: boolean = false): { role: ColumnRole; next: number } | null {
+    const token = tokens[position];
+    if (!token) return null;
+    const value = token.value.toUpperCase();
+
+    if (reverse) {
+      if (value === '=') return { role: 'equality', next: position + 1 };
+      if (['<', '>', '<=', '>='].includes(value)) return { role: 'range', next: position + 1 };
+      return null;
+    }
+
+    if (EQUALITY_OPERATORS.has(value)) {
+      return this.isWord(tokens[position + 1], 'NOT') ? null : { role: 'equality', next: position + 1 };
+    }
+    if (RANGE_OPERATORS.has(value)) {
+      // A leading wildcard cannot use an index
+      const pattern = tokens[position + 1];
+      if ((value === 'LIKE' || value === 'ILIKE') && pattern?.type === 'string' && pattern.value.startsWith('\'%')) return null;
+      return { role: 'range', next: position + 1 };
+    }
+    return null;
+  }
+
+  private static isColumnStart(tokens: SqlToken[], position: number): boolean {
+    const token = tokens[position];
+    if (!token || (token.type !== 'word' && token.type !== 'identifier')) return false;
+    // Named parameters (:name, @name) are values
+    if (tokens[position - 1]?.value === ':' || token.value.startsWith('@')) return false;
+    return token.type === 'identifier' || !NON_COLUMN_WORDS.has(token.value.toUpperCase());
+  }
+
+  /**
+   * Build one candidate index per table from a statement's column references, in equality, sort, range order.
+   */
+  private static candidatesFor(usage: StatementUsage, tables: TableInfo[]): Candidate[] {
+    const resolvedTables = usage.tables
+      .map(reference => ({ reference, info: this.findTable(tables, reference.name) }))
+      .filter((entry): entry is { reference: TableReference; info: TableInfo } => entry.info !== null);
+
+    const byTable = new Map<TableInfo, Map<string, ColumnRole>>();
+    for (const reference of usage.references) {
+      const resolved = this.resolveColumn(reference, resolvedTables);
+      if (!resolved) continue;
+      const roles = byTable.get(resolved.table) ?? new Map<string, ColumnRole>();
+      if (!roles.has(resolved.column) || reference.role !== 'order') {
+        roles.set(resolved.column, reference.role === 'join' ? 'equality' : reference.role);
+      }
+      byTable.set(resolved.table, roles);
+    }
+
+    const candidates: Candidate[] = [];
+    byTable.forEach((roles, table) => {
+      const columnsWith = (role: ColumnRole) => [...roles].filter(([, columnRole]) => columnRole === role).map(([column]) => column);
+      const equality = columnsWith('equality');
+      const order = columnsWith('order');
+      const range = columnsWith('range').slice(0, 1);
+      const columns = [...equality, ...order, ...range];
+      if (columns.length > 0) {
+        candidates.push({ table, columns, equalityCount: equality.length, roles, times: [], occurrences: 0, queries: [] });
+      }
+    });
+    return candidates;
+  }
+
+  private static resolveColumn(
+    reference: ColumnReference,
+    tables: Array<{ reference: TableReference; info: TableInfo }>
+  ): { table: TableInfo; column: string } | null {
+    const qualifier = reference.qualifier?.toLowerCase();
+    const matches = tables.filter(({ reference: table, info }) => {
+      if (!qualifier) return true;
+      return table.alias?.toLowerCase() === qualifier || table.name.toLowerCase() === qualifier || info.name.toLowerCase() === qualifier;
+    });
+
+    const owners = matches
+      .map(({ info }) => ({ table: info, column: info.columns.find(column => column.name.toLowerCase() === reference.column.toLowerCase())?.name }))
+      .filter((owner): owner is { table: TableInfo; column: string } => owner.column !== undefined);
+    // An unqualified column that several joined tables have is ambiguous
+    return owners.length === 1 ? owners[0]! : null;
+  }
+
+  private static findTable(tables: TableInfo[], name: string): TableInfo | null {
+    const lower = name.toLowerCase();
+    return tables.find(table => table.schema && `${table.schema}.${table.name}`.toLowerCase() === lower)
+      ?? tables.find(table => table.name.toLowerCase() === lower)
+      ?? null;
+  }
+
+  /**
+   * Existing indexes of a table, plus its primary key when no index is listed for it.
+   */
+  private static indexKeys(table: TableInfo): IndexKey[] {
+    const constraints = table.constraints.filter(constraint => constraint.type === 'PRIMARY KEY' || constraint.type === 'UNIQUE');
+    const keys: IndexKey[] = table.indexes.map(index => ({
+      name: index.name,
+      columns: index.columns,
+      unique: index.unique,
+      type: index.type.toLowerCase(),
+      constraint: constraints.some(constraint => constraint.name === index.name) || index.name === 'PRIMARY',
+    }));
+
+    for (const constraint of constraints) {
+      const listed = keys.some(key => key.name === constraint.name || (key.unique && this.sameColumns(key.columns, constraint.columns)));
+      if (!listed && constraint.columns.length > 0) {
+        keys.push({ name: constraint.name, columns: constraint.columns, unique: true, type: keys[0]?.type ?? 'btree', constraint: true });
+      }
+    }
+    return keys;
+  }
+
+  /**
+   * Whether an index on `indexColumns` serves `columns`: the equality columns lead in any order, then the rest
+   * follow in order.
+   */
+  private static covers(indexColumns: string[], columns: string[], equalityCount: number): boolean {
+    if (indexColumns.length < columns.length) return false;
+    const lower = indexColumns.map(column => column.toLowerCase());
+    const wanted = columns.map(column => column.toLowerCase());
+    const leading = new Set(lower.slice(0, equalityCount));
+    return wanted.slice(0, equalityCount).every(column => leading.has(column))
+      && wanted.slice(equalityCount).every((column, offset) => lower[equalityCount + offset] === column);
+  }
+
+  private static record(candidate: Candidate, entry: RecordedQuery): void {
+    candidate.occurrences++;
+    if (entry.executionTime !== null) {
+      candidate.times.push(entry.executionTime);
+    }
+    if (candidate.queries.length < MAX_EXAMPLE_QUERIES && !candidate.queries.includes(entry.query)) {
+      candidate.queries.push(entry.query);
+    }
+  }
+
+  private static toRecommendation(candidate: Candidate, dialect: SqlDialect): IndexRecommendation {
+    const { table, columns, times } = candidate;
+    const averageTimeMs = times.length > 0 ? Math.round(times.reduce((sum, time) => sum + time, 0) / times.length) : null;
+    const maxTimeMs = times.length > 0 ? Math.max(...times) : null;
+    const score = Math.round(candidate.occurrences * (1 + (averageTimeMs ?? 0) / 100) * 100) / 100;
+
+    const describe = (role: ColumnRole, label: string) => {
+      const matching = columns.filter(column => candidate.roles.get(column) === role);
+      return matching.length > 0 ? `${label} ${matching.join(', ')}` : null;
+    };
+    const reason = [describe('equality', 'filtered or joined on'), describe('order', 'sorted by'), describe('range', 'range filter on')]
+      .filter(Boolean)
+      .join('; ');
+
+    const indexName = this.indexName(table.name, columns);
+    return {
+      table: table.name,
+      schema: table.schema,
+      columns,
+      reason: reason.charAt(0).toUpperCase() + reason.slice(1),
+      occurrences: candidate.occurrences,
+      averageTimeMs,
+      maxTimeMs,
+      score,
+      statement: DdlBuilder.createIndex(table, { name: indexName, columns, unique: false }, dialect),
+      exampleQueries: candidate.queries.slice(0, MAX_EXAMPLE_QUERIES),
+    };
+  }
+
+  private static toRedundant(table: TableInfo, index: IndexKey, coveredBy: IndexKey, kind: RedundantIndex['kind'], dialect: SqlDialect): RedundantIndex {
+    return {
+      table: table.name,
+      schema: table.schema,
+      index: index.name,
+      columns: index.columns,
+      kind,
+      coveredBy: coveredBy.name,
+      statement: DdlBuilder.dropIndex(table, index.name, dialect),
+    };
+  }
+
+  private static indexName(table: string, columns: string[]): string {
+    return `idx_${table}_${columns.join('_')}`.toLowerCase().replace(/[^a-z0-9_]/g, '_').slice(0, MAX_INDEX_NAME_LENGTH);
+  }
+
+  private static tableId(table: TableInfo): string {
+    return `${table.schema ?? ''}.${table.name}`.toLowerCase();
+  }
+
+  private static sameColumns(a: string[], b: string[]): boolean {
+    return a.length === b.length && a.every((column, index) => column.toLowerCase() === b[index]!.toLowerCase());
+  }
+
+  private static isWord(token: SqlToken | undefined, ...words: string[]): boolean {
+    return token?.type === 'word' && words.includes(token.value.toUpperCase());
+  }
+}
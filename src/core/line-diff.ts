@@ -0,0 +1,37 @@
+/**
+ * Line-based diff using the longest common subsequence. Lines are prefixed with `-` (removed), `+` (added) or
+ * a space (unchanged), in the order they read in a unified diff.
+ */
+export class LineDiff {
+  static diff(before: string, after: string): string[] {
+    const a = before.split('\n');
+    const b = after.split('\n');
+
+    // lengths[i][j] is the LCS length of a[i..] and b[j..]
+    const lengths: number[][] = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+    for (let i = a.length - 1; i >= 0; i--) {
+      for (let j = b.length - 1; j >= 0; j--) {
+        lengths[i]![j] = a[i] === b[j]
+          ? lengths[i + 1]![j + 1]! + 1
+          : Math.max(lengths[i + 1]![j]!, lengths[i]![j + 1]!);
+      }
+    }
+
+    const lines: string[] = [];
+    let i = 0;
+    let j = 0;
+    while (i < a.length && j < b.length) {
+      if (a[i] === b[j]) {
+        lines.push(` ${a[i++]}`);
+        j++;
+      } else if (lengths[i + 1]![j]! >= lengths[i]![j + 1]!) {
+        lines.push(`-${a[i++]}`);
+      } else {
+        lines.push(`+${b[j++]}`);
+      }
+    }
+    while (i < a.length) lines.push(`-${a[i++]}`);
+    while (j < b.length) lines.push(`+${b[j++]}`);
+    return lines;
+  }
+}
@@ -0,0 +1,133 @@
+import yaml from 'js-yaml';
+import { Migration } from '../types/schema.js';
+import { SqlClassifier, SqlDialect } from './sql-classifier.js';
+
+export type MigrationFileFormat = 'flyway' | 'liquibase' | 'prisma' | 'knex' | 'golang-migrate';
+
+export const MIGRATION_FILE_FORMATS: MigrationFileFormat[] = ['flyway', 'liquibase', 'prisma', 'knex', 'golang-migrate'];
+
+export interface MigrationFile {
+  /** Path relative to the migrations directory */
+  path: string;
+  content: string;
+}
+
+/**
+ * Renders a Migration as the up/down files a migration tool expects, named by that tool's conventions. Versions
+ * are the migration's UTC timestamp (yyyyMMddHHmmss), except golang-migrate, which numbers files in sequence.
+ */
+export class MigrationFileRenderer {
+  static render(migration: Migration, format: MigrationFileFormat, dialect: SqlDialect, sequence: number = 1): MigrationFile[] {
+    const version = this.version(migration.timestamp);
+    const name = this.slug(migration.name);
+
+    switch (format) {
+      case 'flyway':
+        // Undo (U) migrations are run by `flyway undo`
+        return [
+          { path: `V${version}__${name}.sql`, content: this.sqlFile(migration, 'up') },
+          { path: `U${version}__${name}.sql`, content: this.sqlFile(migration, 'down') },
+        ];
+      case 'liquibase':
+        return [{ path: `db.changelog-${version}_${name}.yaml`, content: this.liquibaseChangelog(migration, version) }];
+      case 'prisma':
+        // Prisma Migrate has no down migrations; down.sql is run with `prisma db execute`
+        return [
+          { path: `${version}_${name}/migration.sql`, content: this.sqlFile(migration, 'up') },
+          { path: `${version}_${name}/down.sql`, content: this.sqlFile(migration, 'down') },
+        ];
+      case 'knex':
+        return [{ path: `${version}_${name}.js`, content: this.knexFile(migration, dialect) }];
+      case 'golang-migrate': {
+        const prefix = String(sequence).padStart(6, '0');
+        return [
+          { path: `${prefix}_${name}.up.sql`, content: this.sqlFile(migration, 'up') },
+          { path: `${prefix}_${name}.down.sql`, content: this.sqlFile(migration, 'down') },
+        ];
+      }
+      default:
+        throw new Error(`Unsupported migration file format: ${format}`);
+    }
+  }
+
+  /**
+   * Steps in the order a direction runs them, with the SQL for that direction.
+   */
+  private static stepsFor(migration: Migration, direction: 'up' | 'down'): Array<{ sql: string; description: string }> {
+    return direction === 'up'
+      ? migration.steps.map(step => ({ sql: step.sql, description: step.description }))
+      : [...migration.steps].reverse().map(step => ({ sql: step.rollbackSql, description: `Undo: ${step.description}` }));
+  }
+
+  private static sqlFile(migration: Migration, direction: 'up' | 'down'): string {
+    const header = `-- ${migration.name}: ${migration.description}${direction === 'down' ? ' (rollback)' : ''}\n`;
+    const steps = this.stepsFor(migration, direction).map(({ sql, description }) => `-- ${description}\n${sql}\n`);
+    return [header, ...steps].join('\n');
+  }
+
+  private static liquibaseChangelog(migration: Migration, version: string): string {
+    const changeSets = migration.steps.map((step, index) => ({
+      changeSet: {
+        id: `${version}-${index + 1}`,
+        author: 'pinemcp',
+        comment: step.description,
+        changes: [{ sql: { sql: step.sql } }],
+        // An empty rollback tells Liquibase the change has nothing to undo
+        rollback: step.rollbackSql ? [{ sql: { sql: step.rollbackSql } }] : [],
+      },
+    }));
+    return yaml.dump({ databaseChangeLog: changeSets }, { noRefs: true, lineWidth: -1 });
+  }
+
+  /**
+   * Knex migration with one knex.raw call per statement, since not every driver runs several statements at once.
+   */
+  private static knexFile(migration: Migration, dialect: SqlDialect): string {
+    const body = (direction: 'up' | 'down') => this.stepsFor(migration, direction)
+      .map(({ sql, description }) => [
+        `  // ${description}`,
+        ...SqlClassifier.split(sql, dialect).map(statement => `  await knex.raw(\`${this.templateLiteral(statement)}\`);`),
+      ].join('\n'))
+      .join('\n\n');
+
+    return [
+      `/**`,
+      ` * ${migration.name}: ${migration.description}`,
+      ` */`,
+      ``,
+      `/**`,
+      ` * @param { import("knex").Knex } knex`,
+      ` * @returns { Promise<void> }`,
+      ` */`,
+      `exports.up = async function (knex) {`,
+      body('up'),
+      `};`,
+      ``,
+      `/**`,
+      ` * @param { import("knex").Knex } knex`,
+      ` * @returns { Promise<void> }`,
+      ` */`,
+      `exports.down = async function (knex) {`,
+      body('down'),
+      `};`,
+      ``,
+    ].join('\n');
+  }
+
+  /**
+   * Escape a statement for a template literal; knex.raw reads `?` as a binding unless it is escaped as `\\?`.
+   */
+  private static templateLiteral(text: string): string {
+    return text.replace(/\\/g, '\\\\').replace(/`/g, '\\`').replace(/\$\{/g, '\\${').replace(/\?/g, '\\\\?');
+  }
+
+  private static version(timestamp: string): string {
+    const date = new Date(timestamp);
+    const time = Number.isNaN(date.getTime()) ? new Date() : date;
+    return time.toISOString().replace(/\D/g, '').slice(0, 14);
+  }
+
+  private static slug(name: string): string {
+    return name.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '') || 'migration';
+  }
+}
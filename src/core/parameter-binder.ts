@@ -0,0 +1,123 @@
+import { QueryParameters } from '../types/database.js';
+import { SqlClassifier, SqlDialect, SqlToken } from './sql-classifier.js';
+
+const PARAMETER_NAME = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+export interface BoundQuery {
+  query: string;
+  parameters: unknown[] | undefined;
+}
+
+interface Placeholder {
+  start: number;
+  end: number;
+  name: string;
+}
+
+/**
+ * Rewrites portable placeholders to the driver's native style: `?` with a positional array, or `:name` with
+ * an object of named values, become `$1` (PostgreSQL), `@param0` (MSSQL) or `?` (MySQL, SQLite, Cassandra).
+ * Queries already written with native placeholders are passed through unchanged.
+ */
+export class ParameterBinder {
+  static bind(query: string, parameters: QueryParameters | undefined, dialect: SqlDialect): BoundQuery {
+    if (parameters === undefined || parameters === null) {
+      return { query, parameters: undefined };
+    }
+    if (Array.isArray(parameters)) {
+      return this.bindPositional(query, parameters, dialect);
+    }
+    if (typeof parameters !== 'object') {
+      throw new Error('Parameters must be an array of positional values or an object of named values');
+    }
+    return this.bindNamed(query, parameters, dialect);
+  }
+
+  private static bindPositional(query: string, parameters: unknown[], dialect: SqlDialect): BoundQuery {
+    if (parameters.length === 0 || (dialect !== 'postgresql' && dialect !== 'mssql')) {
+      return { query, parameters };
+    }
+
+    const tokens = SqlClassifier.tokenize(query, dialect);
+    if (this.hasNativePlaceholders(tokens, dialect)) {
+      return { query, parameters };
+    }
+
+    const marks = tokens.filter(token => token.type === 'symbol' && token.value === '?');
+    if (marks.length !== parameters.length) {
+      throw new Error(`Query has ${marks.length} placeholders but ${parameters.length} parameters were given`);
+    }
+    return {
+      query: this.replace(query, marks.map((mark, index) => ({ ...mark, replacement: this.nativePlaceholder(dialect, index) }))),
+      parameters,
+    };
+  }
+
+  private static bindNamed(query: string, parameters: Record<string, unknown>, dialect: SqlDialect): BoundQuery {
+    const placeholders = this.namedPlaceholders(SqlClassifier.tokenize(query, dialect));
+    const used = new Set(placeholders.map(placeholder => placeholder.name));
+
+    for (const placeholder of placeholders) {
+      if (!Object.prototype.hasOwnProperty.call(parameters, placeholder.name)) {
+        throw new Error(`Missing value for named parameter :${placeholder.name}`);
+      }
+    }
+    for (const name of Object.keys(parameters)) {
+      if (!used.has(name)) {
+        throw new Error(`Named parameter :${name} does not appear in the query`);
+      }
+    }
+
+    // PostgreSQL and MSSQL placeholders can be referenced repeatedly; `?` takes one value per occurrence
+    if (dialect === 'postgresql' || dialect === 'mssql') {
+      const names = [...used];
+      return {
+        query: this.replace(query, placeholders.map(placeholder => ({
+          ...placeholder,
+          replacement: this.nativePlaceholder(dialect, names.indexOf(placeholder.name)),
+        }))),
+        parameters: names.map(name => parameters[name]),
+      };
+    }
+    return {
+      query: this.replace(query, placeholders.map(placeholder => ({ ...placeholder, replacement: '?' }))),
+      parameters: placeholders.map(placeholder => parameters[placeholder.name]),
+    };
+  }
+
+  /**
+   * `:name` outside strings, comments and quoted identifiers; `::` casts are a single token and never match.
+   */
+  private static namedPlaceholders(tokens: SqlToken[]): Placeholder[] {
+    const placeholders: Placeholder[] = [];
+    tokens.forEach((token, index) => {
+      const next = tokens[index + 1];
+      if (token.type === 'symbol' && token.value === ':' && next?.type === 'word' && next.start === token.end && PARAMETER_NAME.test(next.value)) {
+        placeholders.push({ start: token.start, end: next.end, name: next.value });
+      }
+    });
+    return placeholders;
+  }
+
+  private static hasNativePlaceholders(tokens: SqlToken[], dialect: SqlDialect): boolean {
+    if (dialect === 'mssql') {
+      return tokens.some(token => token.type === 'word' && /^@param\d+$/i.test(token.value));
+    }
+    return tokens.some((token, index) => {
+      const next = tokens[index + 1];
+      return token.type === 'symbol' && token.value === '$' && next?.type === 'number' && next.start === token.end;
+    });
+  }
+
+  private static nativePlaceholder(dialect: SqlDialect, index: number): string {
+    return dialect === 'mssql' ? `@param${index}` : `$${index + 1}`;
+  }
+
+  private static replace(query: string, replacements: Array<{ start: number; end: number; replacement: string }>): string {
+    let result = query;
+    for (const { start, end, replacement } of [...replacements].sort((a, b) => b.start - a.start)) {
+      result = result.slice(0, start) + replacement + result.slice(end);
+    }
+    return result;
+  }
+}
@@ -0,0 +1,355 @@
+import { ExecutionPlan, PlanNode, PlanNodeKind } from '../types/database.js';
+
+type Json = Record<string, any>;
+
+interface XmlElement {
+  name: string;
+  attributes: Record<string, string>;
+  children: XmlElement[];
+}
+
+const POSTGRESQL_KINDS: Record<string, PlanNodeKind> = {
+  'Seq Scan': 'full_scan',
+  'Index Scan': 'index_scan',
+  'Index Only Scan': 'index_scan',
+  'Bitmap Index Scan': 'index_scan',
+  'Bitmap Heap Scan': 'index_scan',
+  'Nested Loop': 'join',
+  'Hash Join': 'join',
+  'Merge Join': 'join',
+  'Sort': 'sort',
+  'Incremental Sort': 'sort',
+  'Aggregate': 'aggregate',
+  'HashAggregate': 'aggregate',
+  'GroupAggregate': 'aggregate',
+};
+
+const MYSQL_ACCESS_TYPES: Record<string, { operation: string; kind: PlanNodeKind }> = {
+  ALL: { operation: 'Full Table Scan', kind: 'full_scan' },
+  index: { operation: 'Full Index Scan', kind: 'index_scan' },
+  range: { operation: 'Index Range Scan', kind: 'index_scan' },
+};
+
+const MSSQL_KINDS: Record<string, PlanNodeKind> = {
+  'Table Scan': 'full_scan',
+  'Clustered Index Scan': 'full_scan',
+  'Index Scan': 'index_scan',
+  'Index Seek': 'index_scan',
+  'Clustered Index Seek': 'index_scan',
+  'Key Lookup': 'index_scan',
+  'RID Lookup': 'index_scan',
+  'Nested Loops': 'join',
+  'Merge Join': 'join',
+  'Adaptive Join': 'join',
+  'Sort': 'sort',
+  'Top N Sort': 'sort',
+  'Stream Aggregate': 'aggregate',
+};
+
+const MONGODB_KINDS: Record<string, PlanNodeKind> = {
+  COLLSCAN: 'full_scan',
+  IXSCAN: 'index_scan',
+  EXPRESS_IXSCAN: 'index_scan',
+  IDHACK: 'index_scan',
+  EXPRESS_IDHACK: 'index_scan',
+  SORT: 'sort',
+  GROUP: 'aggregate',
+  $sort: 'sort',
+  $group: 'aggregate',
+  $lookup: 'join',
+};
+
+/**
+ * Turns each engine's EXPLAIN output into a common PlanNode tree: PostgreSQL `EXPLAIN (FORMAT JSON)`, MySQL
+ * `EXPLAIN FORMAT=JSON`, SQLite `EXPLAIN QUERY PLAN` rows, SQL Server showplan XML and MongoDB `explain()`.
+ */
+export class PlanNormalizer {
+  static postgresql(raw: unknown): ExecutionPlan {
+    const plans = (typeof raw === 'string' ? JSON.parse(raw) : raw) as Json[];
+    const top = plans[0]?.Plan as Json | undefined;
+    if (!top) {
+      throw new Error('Unrecognized PostgreSQL plan');
+    }
+
+    const node = (plan: Json): PlanNode => {
+      const loops = typeof plan['Actual Loops'] === 'number' ? plan['Actual Loops'] : 1;
+      return {
+        operation: plan['Node Type'],
+        kind: POSTGRESQL_KINDS[plan['Node Type']] ?? 'other',
+        relation: plan['Relation Name'],
+        index: plan['Index Name'],
+        estimatedRows: plan['Plan Rows'],
+        actualRows: typeof plan['Actual Rows'] === 'number' ? plan['Actual Rows'] * loops : undefined,
+        cost: plan['Total Cost'],
+        actualTimeMs: plan['Actual Total Time'],
+        detail: plan['Index Cond'] ?? plan['Filter'] ?? plan['Hash Cond'] ?? plan['Merge Cond'] ?? plan['Join Filter']
+          ?? (Array.isArray(plan['Sort Key']) ? plan['Sort Key'].join(', ') : plan['Group Key']?.join?.(', ')),
+        children: (plan.Plans ?? []).map(node),
+      };
+    };
+
+    return { database: 'postgresql', analyzed: 'Actual Rows' in top, root: node(top), raw: plans };
+  }
+
+  static mysql(raw: unknown): ExecutionPlan {
+    const plan = (typeof raw === 'string' ? JSON.parse(raw) : raw) as Json;
+    if (!plan?.query_block) {
+      throw new Error('Unrecognized MySQL plan');
+    }
+    return { database: 'mysql', analyzed: false, root: this.mysqlBlock(plan.query_block), raw: plan };
+  }
+
+  private static mysqlBlock(block: Json): PlanNode {
+    return {
+      operation: 'Query Block',
+      kind: 'other',
+      cost: this.number(block.cost_info?.query_cost),
+      children: this.mysqlChildren(block),
+    };
+  }
+
+  private static mysqlChildren(operation: Json): PlanNode[] {
+    const children: PlanNode[] = [];
+    if (operation.table) {
+      children.push(this.mysqlTable(operation.table));
+    }
+    if (Array.isArray(operation.nested_loop)) {
+      children.push({ operation: 'Nested Loop', kind: 'join', children: operation.nested_loop.flatMap((item: Json) => this.mysqlChildren(item)) });
+    }
+    if (operation.ordering_operation) {
+      const filesort = operation.ordering_operation.using_filesort === true;
+      children.push({ operation: filesort ? 'Filesort' : 'Ordering', kind: filesort ? 'sort' : 'other', children: this.mysqlChildren(operation.ordering_operation) });
+    }
+    if (operation.grouping_operation) {
+      children.push({ operation: 'Group', kind: 'aggregate', children: this.mysqlChildren(operation.grouping_operation) });
+    }
+    if (operation.duplicates_removal) {
+      children.push({ operation: 'Distinct', kind: 'aggregate', children: this.mysqlChildren(operation.duplicates_removal) });
+    }
+    if (operation.windowing) {
+      children.push({ operation: 'Window', kind: 'other', children: this.mysqlChildren(operation.windowing) });
+    }
+    if (operation.union_result) {
+      const specs: Json[] = operation.union_result.query_specifications ?? [];
+      children.push({ operation: 'Union', kind: 'other', children: specs.map(spec => this.mysqlBlock(spec.query_block)) });
+    }
+    for (const key of ['attached_subqueries', 'optimized_away_subqueries']) {
+      for (const subquery of (operation[key] ?? []) as Json[]) {
+        if (subquery.query_block) children.push(this.mysqlBlock(subquery.query_block));
+      }
+    }
+    return children;
+  }
+
+  private static mysqlTable(table: Json): PlanNode {
+    const access = MYSQL_ACCESS_TYPES[table.access_type] ?? { operation: table.access_type ? 'Index Lookup' : 'Table', kind: table.access_type ? 'index_scan' : 'other' };
+    const subquery = table.materialized_from_subquery?.query_block;
+    return {
+      operation: access.operation,
+      kind: access.kind,
+      relation: table.table_name,
+      index: table.key,
+      estimatedRows: this.number(table.rows_produced_per_join),
+      rowsExamined: this.number(table.rows_examined_per_scan),
+      cost: this.number(table.cost_info?.prefix_cost),
+      detail: table.attached_condition,
+      children: subquery ? [this.mysqlBlock(subquery)] : [],
+    };
+  }
+
+  static sqlite(rows: Array<Record<string, unknown>>): ExecutionPlan {
+    const root: PlanNode = { operation: 'Query Plan', kind: 'other', children: [] };
+    const nodes = new Map<number, PlanNode>();
+
+    for (const row of rows) {
+      const detail = String(row.detail ?? '');
+      const node = this.sqliteNode(detail);
+      nodes.set(Number(row.id), node);
+      (nodes.get(Number(row.parent)) ?? root).children.push(node);
+    }
+    return { database: 'sqlite', analyzed: false, root, raw: rows };
+  }
+
+  private static sqliteNode(detail: string): PlanNode {
+    const access = /^(SCAN|SEARCH)\s+(?:TABLE\s+)?(\S+)(?:\s+AS\s+\S+)?(?:\s+USING\s+(?:COVERING\s+)?INDEX\s+(\S+)|\s+USING\s+(?:INTEGER\s+)?PRIMARY\s+KEY)?/i.exec(detail);
+    if (access && !/^(CONSTANT|SUBQUERY)$/i.test(access[2]!)) {
+      const usesIndex = access[1]!.toUpperCase() === 'SEARCH' || /\bUSING\b/i.test(detail);
+      return {
+        operation: access[1]!.toUpperCase(),
+        kind: usesIndex ? 'index_scan' : 'full_scan',
+        relation: access[2],
+        index: access[3],
+        detail: /\(([^()]*)\)$/.exec(detail)?.[1],
+        children: [],
+      };
+    }
+
+    const temp = /^USE TEMP B-TREE FOR (.+)$/i.exec(detail);
+    if (temp) {
+      return { operation: 'USE TEMP B-TREE', kind: /ORDER BY/i.test(temp[1]!) ? 'sort' : 'aggregate', detail, children: [] };
+    }
+    return { operation: detail, kind: 'other', children: [] };
+  }
+
+  static mssql(xmlPlans: string[]): ExecutionPlan {
+    const statements = xmlPlans
+      .flatMap(xml => this.findAll(this.parseXml(xml), 'StmtSimple'))
+      .map(statement => {
+        const queryPlan = this.findAll(statement, 'QueryPlan')[0];
+        const top = queryPlan ? this.childRelOps(queryPlan) : [];
+        return {
+          operation: statement.attributes.StatementType ?? 'Statement',
+          kind: 'other' as const,
+          estimatedRows: this.number(statement.attributes.StatementEstRows),
+          cost: this.number(statement.attributes.StatementSubTreeCost),
+          detail: statement.attributes.StatementText?.trim(),
+          children: top.map(relOp => this.mssqlNode(relOp)),
+        };
+      });
+
+    if (statements.length === 0) {
+      throw new Error('Unrecognized SQL Server plan');
+    }
+    const root = statements.length === 1 ? statements[0]! : { operation: 'Batch', kind: 'other' as const, children: statements };
+    const analyzed = xmlPlans.some(xml => xml.includes('<RunTimeCountersPerThread'));
+    return { database: 'mssql', analyzed, root, raw: xmlPlans };
+  }
+
+  private static mssqlNode(relOp: XmlElement): PlanNode {
+    const { PhysicalOp: physical = 'Unknown', LogicalOp: logical } = relOp.attributes;
+    let kind = MSSQL_KINDS[physical] ?? 'other';
+    if (physical === 'Hash Match') {
+      kind = /join|semi|anti/i.test(logical ?? '') ? 'join' : 'aggregate';
+    }
+
+    // Only look at this operator's own elements, not those of the operators nested under it
+    const own = this.ownElements(relOp);
+    const object = own.find(element => element.name === 'Object');
+    const counters = own.filter(element => element.name === 'RunTimeCountersPerThread');
+    const predicate = own.find(element => element.name === 'ScalarOperator' && element.attributes.ScalarString);
+
+    return {
+      operation: physical,
+      kind,
+      relation: object?.attributes.Table ? this.unbracket(object.attributes.Table) : undefined,
+      index: object?.attributes.Index ? this.unbracket(object.attributes.Index) : undefined,
+      estimatedRows: this.number(relOp.attributes.EstimateRows),
+      rowsExamined: this.number(relOp.attributes.EstimatedRowsRead ?? relOp.attributes.TableCardinality),
+      actualRows: counters.length > 0 ? counters.reduce((sum, counter) => sum + Number(counter.attributes.ActualRows ?? 0), 0) : undefined,
+      cost: this.number(relOp.attributes.EstimatedTotalSubtreeCost),
+      detail: predicate?.attributes.ScalarString ?? (logical !== physical ? logical : undefined),
+      children: this.childRelOps(relOp).map(child => this.mssqlNode(child)),
+    };
+  }
+
+  private static childRelOps(element: XmlElement): XmlElement[] {
+    return element.children.flatMap(child => (child.name === 'RelOp' ? [child] : this.childRelOps(child)));
+  }
+
+  private static ownElements(element: XmlElement): XmlElement[] {
+    return element.children.flatMap(child => (child.name === 'RelOp' ? [] : [child, ...this.ownElements(child)]));
+  }
+
+  static mongodb(raw: Json): ExecutionPlan {
+    const analyzed = JSON.stringify(raw).includes('"executionStats"');
+    if (Array.isArray(raw.stages)) {
+      const children = (raw.stages as Json[]).map(stage => {
+        const [name, body] = Object.entries(stage).find(([key]) => key.startsWith('$')) ?? ['stage', {}];
+        if (name === '$cursor') {
+          return this.mongoQuery(body as Json);
+        }
+        return {
+          operation: name,
+          kind: MONGODB_KINDS[name] ?? 'other',
+          actualRows: this.number(stage.nReturned),
+          actualTimeMs: this.number(stage.executionTimeMillisEstimate),
+          children: [],
+        };
+      });
+      return { database: 'mongodb', analyzed, root: { operation: 'Pipeline', kind: 'other', children }, raw };
+    }
+    return { database: 'mongodb', analyzed, root: this.mongoQuery(raw), raw };
+  }
+
+  private static mongoQuery(explain: Json): PlanNode {
+    const planner = explain.queryPlanner ?? {};
+    const namespace = planner.namespace as string | undefined;
+    const collection = namespace?.slice(namespace.indexOf('.') + 1);
+    // Execution stages carry actual counts; classic-engine stages share the winning plan's shape
+    const executed = explain.executionStats?.executionStages;
+    const winning = planner.winningPlan?.queryPlan ?? planner.winningPlan;
+    const stage = executed?.stage && !String(executed.stage).startsWith('sbe') ? executed : winning;
+    if (!stage) {
+      throw new Error('Unrecognized MongoDB plan');
+    }
+
+    const node = (current: Json): PlanNode => {
+      const inputs: Json[] = current.inputStage ? [current.inputStage] : (current.inputStages ?? []);
+      const name = String(current.stage);
+      const kind = MONGODB_KINDS[name] ?? 'other';
+      return {
+        operation: name,
+        kind,
+        relation: kind === 'full_scan' || kind === 'index_scan' ? collection : undefined,
+        index: current.indexName,
+        rowsExamined: this.number(current.docsExamined ?? current.keysExamined),
+        actualRows: this.number(current.nReturned),
+        actualTimeMs: this.number(current.executionTimeMillisEstimate),
+        detail: current.filter ? JSON.stringify(current.filter) : current.keyPattern ? JSON.stringify(current.keyPattern) : undefined,
+        children: inputs.map(node),
+      };
+    };
+    return node(stage);
+  }
+
+  /**
+   * Minimal XML reader for showplans: elements and attributes only, which is all a showplan uses.
+   */
+  private static parseXml(xml: string): XmlElement {
+    const root: XmlElement = { name: '#document', attributes: {}, children: [] };
+    const stack = [root];
+    const tag = /<(\/?)([A-Za-z_][\w:.-]*)((?:\s+[\w:.-]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>|<\?[\s\S]*?\?>|<!--[\s\S]*?-->/g;
+
+    for (let match = tag.exec(xml); match; match = tag.exec(xml)) {
+      const [, closing, name, attributeText, selfClosing] = match;
+      if (!name) continue;
+      if (closing) {
+        if (stack.length > 1) stack.pop();
+        continue;
+      }
+
+      const attributes: Record<string, string> = {};
+      for (const attribute of (attributeText ?? '').matchAll(/([\w:.-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g)) {
+        attributes[attribute[1]!] = this.decodeEntities(attribute[2] ?? attribute[3] ?? '');
+      }
+      const element: XmlElement = { name: name.replace(/^.*:/, ''), attributes, children: [] };
+      stack[stack.length - 1]!.children.push(element);
+      if (!selfClosing) stack.push(element);
+    }
+    return root;
+  }
+
+  private static findAll(element: XmlElement, name: string): XmlElement[] {
+    return element.children.flatMap(child => (child.name === name ? [child] : this.findAll(child, name)));
+  }
+
+  private static decodeEntities(value: string): string {
+    return value
+      .replace(/&lt;/g, '<')
+      .replace(/&gt;/g, '>')
+      .replace(/&quot;/g, '"')
+      .replace(/&apos;/g, '\'')
+      .replace(/&#(\d+);/g, (_match, code) => String.fromCharCode(Number(code)))
+      .replace(/&amp;/g, '&');
+  }
+
+  private static unbracket(name: string): string {
+    return name.replace(/^\[(.*)\]$/, '$1').replace(/\]\]/g, ']');
+  }
+
+  private static number(value: unknown): number | undefined {
+    if (value === undefined || value === null || value === '') return undefined;
+    const parsed = Number(value);
+    return Number.isFinite(parsed) ? parsed : undefined;
+  }
+}
@@ -0,0 +1,70 @@
+import { QueryPolicy, StatementCategory } from '../types/database.js';
+import { ClassifiedStatement, SqlClassifier, SqlDialect } from './sql-classifier.js';
+
+const ALL_CATEGORIES: StatementCategory[] = ['read', 'write', 'ddl', 'admin'];
+
+export interface QueryDenial {
+  code: 'category_not_allowed' | 'destructive_statement' | 'multiple_statements' | 'read_only';
+  reason: string;
+  statementIndex?: number;
+  statement?: string;
+  category?: StatementCategory;
+  allowed?: StatementCategory[];
+}
+
+/**
+ * Raised when a query is refused by a connection's query policy; `denial` is returned to the MCP client as-is.
+ */
+export class QueryPolicyError extends Error {
+  readonly denial: QueryDenial;
+
+  constructor(denial: QueryDenial) {
+    super(`Query denied: ${denial.reason}`);
+    this.name = 'QueryPolicyError';
+    this.denial = denial;
+  }
+}
+
+export class QueryPolicyEnforcer {
+  /**
+   * Classify every statement in the query and throw a QueryPolicyError for the first one the policy refuses.
+   * Defaults allow every category but block destructive statements.
+   */
+  static enforce(query: string, dialect: SqlDialect, policy: QueryPolicy = {}, readOnly: boolean = false): ClassifiedStatement[] {
+    const statements = SqlClassifier.classify(query, dialect);
+    const allowed = readOnly ? ['read' as const] : policy.allow || ALL_CATEGORIES;
+    const blockDestructive = policy.blockDestructive !== false;
+
+    if (statements.length > 1 && policy.allowMultipleStatements === false) {
+      throw new QueryPolicyError({
+        code: 'multiple_statements',
+        reason: `Query contains ${statements.length} statements; this connection accepts one statement per call`,
+      });
+    }
+
+    statements.forEach((statement, statementIndex) => {
+      const details = { statementIndex, statement: statement.text, category: statement.category };
+
+      if (!allowed.includes(statement.category)) {
+        throw new QueryPolicyError({
+          code: readOnly ? 'read_only' : 'category_not_allowed',
+          reason: readOnly
+            ? `${statement.keyword} is a ${statement.category} statement and the connection is read-only`
+            : `${statement.keyword} is a ${statement.category} statement, which this connection does not allow`,
+          ...details,
+          allowed,
+        });
+      }
+
+      if (blockDestructive && statement.destructive) {
+        throw new QueryPolicyError({
+          code: 'destructive_statement',
+          reason: `${statement.reason}; set queryPolicy.blockDestructive to false to allow it`,
+          ...details,
+        });
+      }
+    });
+
+    return statements;
+  }
+}
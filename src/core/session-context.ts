@@ -0,0 +1,28 @@
+import { AsyncLocalStorage } from 'async_hooks';
+
+export interface SessionState {
+  id: string;
+  /** Connection selected with switch_connection in this session; null follows the server default */
+  currentConnection: string | null;
+}
+
+/**
+ * Tracks which MCP session a request belongs to, so per-session state (the current connection, open
+ * transactions) follows the request through services and adapters without being passed explicitly.
+ * Outside a session (stdio) the process-wide state applies.
+ */
+export class SessionContext {
+  private static storage = new AsyncLocalStorage<SessionState>();
+
+  static create(id: string): SessionState {
+    return { id, currentConnection: null };
+  }
+
+  static run<T>(session: SessionState | undefined, callback: () => T): T {
+    return session ? this.storage.run(session, callback) : callback();
+  }
+
+  static current(): SessionState | undefined {
+    return this.storage.getStore();
+  }
+}
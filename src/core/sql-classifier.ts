@@ -0,0 +1,786 @@
+import { StatementCategory } from '../types/database.js';
+
+export type SqlDialect = 'postgresql' | 'mysql' | 'sqlite' | 'mssql' | 'cassandra';
+
+export interface SqlToken {
+  type: 'word' | 'string' | 'identifier' | 'number' | 'symbol' | 'separator';
+  value: string;
+  start: number;
+  end: number;
+}
+
+export interface ClassifiedStatement {
+  text: string;
+  keyword: string;
+  category: StatementCategory;
+  destructive: boolean;
+  reason?: string | undefined;
+}
+
+interface Classification {
+  category: StatementCategory;
+  destructive: boolean;
+  reason?: string | undefined;
+}
+
+const CATEGORY_RANK: Record<StatementCategory, number> = { read: 0, write: 1, ddl: 2, admin: 3 };
+
+const READ_KEYWORDS = new Set(['SELECT', 'SHOW', 'DESCRIBE', 'DESC', 'VALUES', 'TABLE', 'LIST', 'FETCH', 'CLOSE']);
+const WRITE_KEYWORDS = new Set(['INSERT', 'UPDATE', 'DELETE', 'MERGE', 'REPLACE', 'UPSERT', 'CALL', 'EXEC', 'EXECUTE', 'LOAD', 'APPLY', 'REFRESH']);
+const DDL_KEYWORDS = new Set(['CREATE', 'ALTER', 'DROP', 'TRUNCATE', 'RENAME', 'COMMENT']);
+const TRANSACTION_WORDS = new Set(['TRAN', 'TRANSACTION', 'WORK', 'DISTRIBUTED', 'ISOLATION', 'READ', 'DEFERRED', 'IMMEDIATE', 'EXCLUSIVE']);
+const BATCH_WORDS = new Set(['BATCH', 'UNLOGGED', 'COUNTER']);
+// Objects whose definition can carry a BEGIN ... END body with separators inside
+const ROUTINE_KEYWORDS = new Set(['TRIGGER', 'PROCEDURE', 'PROC', 'FUNCTION', 'EVENT']);
+// Keywords that can start the statement an EXPLAIN ANALYZE or a procedural block executes
+const STATEMENT_KEYWORDS = new Set([...READ_KEYWORDS, ...WRITE_KEYWORDS, ...DDL_KEYWORDS, 'WITH', 'GRANT', 'REVOKE']);
+// Functions that change server state when called from an otherwise read-only SELECT
+const WRITE_FUNCTIONS = new Set(['NEXTVAL', 'SETVAL', 'LO_UNLINK']);
+const ADMIN_FUNCTIONS = new Set([
+  'PG_TERMINATE_BACKEND', 'PG_CANCEL_BACKEND', 'PG_RELOAD_CONF', 'PG_READ_FILE', 'PG_READ_BINARY_FILE',
+  'PG_LS_DIR', 'LO_IMPORT', 'LO_EXPORT', 'SET_CONFIG', 'DBLINK_EXEC', 'LOAD_FILE', 'LOAD_EXTENSION',
+]);
+const WHERE_TERMINATORS = new Set(['RETURNING', 'ORDER', 'LIMIT', 'OPTION', 'GROUP', 'HAVING', 'IF']);
+// Keywords followed by a table name, and words that may sit between them and the name
+const TABLE_KEYWORDS = new Set(['FROM', 'JOIN', 'INTO', 'UPDATE', 'TABLE', 'TRUNCATE']);
+const TABLE_PREFIX_WORDS = new Set(['ONLY', 'LATERAL', 'IF', 'NOT', 'EXISTS', 'TABLE']);
+// Words that end a table reference instead of being its alias
+const CLAUSE_WORDS = new Set([
+  'WHERE', 'JOIN', 'INNER', 'LEFT', 'RIGHT', 'FULL', 'CROSS', 'NATURAL', 'OUTER', 'ON', 'USING', 'SET', 'VALUES',
+  'SELECT', 'ORDER', 'GROUP', 'LIMIT', 'HAVING', 'UNION', 'EXCEPT', 'INTERSECT', 'WINDOW', 'RETURNING', 'DEFAULT',
+  'OFFSET', 'FETCH', 'FOR', 'WITH', 'OUTPUT', 'ALLOW', 'CASCADE', 'RESTRICT', 'ADD', 'ALTER', 'DROP', 'RENAME',
+]);
+// Functions whose argument syntax uses FROM without naming a table
+const FROM_FUNCTIONS = new Set(['EXTRACT', 'SUBSTRING', 'TRIM', 'OVERLAY', 'POSITION']);
+// Words that start a subquery rather than a join group inside a FROM item's parentheses
+const SUBQUERY_WORDS = new Set(['SELECT', 'WITH', 'VALUES', 'TABLE']);
+// Words after which commas no longer separate FROM items
+const FROM_LIST_END_WORDS = new Set([
+  'WHERE', 'GROUP', 'HAVING', 'ORDER', 'LIMIT', 'OFFSET', 'FETCH', 'UNION', 'EXCEPT', 'INTERSECT', 'WINDOW',
+  'RETURNING', 'FOR', 'SET', 'UPDATE', 'OUTPUT', 'INTO', 'OPTION',
+]);
+
+/**
+ * Dialect-aware SQL/CQL tokenizer and statement classifier. Comments are discarded and string
+ * literals and quoted identifiers become single tokens, so keywords cannot hide in or behind them.
+ */
+export class SqlClassifier {
+  static dialectFor(type: string): SqlDialect | null {
+    switch (type) {
+      case 'postgresql':
+      case 'mysql':
+      case 'sqlite':
+      case 'mssql':
+      case 'cassandra':
+        return type;
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * Split a query into statements and classify each one as read, write, ddl or admin.
+   */
+  static classify(sql: string, dialect: SqlDialect): ClassifiedStatement[] {
+    return this.splitTokens(this.tokenize(sql, dialect)).map(tokens => {
+      const first = tokens[0]!;
+      const last = tokens[tokens.length - 1]!;
+      return {
+        text: sql.slice(first.start, last.end),
+        keyword: first.value.toUpperCase(),
+        ...this.classifyTokens(tokens, dialect),
+      };
+    });
+  }
+
+  /**
+   * Split a query into statement texts without comments-only or empty statements.
+   */
+  static split(sql: string, dialect: SqlDialect): string[] {
+    return this.classify(sql, dialect).map(statement => statement.text);
+  }
+
+  /**
+   * Names of the tables a query reads or writes, as written (`schema.table` when qualified, quotes removed).
+   * CTE names, subqueries and table functions are not included.
+   */
+  static referencedTables(sql: string, dialect: SqlDialect): string[] {
+    return this.scanTableReferences(sql, dialect).tables;
+  }
+
+  /**
+   * FROM/JOIN targets that are neither a table, a subquery nor a table function (e.g. a bind parameter), so
+   * referencedTables cannot say what they read.
+   */
+  static unresolvedTableReferences(sql: string, dialect: SqlDialect): string[] {
+    return this.scanTableReferences(sql, dialect).unresolved;
+  }
+
+  private static scanTableReferences(sql: string, dialect: SqlDialect): { tables: string[]; unresolved: string[] } {
+    const tokens = this.tokenize(sql, dialect);
+    const cteNames = new Set<string>();
+    const tables = new Set<string>();
+    const unresolved: string[] = [];
+    const functionDepths: number[] = [];
+    // Depths whose commas separate FROM items, and '(' positions that start a FROM item
+    const fromLists = new Set<number>();
+    const itemParens = new Set<number>();
+    let depth = 0;
+
+    // A FROM item is a table, a table function, a subquery or a parenthesized join group
+    const readItem = (start: number) => {
+      let position = start;
+      while (tokens[position] && this.isWord(tokens[position]!, ...TABLE_PREFIX_WORDS)) position++;
+      const target = tokens[position];
+      if (!target) return;
+      if (target.value === '(') {
+        itemParens.add(position);
+        return;
+      }
+      const name = this.readQualifiedName(tokens, position);
+      if (!name) {
+        unresolved.push(target.value);
+      } else if (tokens[name.next]?.value !== '(' && !name.value.startsWith('@')) {
+        tables.add(name.value);
+      }
+    };
+
+    for (let index = 0; index < tokens.length; index++) {
+      const token = tokens[index]!;
+      if (token.value === '(') {
+        depth++;
+        const previous = tokens[index - 1];
+        if (previous && this.isWord(previous, ...FROM_FUNCTIONS)) functionDepths.push(depth);
+        if (itemParens.has(index) && !this.isWord(tokens[index + 1] || token, ...SUBQUERY_WORDS)) {
+          fromLists.add(depth);
+          readItem(index + 1);
+        }
+        continue;
+      }
+      if (token.value === ')') {
+        if (functionDepths[functionDepths.length - 1] === depth) functionDepths.pop();
+        fromLists.delete(depth);
+        depth--;
+        if (this.isWord(tokens[index + 1] || token, 'AS') && tokens[index + 2]?.value === '(') {
+          // CTE with a column list: name (a, b) AS (...)
+          const open = this.openingParen(tokens, index);
+          const name = tokens[open - 1];
+          if (name) cteNames.add(this.unquote(name.value).toLowerCase());
+        }
+        continue;
+      }
+      if (token.value === ',') {
+        if (fromLists.has(depth)) readItem(index + 1);
+        continue;
+      }
+      if (token.value === ';') {
+        fromLists.clear();
+        continue;
+      }
+      if ((token.type === 'word' || token.type === 'identifier') && this.isWord(tokens[index + 1] || token, 'AS') && tokens[index + 2]?.value === '(') {
+        cteNames.add(this.unquote(token.value).toLowerCase());
+        continue;
+      }
+      if (token.type !== 'word') continue;
+      const keyword = token.value.toUpperCase();
+      if (FROM_LIST_END_WORDS.has(keyword)) fromLists.delete(depth);
+      if (!TABLE_KEYWORDS.has(keyword)) continue;
+
+      if (keyword === 'FROM' || keyword === 'JOIN') {
+        // FROM inside EXTRACT(... FROM ...) and friends, or in IS [NOT] DISTINCT FROM, names no table
+        if (keyword === 'FROM' && (functionDepths[functionDepths.length - 1] === depth || this.isWord(tokens[index - 1] || token, 'DISTINCT'))) continue;
+        if (keyword === 'FROM') fromLists.add(depth);
+        readItem(index + 1);
+        continue;
+      }
+
+      let position = index + 1;
+      while (position < tokens.length) {
+        while (tokens[position] && this.isWord(tokens[position]!, ...TABLE_PREFIX_WORDS)) position++;
+        const name = this.readQualifiedName(tokens, position);
+        if (!name) break;
+        position = name.next;
+        // A '(' after INTO/TABLE is a column list
+        if (!name.value.startsWith('@')) tables.add(name.value);
+
+        if (this.isWord(tokens[position] || token, 'AS')) position += 2;
+        else if (tokens[position] && ['word', 'identifier'].includes(tokens[position]!.type) && !CLAUSE_WORDS.has(tokens[position]!.value.toUpperCase())) position++;
+
+        if (tokens[position]?.value !== ',' || !['TABLE', 'TRUNCATE'].includes(keyword)) break;
+        position++;
+      }
+    }
+
+    return { tables: [...tables].filter(table => !cteNames.has(table.toLowerCase())), unresolved };
+  }
+
+  /**
+   * Tables, aliases and CTEs the query reads as whole rows rather than column by column: used as a value
+   * (`row_to_json(u)`, `SELECT u FROM users u`), expanded inside a call (`ROW(u.*)`), or serialized with
+   * SQL Server's `FOR JSON` / `FOR XML` (reported as `*`).
+   */
+  static wholeRowReferences(sql: string, dialect: SqlDialect): string[] {
+    const tokens = this.tokenize(sql, dialect);
+    const names = new Set<string>();
+    // Positions that declare a name (FROM items, aliases, CTEs) rather than use it
+    const declarations = new Set<number>();
+    const isName = (token: SqlToken | undefined) => !!token && (token.type === 'word' || token.type === 'identifier');
+    const declare = (index: number) => {
+      declarations.add(index);
+      names.add(this.unquote(tokens[index]!.value).toLowerCase());
+    };
+
+    const parens: boolean[] = [];
+    for (let index = 0; index < tokens.length; index++) {
+      const token = tokens[index]!;
+      if (token.value === '(' || token.value === ')') {
+        if (token.value === '(') parens.push(!!tokens[index - 1] && this.isWord(tokens[index - 1]!, ...FROM_FUNCTIONS));
+        else parens.pop();
+        continue;
+      }
+      if (isName(token) && this.isWord(tokens[index + 1] || token, 'AS') && tokens[index + 2]?.value === '(') {
+        declare(index);
+        continue;
+      }
+      if (token.type !== 'word' || !TABLE_KEYWORDS.has(token.value.toUpperCase())) continue;
+      if (this.isWord(token, 'FROM') && parens[parens.length - 1]) continue;
+
+      let position = index + 1;
+      while (position < tokens.length) {
+        while (tokens[position] && this.isWord(tokens[position]!, ...TABLE_PREFIX_WORDS)) position++;
+        if (tokens[position]?.value === '(') {
+          position = this.closingParen(tokens, position) + 1;
+        } else {
+          const name = this.readQualifiedName(tokens, position);
+          if (!name) break;
+          declare(name.next - 1);
+          for (let part = position; part < name.next; part++) declarations.add(part);
+          position = name.next;
+          if (tokens[position]?.value === '(') position = this.closingParen(tokens, position) + 1;
+        }
+
+        if (this.isWord(tokens[position] || token, 'AS')) position++;
+        if (isName(tokens[position]) && !CLAUSE_WORDS.has(tokens[position]!.value.toUpperCase())) declare(position++);
+
+        if (tokens[position]?.value !== ',' || token.value.toUpperCase() !== 'FROM') break;
+        position++;
+      }
+    }
+
+    const found = new Set<string>();
+    const calls: boolean[] = [];
+    for (let index = 0; index < tokens.length; index++) {
+      const token = tokens[index]!;
+      const previous = tokens[index - 1];
+      const next = tokens[index + 1];
+      if (token.value === '(') {
+        // A call, as opposed to a subquery or grouping; COUNT(t.*) counts rows without reading them
+        calls.push(isName(previous) && !STATEMENT_KEYWORDS.has(previous!.value.toUpperCase()) && !this.isWord(previous!, 'COUNT'));
+      } else if (token.value === ')') {
+        calls.pop();
+      } else if (token.value === '*' && previous?.value === '.' && calls.includes(true)) {
+        found.add(this.unquote(tokens[index - 2]?.value ?? '*').toLowerCase());
+      } else if (dialect === 'mssql' && this.isWord(token, 'FOR') && next && this.isWord(next, 'JSON', 'XML')) {
+        found.add('*');
+      } else if (isName(token) && !declarations.has(index) && names.has(this.unquote(token.value).toLowerCase())
+        && previous?.value !== '.' && next?.value !== '.' && next?.value !== '(' && !(previous && this.isWord(previous, 'AS'))) {
+        found.add(this.unquote(token.value).toLowerCase());
+      }
+    }
+    return [...found];
+  }
+
+  static tokenize(sql: string, dialect: SqlDialect): SqlToken[] {
+    const tokens: SqlToken[] = [];
+    const length = sql.length;
+    let index = 0;
+    let inExecutableComment = false;
+
+    const push = (type: SqlToken['type'], start: number, end: number, value: string = sql.slice(start, end)) => {
+      tokens.push({ type, value, start, end });
+    };
+
+    while (index < length) {
+      const char = sql[index]!;
+      const next = sql[index + 1];
+
+      if (/\s/.test(char)) {
+        index++;
+        continue;
+      }
+
+      // Line comments
+      if ((char === '-' && next === '-') || (char === '#' && dialect === 'mysql') || (char === '/' && next === '/' && dialect === 'cassandra')) {
+        const end = sql.indexOf('\n', index);
+        index = end === -1 ? length : end + 1;
+        continue;
+      }
+
+      // MySQL runs the body of /*! ... */ comments, so treat it as code
+      if (char === '/' && next === '*' && dialect === 'mysql' && sql[index + 2] === '!') {
+        index += 3;
+        while (index < length && /\d/.test(sql[index]!)) index++;
+        inExecutableComment = true;
+        continue;
+      }
+      if (char === '*' && next === '/' && inExecutableComment) {
+        index += 2;
+        inExecutableComment = false;
+        continue;
+      }
+
+      // Block comments (nested in PostgreSQL)
+      if (char === '/' && next === '*') {
+        index = this.skipBlockComment(sql, index, dialect === 'postgresql');
+        continue;
+      }
+
+      if (char === ';') {
+        push('separator', index, index + 1);
+        index++;
+        continue;
+      }
+
+      if (char === '\'') {
+        const backslashEscapes = dialect === 'mysql' || (dialect === 'postgresql' && /[eE]/.test(sql[index - 1] || '') && !/\w/.test(sql[index - 2] || ''));
+        const end = this.skipQuoted(sql, index, '\'', backslashEscapes);
+        push('string', index, end);
+        index = end;
+        continue;
+      }
+
+      if (char === '"') {
+        const end = this.skipQuoted(sql, index, '"', dialect === 'mysql');
+        push(dialect === 'mysql' ? 'string' : 'identifier', index, end);
+        index = end;
+        continue;
+      }
+
+      if (char === '`' && (dialect === 'mysql' || dialect === 'sqlite')) {
+        const end = this.skipQuoted(sql, index, '`', false);
+        push('identifier', index, end);
+        index = end;
+        continue;
+      }
+
+      if (char === '[' && (dialect === 'mssql' || dialect === 'sqlite')) {
+        const end = this.skipQuoted(sql, index, ']', false);
+        push('identifier', index, end);
+        index = end;
+        continue;
+      }
+
+      if (char === '$' && dialect === 'postgresql') {
+        const tag = /^\$([A-Za-z_][A-Za-z0-9_]*)?\$/.exec(sql.slice(index));
+        if (tag) {
+          const close = sql.indexOf(tag[0], index + tag[0].length);
+          const end = close === -1 ? length : close + tag[0].length;
+          push('string', index, end);
+          index = end;
+          continue;
+        }
+      }
+
+      if (/[A-Za-z_@]/.test(char) || (char === '#' && dialect === 'mssql')) {
+        let end = index + 1;
+        while (end < length && /[A-Za-z0-9_$@#]/.test(sql[end]!)) end++;
+        if (dialect === 'postgresql' && /[eE]/.test(char) && end === index + 1 && sql[end] === '\'') {
+          // PostgreSQL E'...' prefix; the string itself is read with backslash escapes below
+          index = end;
+          continue;
+        }
+        push('word', index, end);
+        index = end;
+        continue;
+      }
+
+      if (/\d/.test(char) || (char === '.' && /\d/.test(next || ''))) {
+        let end = index + 1;
+        while (end < length && /[0-9.xXa-fA-F]/.test(sql[end]!)) end++;
+        push('number', index, end);
+        index = end;
+        continue;
+      }
+
+      const operator = /^(<>|!=|<=|>=|::|\|\||=>)/.exec(sql.slice(index, index + 2));
+      const end = index + (operator ? operator[0].length : 1);
+      push('symbol', index, end);
+      index = end;
+    }
+
+    return tokens;
+  }
+
+  private static skipBlockComment(sql: string, start: number, nested: boolean): number {
+    let depth = 0;
+    let index = start;
+    while (index < sql.length) {
+      if (sql[index] === '/' && sql[index + 1] === '*') {
+        depth = nested ? depth + 1 : 1;
+        index += 2;
+      } else if (sql[index] === '*' && sql[index + 1] === '/') {
+        depth--;
+        index += 2;
+        if (depth === 0) return index;
+      } else {
+        index++;
+      }
+    }
+    return sql.length;
+  }
+
+  private static skipQuoted(sql: string, start: number, close: string, backslashEscapes: boolean): number {
+    let index = start + 1;
+    while (index < sql.length) {
+      const char = sql[index];
+      if (backslashEscapes && char === '\\') {
+        index += 2;
+      } else if (char === close) {
+        if (sql[index + 1] === close) {
+          index += 2;
+        } else {
+          return index + 1;
+        }
+      } else {
+        index++;
+      }
+    }
+    return sql.length;
+  }
+
+  /**
+   * Split on separators, except inside the BEGIN ... END body of a trigger, procedure or function definition. A
+   * body that never closes is split on every separator, so it cannot hide the statements after it.
+   */
+  private static splitTokens(tokens: SqlToken[]): SqlToken[][] {
+    const statements: SqlToken[][] = [];
+    let current: SqlToken[] = [];
+    let depth = 0;
+    for (let index = 0; index < tokens.length; index++) {
+      const token = tokens[index]!;
+      if (token.type === 'separator' && depth === 0) {
+        if (current.length > 0) statements.push(current);
+        current = [];
+        continue;
+      }
+      current.push(token);
+      if (!this.isWord(token, 'BEGIN', 'CASE', 'END') || !this.isRoutineDefinition(current)) continue;
+
+      const next = tokens[index + 1];
+      if (this.isWord(token, 'END')) {
+        // END IF / END LOOP / END WHILE / END REPEAT close blocks that were never counted; END CASE closes a CASE
+        if (next && this.isWord(next, 'IF', 'LOOP', 'WHILE', 'REPEAT')) continue;
+        depth = Math.max(0, depth - 1);
+        if (next && this.isWord(next, 'CASE')) current.push(tokens[++index]!);
+      } else if (!(next && this.isWord(next, 'TRAN', 'TRANSACTION', 'DISTRIBUTED'))) {
+        depth++;
+      }
+    }
+    if (depth > 0) {
+      statements.push(...this.splitTokensAtSeparators(current));
+    } else if (current.length > 0) {
+      statements.push(current);
+    }
+    return statements;
+  }
+
+  private static splitTokensAtSeparators(tokens: SqlToken[]): SqlToken[][] {
+    const statements: SqlToken[][] = [[]];
+    for (const token of tokens) {
+      if (token.type === 'separator') statements.push([]);
+      else statements[statements.length - 1]!.push(token);
+    }
+    return statements.filter(statement => statement.length > 0);
+  }
+
+  /**
+   * Whether the statement is `CREATE [OR REPLACE | OR ALTER] [TEMP] {TRIGGER | PROCEDURE | FUNCTION | EVENT}`, or
+   * SQL Server's `ALTER {TRIGGER | PROCEDURE | FUNCTION}`; only these have BEGIN ... END bodies.
+   */
+  private static isRoutineDefinition(tokens: SqlToken[]): boolean {
+    const words = tokens.slice(0, 5).map(token => (token.type === 'word' ? token.value.toUpperCase() : ''));
+    if (words[0] === 'ALTER') return ROUTINE_KEYWORDS.has(words[1] ?? '');
+    if (words[0] !== 'CREATE') return false;
+    let position = 1;
+    if (words[position] === 'OR' && (words[position + 1] === 'REPLACE' || words[position + 1] === 'ALTER')) position += 2;
+    if (words[position] === 'TEMP' || words[position] === 'TEMPORARY') position++;
+    return ROUTINE_KEYWORDS.has(words[position] ?? '');
+  }
+
+  private static classifyTokens(tokens: SqlToken[], dialect: SqlDialect): Classification {
+    const first = tokens[0]!;
+    const keyword = first.type === 'word' ? first.value.toUpperCase() : '';
+    const rest = tokens.slice(1);
+    const nextWord = rest[0]?.type === 'word' ? rest[0].value.toUpperCase() : '';
+
+    switch (keyword) {
+      case 'SELECT':
+        return this.classifySelect(tokens, dialect);
+      case 'WITH':
+        return this.classifyWith(tokens, dialect);
+      case 'EXPLAIN':
+        return this.classifyExplain(rest, dialect);
+      case 'PRAGMA':
+        return { category: rest.some(token => token.value === '=') ? 'admin' : 'read', destructive: false };
+      case 'DELETE':
+      case 'UPDATE':
+        return { category: 'write', ...this.checkWhereClause(keyword, tokens) };
+      case 'COPY':
+        return this.classifyCopy(rest);
+      case 'DROP':
+      case 'TRUNCATE':
+        return { category: 'ddl', destructive: true, reason: `${`${keyword} ${nextWord}`.trim()} is irreversible` };
+      case 'ALTER': {
+        const dropsPart = this.atDepthZero(rest).some(token => this.isWord(token, 'DROP'));
+        return dropsPart
+          ? { category: 'ddl', destructive: true, reason: 'ALTER ... DROP is irreversible' }
+          : { category: 'ddl', destructive: false };
+      }
+      case 'BEGIN':
+        if (BATCH_WORDS.has(nextWord)) {
+          return { category: 'write', destructive: false };
+        }
+        if (!nextWord || TRANSACTION_WORDS.has(nextWord)) {
+          return { category: 'admin', destructive: false };
+        }
+        // T-SQL BEGIN ... END block
+        return this.classifyProcedural(rest, dialect);
+      case 'SET':
+        return { category: dialect === 'mssql' && nextWord.startsWith('@') ? 'read' : 'admin', destructive: false };
+      case 'DECLARE':
+      case 'IF':
+      case 'WHILE':
+        return this.classifyProcedural(rest, dialect);
+    }
+
+    if (READ_KEYWORDS.has(keyword)) return { category: 'read', destructive: false };
+    if (WRITE_KEYWORDS.has(keyword)) return { category: 'write', destructive: false };
+    if (DDL_KEYWORDS.has(keyword)) return { category: 'ddl', destructive: false };
+    return { category: 'admin', destructive: false };
+  }
+
+  private static classifySelect(tokens: SqlToken[], dialect: SqlDialect): Classification {
+    const topLevel = this.atDepthZero(tokens);
+    const into = topLevel.findIndex(token => this.isWord(token, 'INTO'));
+    let category: StatementCategory = 'read';
+
+    if (into !== -1) {
+      const target = topLevel[into + 1]?.value.toUpperCase() || '';
+      if (target === 'OUTFILE' || target === 'DUMPFILE') {
+        category = 'admin';
+      } else if (!target.startsWith('@') && (dialect === 'postgresql' || dialect === 'mssql')) {
+        // SELECT ... INTO creates a table
+        category = 'ddl';
+      }
+    }
+
+    for (let index = 0; index < tokens.length - 1; index++) {
+      const token = tokens[index]!;
+      if (token.type !== 'word' || tokens[index + 1]!.value !== '(') continue;
+      const name = token.value.toUpperCase();
+      if (ADMIN_FUNCTIONS.has(name)) category = this.max(category, 'admin');
+      else if (WRITE_FUNCTIONS.has(name)) category = this.max(category, 'write');
+    }
+
+    return { category, destructive: false };
+  }
+
+  private static classifyWith(tokens: SqlToken[], dialect: SqlDialect): Classification {
+    const main = this.atDepthZero(tokens.slice(1)).find(token => this.isWord(token, 'SELECT', 'INSERT', 'UPDATE', 'DELETE', 'MERGE'));
+    let result: Classification = main
+      ? this.classifyTokens(tokens.slice(tokens.indexOf(main)), dialect)
+      : { category: 'read', destructive: false };
+
+    // Data-modifying CTEs: WITH x AS (DELETE ... RETURNING *) SELECT ...
+    for (let index = 0; index < tokens.length - 1; index++) {
+      if (tokens[index]!.value !== '(' || !this.isWord(tokens[index + 1]!, 'INSERT', 'UPDATE', 'DELETE', 'MERGE')) continue;
+      const end = this.closingParen(tokens, index);
+      const inner = this.classifyTokens(tokens.slice(index + 1, end), dialect);
+      result = this.combine(result, inner);
+    }
+
+    return result;
+  }
+
+  private static classifyExplain(tokens: SqlToken[], dialect: SqlDialect): Classification {
+    const statementStart = tokens.findIndex(token => token.type === 'word' && STATEMENT_KEYWORDS.has(token.value.toUpperCase()));
+    const analyzes = tokens
+      .slice(0, statementStart === -1 ? tokens.length : statementStart)
+      .some(token => this.isWord(token, 'ANALYZE', 'ANALYSE'));
+
+    // EXPLAIN ANALYZE executes the statement it explains
+    if (analyzes && statementStart !== -1) {
+      return this.classifyTokens(tokens.slice(statementStart), dialect);
+    }
+    return { category: 'read', destructive: false };
+  }
+
+  private static classifyCopy(tokens: SqlToken[]): Classification {
+    const topLevel = this.atDepthZero(tokens);
+    if (topLevel.some(token => this.isWord(token, 'PROGRAM'))) {
+      return { category: 'admin', destructive: false };
+    }
+    if (topLevel.some(token => this.isWord(token, 'FROM'))) {
+      return { category: 'write', destructive: false };
+    }
+    const target = topLevel[topLevel.findIndex(token => this.isWord(token, 'TO')) + 1];
+    return { category: target && this.isWord(target, 'STDOUT') ? 'read' : 'admin', destructive: false };
+  }
+
+  /**
+   * Classify a procedural statement by the strongest statement keyword it contains.
+   */
+  private static classifyProcedural(tokens: SqlToken[], dialect: SqlDialect): Classification {
+    let result: Classification = { category: 'read', destructive: false };
+    for (let index = 0; index < tokens.length; index++) {
+      const token = tokens[index]!;
+      if (token.type !== 'word' || !STATEMENT_KEYWORDS.has(token.value.toUpperCase()) || this.isWord(token, 'SELECT', 'WITH')) continue;
+      // FOR UPDATE / FOR DELETE in cursor declarations and triggers are not statements
+      if (index > 0 && this.isWord(tokens[index - 1]!, 'FOR')) continue;
+      result = this.combine(result, this.classifyTokens(tokens.slice(index), dialect));
+    }
+    return result;
+  }
+
+  private static checkWhereClause(keyword: string, tokens: SqlToken[]): Omit<Classification, 'category'> {
+    const topLevel = this.atDepthZero(tokens);
+    const where = topLevel.findIndex(token => this.isWord(token, 'WHERE'));
+    if (where === -1) {
+      return { destructive: true, reason: `${keyword} without WHERE clause affects every row` };
+    }
+
+    const start = tokens.indexOf(topLevel[where]!) + 1;
+    let end = tokens.length;
+    for (let index = start, depth = 0; index < tokens.length; index++) {
+      const token = tokens[index]!;
+      if (token.value === '(') depth++;
+      else if (token.value === ')') depth--;
+      else if (depth === 0 && token.type === 'word' && WHERE_TERMINATORS.has(token.value.toUpperCase())) {
+        end = index;
+        break;
+      }
+    }
+
+    if (this.isTautology(tokens.slice(start, end))) {
+      return { destructive: true, reason: `${keyword} with an always-true WHERE clause affects every row` };
+    }
+    return { destructive: false };
+  }
+
+  private static isTautology(tokens: SqlToken[]): boolean {
+    for (const disjunct of this.splitOnWord(tokens, 'OR')) {
+      const inner = this.stripParens(disjunct);
+      if (inner !== disjunct) {
+        if (this.isTautology(inner)) return true;
+        continue;
+      }
+      if (inner.length === 1) {
+        const [token] = inner as [SqlToken];
+        if (this.isWord(token, 'TRUE') || (token.type === 'number' && Number(token.value) !== 0)) return true;
+      }
+      if (inner.length === 3 && inner[1]!.value === '=') {
+        const [left, , right] = inner as [SqlToken, SqlToken, SqlToken];
+        const sameValue = left.type === 'word'
+          ? left.value.toUpperCase() === right.value.toUpperCase()
+          : left.value === right.value;
+        if (left.type === right.type && left.type !== 'symbol' && sameValue) return true;
+      }
+    }
+    return false;
+  }
+
+  private static splitOnWord(tokens: SqlToken[], word: string): SqlToken[][] {
+    const parts: SqlToken[][] = [[]];
+    let depth = 0;
+    for (const token of tokens) {
+      if (token.value === '(') depth++;
+      if (token.value === ')') depth--;
+      if (depth === 0 && this.isWord(token, word)) {
+        parts.push([]);
+      } else {
+        parts[parts.length - 1]!.push(token);
+      }
+    }
+    return parts;
+  }
+
+  private static stripParens(tokens: SqlToken[]): SqlToken[] {
+    if (tokens[0]?.value === '(' && this.closingParen(tokens, 0) === tokens.length - 1) {
+      return tokens.slice(1, -1);
+    }
+    return tokens;
+  }
+
+  private static readQualifiedName(tokens: SqlToken[], start: number): { value: string; next: number } | null {
+    const parts: string[] = [];
+    let position = start;
+    while (tokens[position] && (tokens[position]!.type === 'word' || tokens[position]!.type === 'identifier')) {
+      const token = tokens[position]!;
+      if (token.type === 'word' && parts.length === 0 && (CLAUSE_WORDS.has(token.value.toUpperCase()) || STATEMENT_KEYWORDS.has(token.value.toUpperCase()))) {
+        return null;
+      }
+      parts.push(this.unquote(token.value));
+      position++;
+      if (tokens[position]?.value !== '.') break;
+      position++;
+    }
+    return parts.length > 0 ? { value: parts.join('.'), next: position } : null;
+  }
+
+  /**
+   * Strip identifier quoting ("name", `name`, [name]).
+   */
+  static unquote(identifier: string): string {
+    const first = identifier[0];
+    const last = identifier[identifier.length - 1];
+    if ((first === '"' && last === '"') || (first === '`' && last === '`') || (first === '[' && last === ']')) {
+      return identifier.slice(1, -1);
+    }
+    return identifier;
+  }
+
+  private static openingParen(tokens: SqlToken[], close: number): number {
+    let depth = 0;
+    for (let index = close; index >= 0; index--) {
+      if (tokens[index]!.value === ')') depth++;
+      if (tokens[index]!.value === '(' && --depth === 0) return index;
+    }
+    return 0;
+  }
+
+  private static closingParen(tokens: SqlToken[], open: number): number {
+    let depth = 0;
+    for (let index = open; index < tokens.length; index++) {
+      if (tokens[index]!.value === '(') depth++;
+      if (tokens[index]!.value === ')' && --depth === 0) return index;
+    }
+    return tokens.length;
+  }
+
+  private static atDepthZero(tokens: SqlToken[]): SqlToken[] {
+    const result: SqlToken[] = [];
+    let depth = 0;
+    for (const token of tokens) {
+      if (token.value === '(') depth++;
+      else if (token.value === ')') depth--;
+      else if (depth === 0) result.push(token);
+    }
+    return result;
+  }
+
+  private static isWord(token: SqlToken, ...words: string[]): boolean {
+    return token.type === 'word' && words.includes(token.value.toUpperCase());
+  }
+
+  private static combine(a: Classification, b: Classification): Classification {
+    return {
+      category: this.max(a.category, b.category),
+      destructive: a.destructive || b.destructive,
+      reason: a.reason || b.reason,
+    };
+  }
+
+  private static max(a: StatementCategory, b: StatementCategory): StatementCategory {
+    return CATEGORY_RANK[b] > CATEGORY_RANK[a] ? b : a;
+  }
+}
@@ -0,0 +1,206 @@
+import { QueryTemplate, TemplateParameter, TemplateParameterType } from '../types/schema.js';
+import { SqlClassifier, SqlDialect, SqlToken } from './sql-classifier.js';
+
+const PARAMETER_NAME = /^[A-Za-z_][A-Za-z0-9_]*$/;
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}([T ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?)?$/;
+
+export interface CompiledTemplate {
+  query: string;
+  parameters: Record<string, unknown>;
+}
+
+interface Placeholder {
+  start: number;
+  end: number;
+  name: string;
+}
+
+/**
+ * Compiles `{name}` placeholders in a query template into named `:name` parameters for the adapter to bind.
+ * Values are checked against the declared parameter types; `array` expands to one parameter per element for
+ * IN lists, and `identifier` is the only type spliced into the SQL, quoted and limited to `allowedValues`.
+ */
+export class TemplateCompiler {
+  static compile(
+    template: Pick<QueryTemplate, 'query' | 'parameters'>,
+    values: Record<string, unknown>,
+    dialect: SqlDialect
+  ): CompiledTemplate {
+    this.validate(template, dialect);
+
+    const declared = new Map(template.parameters.map(parameter => [parameter.name, parameter]));
+    for (const name of Object.keys(values)) {
+      if (!declared.has(name)) {
+        throw new Error(`Unknown template parameter: ${name}`);
+      }
+    }
+
+    const parameters: Record<string, unknown> = {};
+    const replacements = this.placeholders(SqlClassifier.tokenize(template.query, dialect)).map(placeholder => {
+      const parameter = declared.get(placeholder.name)!;
+      const value = this.coerce(parameter, this.resolveValue(parameter, values[parameter.name]));
+
+      if (parameter.type === 'identifier') {
+        return { ...placeholder, replacement: this.quoteIdentifier(value as string, dialect) };
+      }
+      if (parameter.type === 'array') {
+        const names = (value as unknown[]).map((item, index) => {
+          parameters[`${parameter.name}_${index}`] = item;
+          return `:${parameter.name}_${index}`;
+        });
+        return { ...placeholder, replacement: names.join(', ') };
+      }
+      parameters[parameter.name] = value;
+      return { ...placeholder, replacement: `:${parameter.name}` };
+    });
+
+    let query = template.query;
+    for (const { start, end, replacement } of replacements.sort((a, b) => b.start - a.start)) {
+      query = query.slice(0, start) + replacement + query.slice(end);
+    }
+    return { query, parameters };
+  }
+
+  /**
+   * Checks the declarations themselves: valid names and types, whitelists for identifiers, and that every
+   * placeholder in the query is declared.
+   */
+  static validate(template: Pick<QueryTemplate, 'query' | 'parameters'>, dialect: SqlDialect): void {
+    const names = new Set<string>();
+    for (const parameter of template.parameters) {
+      if (!PARAMETER_NAME.test(parameter.name)) {
+        throw new Error(`Invalid template parameter name: ${parameter.name}`);
+      }
+      if (names.has(parameter.name)) {
+        throw new Error(`Template parameter ${parameter.name} is declared more than once`);
+      }
+      names.add(parameter.name);
+      if (!TemplateParameterType.safeParse(parameter.type).success) {
+        throw new Error(`Unsupported type for template parameter ${parameter.name}: ${parameter.type}`);
+      }
+      if (parameter.type === 'identifier' && (!parameter.allowedValues || parameter.allowedValues.length === 0)) {
+        throw new Error(`Identifier parameter ${parameter.name} requires allowedValues`);
+      }
+      if (parameter.defaultValue !== undefined && parameter.defaultValue !== null) {
+        this.coerce(parameter, parameter.defaultValue);
+      }
+    }
+
+    const tokens = SqlClassifier.tokenize(template.query, dialect);
+    for (const placeholder of this.placeholders(tokens)) {
+      if (!names.has(placeholder.name)) {
+        throw new Error(`Template placeholder {${placeholder.name}} is not declared`);
+      }
+    }
+
+    // Only a literal that is exactly '{name}' is bound; one inside a longer literal would be sent as text
+    for (const token of tokens) {
+      const embedded = token.type === 'string' && !/^'\{[A-Za-z_][A-Za-z0-9_]*\}'$/.test(token.value)
+        ? /\{([A-Za-z_][A-Za-z0-9_]*)\}/.exec(token.value)
+        : null;
+      if (embedded) {
+        const concat = dialect === 'mysql' || dialect === 'mssql' ? `CONCAT('%', {${embedded[1]}}, '%')` : `'%' || {${embedded[1]}} || '%'`;
+        throw new Error(`Template placeholder {${embedded[1]}} is inside the string literal ${token.value} and would not be replaced; build the string around it, e.g. ${concat}`);
+      }
+    }
+  }
+
+  /**
+   * `{name}` outside strings and comments. A string literal holding only a placeholder (`'{name}'`) also counts,
+   * since the value is bound as a whole rather than pasted between the quotes.
+   */
+  private static placeholders(tokens: SqlToken[]): Placeholder[] {
+    const placeholders: Placeholder[] = [];
+    tokens.forEach((token, index) => {
+      const quoted = token.type === 'string' ? /^'\{([A-Za-z_][A-Za-z0-9_]*)\}'$/.exec(token.value) : null;
+      if (quoted) {
+        placeholders.push({ start: token.start, end: token.end, name: quoted[1]! });
+        return;
+      }
+      const name = tokens[index + 1];
+      const close = tokens[index + 2];
+      if (
+        token.type === 'symbol' && token.value === '{' &&
+        name?.type === 'word' && name.start === token.end &&
+        close?.type === 'symbol' && close.value === '}' && close.start === name.end
+      ) {
+        placeholders.push({ start: token.start, end: close.end, name: name.value });
+      }
+    });
+    return placeholders;
+  }
+
+  private static resolveValue(parameter: TemplateParameter, value: unknown): unknown {
+    if (value !== undefined && value !== null) {
+      return value;
+    }
+    if (parameter.defaultValue !== undefined && parameter.defaultValue !== null) {
+      return parameter.defaultValue;
+    }
+    if (parameter.required) {
+      throw new Error(`Missing required template parameter: ${parameter.name}`);
+    }
+    // Arrays and identifiers are written into the SQL, so there is no NULL to bind in their place
+    if (parameter.type === 'array' || parameter.type === 'identifier') {
+      throw new Error(`Missing template parameter: ${parameter.name}; an optional ${parameter.type} parameter without a defaultValue still needs a value`);
+    }
+    return null;
+  }
+
+  private static coerce(parameter: TemplateParameter, value: unknown): unknown {
+    const fail = (expected: string) => new Error(`Template parameter ${parameter.name} must be ${expected}`);
+
+    if (value === null && parameter.type !== 'array' && parameter.type !== 'identifier') {
+      return null;
+    }
+    switch (parameter.type) {
+      case 'string':
+        if (typeof value !== 'string') throw fail('a string');
+        return value;
+      case 'int':
+        if (typeof value === 'number' && Number.isSafeInteger(value)) return value;
+        if (typeof value === 'string' && /^-?\d+$/.test(value) && Number.isSafeInteger(Number(value))) return Number(value);
+        throw fail('an integer');
+      case 'number':
+        if (typeof value === 'number' && Number.isFinite(value)) return value;
+        if (typeof value === 'string' && value.trim() !== '' && Number.isFinite(Number(value))) return Number(value);
+        throw fail('a number');
+      case 'boolean':
+        if (typeof value === 'boolean') return value;
+        if (value === 'true' || value === 'false') return value === 'true';
+        throw fail('a boolean');
+      case 'date':
+        if (typeof value !== 'string' || !ISO_DATE.test(value) || Number.isNaN(Date.parse(value))) {
+          throw fail('an ISO 8601 date');
+        }
+        return value;
+      case 'array':
+        if (!Array.isArray(value) || value.length === 0) throw fail('a non-empty array');
+        if (value.some(item => item === null || !['string', 'number', 'boolean'].includes(typeof item))) {
+          throw fail('an array of strings, numbers or booleans');
+        }
+        return value;
+      case 'identifier':
+        if (typeof value !== 'string' || !parameter.allowedValues?.includes(value)) {
+          throw fail(`one of: ${(parameter.allowedValues ?? []).join(', ')}`);
+        }
+        return value;
+      default:
+        throw new Error(`Unsupported type for template parameter ${parameter.name}: ${parameter.type}`);
+    }
+  }
+
+  /** Quotes each part of a possibly schema-qualified name in the dialect's identifier quotes */
+  static quoteIdentifier(identifier: string, dialect: SqlDialect): string {
+    return identifier.split('.').map(part => {
+      switch (dialect) {
+        case 'mysql':
+          return `\`${part.replace(/`/g, '``')}\``;
+        case 'mssql':
+          return `[${part.replace(/]/g, ']]')}]`;
+        default:
+          return `"${part.replace(/"/g, '""')}"`;
+      }
+    }).join('.');
+  }
+}
@@ -19,9 +19,32 @@ program
 program
   .command('start')
   .description('Start the MCP server')
-  .action(async (_options) => {
+  .option('--read-only', 'Open every database connection in read-only mode')
+  .option('-t, --transport <transport>', 'Transport: stdio, http (Streamable HTTP) or sse')
+  .option('--host <host>', 'Host to listen on for http/sse')
+  .option('-p, --port <port>', 'Port to listen on for http/sse')
+  .action(async (options) => {
     try {
       const config = Configuration.load();
+      if (options.readOnly) {
+        config.readOnly = true;
+      }
+      if (options.transport) {
+        if (!['stdio', 'http', 'sse'].includes(options.transport)) {
+          throw new Error(`Unknown transport '${options.transport}'; use stdio, http or sse`);
+        }
+        config.server.transport = options.transport;
+      }
+      if (options.host) {
+        config.server.host = options.host;
+      }
+      if (options.port) {
+        const port = parseInt(options.port, 10);
+        if (!Number.isInteger(port) || port <= 0) {
+          throw new Error(`Invalid port '${options.port}'`);
+        }
+        config.server.port = port;
+      }
 
       if (config.databases && config.databases.length > 0) {
         for (const db of config.databases) {
@@ -39,6 +62,12 @@ program
 
       console.log(chalk.blue(`\nStarting PineMCP...`));
       console.log(chalk.gray(`Databases: ${config.databases?.length || 0} configured`));
+      if (config.readOnly) {
+        console.log(chalk.gray('Read-only mode: enabled for all connections'));
+      }
+      if (config.server.transport !== 'stdio') {
+        console.log(chalk.gray(`Transport: ${config.server.transport} on ${config.server.host}:${config.server.port}`));
+      }
       if (config.server.name && config.server.version) {
         console.log(chalk.gray(`Server: ${config.server.name} v${config.server.version}\n`));
       } else {
@@ -0,0 +1,212 @@
+import { BaseDatabaseAdapter } from '../adapters/base-database-adapter.js';
+import { DatabaseConnectionManager } from '../adapters/database-connection-manager.js';
+import { SqlClassifier } from '../core/sql-classifier.js';
+import { AccessPolicy, AccessRule, MCPDatabaseConfig } from '../types/mcp.js';
+import { ColumnInfo, FieldInfo, QueryResult } from '../types/database.js';
+
+interface ColumnRule {
+  table: string;
+  column: string;
+}
+
+export class AccessPolicyService {
+  private connectionManager: DatabaseConnectionManager;
+  private configuredPolicies: Map<string, AccessPolicy> = new Map();
+  private runtimePolicies: Map<string, AccessPolicy> = new Map();
+
+  constructor(connectionManager: DatabaseConnectionManager) {
+    this.connectionManager = connectionManager;
+  }
+
+  /**
+   * Register policies declared in the configuration. They outlive remove_connection, so a configured
+   * connection cannot be re-added at runtime without its policy.
+   */
+  loadConfiguredPolicies(databases: MCPDatabaseConfig[]): void {
+    for (const database of databases) {
+      if (database.accessPolicy) {
+        this.configuredPolicies.set(database.name, database.accessPolicy);
+      }
+    }
+  }
+
+  /**
+   * Attach a policy to a connection added at runtime; configured policies take precedence.
+   */
+  setRuntimePolicy(connectionName: string, policy: AccessPolicy | undefined): void {
+    if (policy) {
+      this.runtimePolicies.set(connectionName, policy);
+    } else {
+      this.runtimePolicies.delete(connectionName);
+    }
+  }
+
+  getPolicy(connectionName?: string | null): AccessPolicy | undefined {
+    const name = connectionName || this.connectionManager.getCurrentConnectionName();
+    if (!name) return undefined;
+    return this.configuredPolicies.get(name) || this.runtimePolicies.get(name);
+  }
+
+  assertToolAllowed(toolName: string, connectionNames: Array<string | null | undefined>): void {
+    for (const connectionName of connectionNames) {
+      const policy = this.getPolicy(connectionName);
+      if (policy?.tools && !this.isAllowed(policy.tools, [toolName])) {
+        throw new Error(`Access policy for '${this.displayName(connectionName)}' denies tool '${toolName}'`);
+      }
+    }
+  }
+
+  isTableAllowed(connectionName: string | null | undefined, tableName: string, schema?: string): boolean {
+    const policy = this.getPolicy(connectionName);
+    return !policy?.tables || this.isAllowed(policy.tables, this.tableCandidates(tableName, schema));
+  }
+
+  assertTableAllowed(connectionName: string | null | undefined, tableName: string, schema?: string): void {
+    if (!this.isTableAllowed(connectionName, tableName, schema)) {
+      const qualified = schema ? `${schema}.${tableName}` : tableName;
+      throw new Error(`Access policy for '${this.displayName(connectionName)}' denies table '${qualified}'`);
+    }
+  }
+
+  /**
+   * Drop tables the policy hides and redact denied columns from the rest.
+   */
+  filterTables<T extends { name: string; schema?: string | undefined }>(connectionName: string | null | undefined, tables: T[]): T[] {
+    return tables
+      .filter(table => this.isTableAllowed(connectionName, table.name, table.schema))
+      .map(table => this.redactTableInfo(connectionName, table));
+  }
+
+  redactTableInfo<T extends { name: string; schema?: string | undefined }>(connectionName: string | null | undefined, table: T): T {
+    const columns = (table as { columns?: ColumnInfo[] }).columns;
+    if (!columns) return table;
+
+    const denied = this.deniedColumnNames(connectionName, [table.schema ? `${table.schema}.${table.name}` : table.name]);
+    if (denied.size === 0) return table;
+    return { ...table, columns: columns.filter(column => !denied.has(column.name.toLowerCase())) };
+  }
+
+  /**
+   * Reject queries that touch denied tables, name denied columns explicitly (e.g. through an alias) or read whole
+   * rows of tables with denied columns.
+   */
+  assertQueryAllowed(connectionName: string | null | undefined, db: BaseDatabaseAdapter, query: string): void {
+    if (!this.getPolicy(connectionName)) return;
+
+    const dialect = SqlClassifier.dialectFor(db.getType());
+    const unresolved = dialect ? SqlClassifier.unresolvedTableReferences(query, dialect) : [];
+    if (unresolved.length > 0) {
+      throw new Error(`Access policy for '${this.displayName(connectionName)}' cannot check what the query reads from ${unresolved.join(', ')}; `
+        + 'name the tables directly');
+    }
+
+    const tables = this.referencedTables(db, query);
+    for (const table of tables) {
+      this.assertTableAllowed(connectionName, table);
+    }
+
+    const denied = this.deniedColumnNames(connectionName, tables);
+    if (denied.size === 0 || !dialect) return;
+
+    // Denied columns are removed from results by name, which a whole row serialized into one value would get past
+    const wholeRows = SqlClassifier.wholeRowReferences(query, dialect);
+    if (wholeRows.length > 0) {
+      throw new Error(`Access policy for '${this.displayName(connectionName)}' denies columns of the queried tables, so whole rows `
+        + `(${wholeRows.join(', ')}) cannot be read; select the columns by name`);
+    }
+
+    for (const token of SqlClassifier.tokenize(query, dialect)) {
+      if (token.type !== 'word' && token.type !== 'identifier') continue;
+      const name = SqlClassifier.unquote(token.value).toLowerCase();
+      if (denied.has(name)) {
+        throw new Error(`Access policy for '${this.displayName(connectionName)}' denies column '${name}'`);
+      }
+    }
+  }
+
+  redactResult(connectionName: string | null | undefined, db: BaseDatabaseAdapter, query: string, result: QueryResult): QueryResult {
+    if (!this.getPolicy(connectionName)) return result;
+    return {
+      ...result,
+      ...this.redactRows(connectionName, this.referencedTables(db, query), result.rows, result.fields),
+    };
+  }
+
+  redactRows(
+    connectionName: string | null | undefined,
+    tables: string[],
+    rows: Record<string, unknown>[],
+    fields: FieldInfo[] = []
+  ): { rows: Record<string, unknown>[]; fields: FieldInfo[] } {
+    const denied = this.deniedColumnNames(connectionName, tables);
+    if (denied.size === 0) return { rows, fields };
+
+    return {
+      rows: rows.map(row => Object.fromEntries(Object.entries(row).filter(([key]) => !denied.has(key.toLowerCase())))),
+      fields: fields.filter(field => !denied.has(field.name.toLowerCase())),
+    };
+  }
+
+  private referencedTables(db: BaseDatabaseAdapter, query: string): string[] {
+    const dialect = SqlClassifier.dialectFor(db.getType());
+    if (dialect) {
+      return SqlClassifier.referencedTables(query, dialect);
+    }
+
+    try {
+      const parsed = JSON.parse(query);
+      const table = parsed.collection || parsed.tableName;
+      return typeof table === 'string' ? [table] : [];
+    } catch {
+      return [];
+    }
+  }
+
+  /**
+   * Denied column names that apply to the given tables; every rule applies when the tables are unknown.
+   */
+  private deniedColumnNames(connectionName: string | null | undefined, tables: string[]): Set<string> {
+    const names = new Set<string>();
+    for (const rule of this.columnRules(this.getPolicy(connectionName))) {
+      const applies = rule.table === '*' || tables.length === 0
+        || tables.some(table => this.tableCandidates(table).some(candidate => this.matches(rule.table, candidate)));
+      if (applies) names.add(rule.column.toLowerCase());
+    }
+    return names;
+  }
+
+  private columnRules(policy: AccessPolicy | undefined): ColumnRule[] {
+    return (policy?.deniedColumns || []).map(entry => {
+      const separator = entry.lastIndexOf('.');
+      return separator === -1
+        ? { table: '*', column: entry }
+        : { table: entry.slice(0, separator), column: entry.slice(separator + 1) };
+    });
+  }
+
+  private isAllowed(rule: AccessRule, candidates: string[]): boolean {
+    const matchesAny = (patterns: string[]) => patterns.some(pattern => candidates.some(candidate => this.matches(pattern, candidate)));
+    if (rule.deny && matchesAny(rule.deny)) return false;
+    return !rule.allow || matchesAny(rule.allow);
+  }
+
+  /**
+   * Names a table can be matched by: as written, schema-qualified, and unqualified.
+   */
+  private tableCandidates(tableName: string, schema?: string): string[] {
+    const candidates = [tableName];
+    if (schema) candidates.push(`${schema}.${tableName}`);
+    const unqualified = tableName.split('.').pop();
+    if (unqualified && unqualified !== tableName) candidates.push(unqualified);
+    return candidates;
+  }
+
+  private matches(pattern: string, value: string): boolean {
+    const source = pattern.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*');
+    return new RegExp(`^${source}$`, 'i').test(value);
+  }
+
+  private displayName(connectionName: string | null | undefined): string {
+    return connectionName || this.connectionManager.getCurrentConnectionName() || 'current connection';
+  }
+}
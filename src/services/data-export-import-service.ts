@@ -1,13 +1,16 @@
 import { BaseDatabaseAdapter } from '../adapters/base-database-adapter.js';
 import { DatabaseConnectionManager } from '../adapters/database-connection-manager.js';
+import { AccessPolicyService } from './access-policy-service.js';
 import { ExportOptions, ImportOptions } from '../types/schema.js';
 import { writeFileSync, readFileSync } from 'fs';
 
 export class DataExportImportService {
   private connectionManager: DatabaseConnectionManager;
+  private accessPolicy: AccessPolicyService;
 
-  constructor(connectionManager: DatabaseConnectionManager) {
+  constructor(connectionManager: DatabaseConnectionManager, accessPolicy: AccessPolicyService) {
     this.connectionManager = connectionManager;
+    this.accessPolicy = accessPolicy;
   }
 
   /**
@@ -34,7 +37,8 @@ export class DataExportImportService {
 
       if (options.tables && options.tables.length > 0) {
         for (const tableName of options.tables) {
-          const tableData = await this.exportTableData(db, tableName, options);
+          this.accessPolicy.assertTableAllowed(connectionName, tableName);
+          const tableData = await this.exportTableData(connectionName, db, tableName, options);
           data.push({
             table: tableName,
             data: tableData,
@@ -43,9 +47,9 @@ export class DataExportImportService {
           recordCount += tableData.length;
         }
       } else {
-        const tables = await db.getTables();
+        const tables = this.accessPolicy.filterTables(connectionName, await db.getTables());
         for (const table of tables) {
-          const tableData = await this.exportTableData(db, table.name, options);
+          const tableData = await this.exportTableData(connectionName, db, table.name, options);
           data.push({
             table: table.name,
             data: tableData,
@@ -93,6 +97,7 @@ export class DataExportImportService {
    * Export data from a specific table
    */
   private async exportTableData(
+    connectionName: string,
     db: BaseDatabaseAdapter,
     tableName: string,
     options: ExportOptions
@@ -107,8 +112,10 @@ export class DataExportImportService {
       query += ` LIMIT ${options.limit}`;
     }
 
+    // The WHERE clause must not filter on denied columns or pull in other tables
+    this.accessPolicy.assertQueryAllowed(connectionName, db, query);
     const result = await db.executeQuery(query);
-    return result.rows || [];
+    return this.accessPolicy.redactRows(connectionName, [tableName], result.rows || []).rows;
   }
 
   /**
@@ -508,7 +515,9 @@ export class DataExportImportService {
             query = `INSERT INTO ${tableName} (${columns.join(', ')}) VALUES (${placeholders})`;
         }
         
-        await db.executeQuery(query, values);
+        // Rewrites the ? placeholders to $1 / @param0 where the driver needs it
+        const bound = db.bindParameters(query, values);
+        await db.executeQuery(bound.query, bound.parameters);
       } catch (error) {
         if (!options.skipErrors) {
           throw error;
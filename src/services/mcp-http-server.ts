@@ -0,0 +1,249 @@
+import { createServer, IncomingMessage, Server as HttpServer, ServerResponse } from 'http';
+import { createHash, randomUUID, timingSafeEqual } from 'crypto';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+import type { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+import { SessionContext, SessionState } from '../core/session-context.js';
+
+const MCP_PATH = '/mcp';
+const SSE_PATH = '/sse';
+const SSE_MESSAGES_PATH = '/messages';
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+const LOOPBACK_HOSTS = new Set(['127.0.0.1', '::1', 'localhost']);
+const DEFAULT_SESSION_IDLE_TIMEOUT_MS = 30 * 60 * 1000;
+
+export interface HttpServerOptions {
+  transport: 'http' | 'sse';
+  host: string;
+  port: number;
+  authToken?: string | undefined;
+  /** Close a Streamable HTTP session after this long without a request */
+  sessionIdleTimeoutMs?: number | undefined;
+}
+
+class HttpRequestError extends Error {
+  readonly status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.status = status;
+  }
+}
+
+interface HttpSession {
+  state: SessionState;
+  server: Server;
+  transport: StreamableHTTPServerTransport | SSEServerTransport;
+  closed?: Promise<void>;
+  expiry?: ReturnType<typeof setTimeout>;
+}
+
+/**
+ * Serves MCP over Streamable HTTP (`/mcp`) or the legacy HTTP+SSE transport (`/sse` and `/messages`).
+ * Every client session gets its own MCP server instance and session state.
+ */
+export class MCPHttpServer {
+  private options: HttpServerOptions;
+  private createSessionServer: (_session: SessionState) => Server;
+  private onSessionClosed: (_session: SessionState) => Promise<void>;
+  private httpServer: HttpServer | null = null;
+  private sessions: Map<string, HttpSession> = new Map();
+
+  constructor(
+    options: HttpServerOptions,
+    createSessionServer: (_session: SessionState) => Server,
+    onSessionClosed: (_session: SessionState) => Promise<void> = async () => {}
+  ) {
+    if (!options.authToken && !LOOPBACK_HOSTS.has(options.host)) {
+      throw new Error(`An auth token is required to listen on ${options.host}; set server.authToken or PINEMCP_AUTH_TOKEN`);
+    }
+    this.options = options;
+    this.createSessionServer = createSessionServer;
+    this.onSessionClosed = onSessionClosed;
+  }
+
+  async listen(): Promise<void> {
+    const httpServer = createServer((req, res) => {
+      this.handle(req, res).catch(error => {
+        const status = error instanceof HttpRequestError ? error.status : 500;
+        this.sendError(res, status, error instanceof Error ? error.message : String(error));
+      });
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      httpServer.once('error', reject);
+      httpServer.listen(this.options.port, this.options.host, () => resolve());
+    });
+    this.httpServer = httpServer;
+  }
+
+  async close(): Promise<void> {
+    for (const session of [...this.sessions.values()]) {
+      await session.transport.close();
+      await this.closeSession(session);
+    }
+
+    const httpServer = this.httpServer;
+    this.httpServer = null;
+    if (httpServer) {
+      await new Promise<void>(resolve => httpServer.close(() => resolve()));
+    }
+  }
+
+  getSessionCount(): number {
+    return this.sessions.size;
+  }
+
+  private async handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const url = new URL(req.url || '/', 'http://localhost');
+    if (!this.isAuthorized(req)) {
+      res.setHeader('WWW-Authenticate', 'Bearer');
+      this.sendError(res, 401, 'Unauthorized');
+      return;
+    }
+
+    if (this.options.transport === 'http' && url.pathname === MCP_PATH) {
+      await this.handleStreamableHttp(req, res);
+    } else if (this.options.transport === 'sse' && req.method === 'GET' && url.pathname === SSE_PATH) {
+      await this.openSseSession(res);
+    } else if (this.options.transport === 'sse' && req.method === 'POST' && url.pathname === SSE_MESSAGES_PATH) {
+      await this.handleSseMessage(req, res, url.searchParams.get('sessionId'));
+    } else {
+      this.sendError(res, 404, 'Not found');
+    }
+  }
+
+  private async handleStreamableHttp(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const body = req.method === 'POST' ? await this.readBody(req) : undefined;
+    const sessionId = req.headers['mcp-session-id'];
+
+    if (typeof sessionId === 'string') {
+      const session = this.sessions.get(sessionId);
+      if (!session || !(session.transport instanceof StreamableHTTPServerTransport)) {
+        this.sendError(res, 404, 'Session not found');
+        return;
+      }
+      this.touchSession(session);
+      await session.transport.handleRequest(req, res, body);
+      return;
+    }
+
+    if (req.method !== 'POST' || !isInitializeRequest(body)) {
+      this.sendError(res, 400, 'Bad request: missing Mcp-Session-Id header');
+      return;
+    }
+
+    const id = randomUUID();
+    const transport = new StreamableHTTPServerTransport({ sessionIdGenerator: () => id, ...this.rebindingProtection() });
+    await this.openSession(id, transport);
+    await transport.handleRequest(req, res, body);
+  }
+
+  private async openSseSession(res: ServerResponse): Promise<void> {
+    const transport = new SSEServerTransport(SSE_MESSAGES_PATH, res, this.rebindingProtection());
+    await this.openSession(transport.sessionId, transport);
+  }
+
+  private async handleSseMessage(req: IncomingMessage, res: ServerResponse, sessionId: string | null): Promise<void> {
+    const session = sessionId ? this.sessions.get(sessionId) : undefined;
+    if (!session || !(session.transport instanceof SSEServerTransport)) {
+      this.sendError(res, 404, 'Session not found');
+      return;
+    }
+    await session.transport.handlePostMessage(req, res, await this.readBody(req));
+  }
+
+  private async openSession(id: string, transport: StreamableHTTPServerTransport | SSEServerTransport): Promise<void> {
+    const state = SessionContext.create(id);
+    const server = this.createSessionServer(state);
+    const session: HttpSession = { state, server, transport };
+    server.onclose = () => {
+      this.closeSession(session).catch(error => console.error(`Failed to close session ${id}:`, error));
+    };
+
+    this.sessions.set(id, session);
+    if (transport instanceof StreamableHTTPServerTransport) {
+      this.touchSession(session);
+    }
+    // The SDK transports declare optional callbacks that do not satisfy Transport under exactOptionalPropertyTypes
+    await server.connect(transport as Transport);
+  }
+
+  /**
+   * Streamable HTTP clients can go away without ending their session (an SSE session ends with its stream), so a
+   * session without requests for sessionIdleTimeoutMs is closed, releasing its transactions and cursors.
+   */
+  private touchSession(session: HttpSession): void {
+    clearTimeout(session.expiry);
+    session.expiry = setTimeout(() => {
+      session.transport.close()
+        .then(() => this.closeSession(session))
+        .catch(error => console.error(`Failed to close idle session ${session.state.id}:`, error));
+    }, this.options.sessionIdleTimeoutMs ?? DEFAULT_SESSION_IDLE_TIMEOUT_MS);
+    session.expiry.unref();
+  }
+
+  /**
+   * Runs `onSessionClosed` once, whether the client disconnected, went idle or the server is shutting down.
+   */
+  private closeSession(session: HttpSession): Promise<void> {
+    clearTimeout(session.expiry);
+    this.sessions.delete(session.state.id);
+    session.closed ??= this.onSessionClosed(session.state);
+    return session.closed;
+  }
+
+  /**
+   * Without a token the server only listens on loopback; reject other Host headers so a web page
+   * cannot reach it through DNS rebinding.
+   */
+  private rebindingProtection(): { enableDnsRebindingProtection?: boolean; allowedHosts?: string[] } {
+    if (this.options.authToken) {
+      return {};
+    }
+    const { port } = this.options;
+    return { enableDnsRebindingProtection: true, allowedHosts: [`127.0.0.1:${port}`, `localhost:${port}`, `[::1]:${port}`] };
+  }
+
+  private isAuthorized(req: IncomingMessage): boolean {
+    if (!this.options.authToken) {
+      return true;
+    }
+
+    const match = /^Bearer\s+(.+)$/i.exec(req.headers.authorization || '');
+    if (!match?.[1]) {
+      return false;
+    }
+    const digest = (value: string) => createHash('sha256').update(value).digest();
+    return timingSafeEqual(digest(match[1]), digest(this.options.authToken));
+  }
+
+  private async readBody(req: IncomingMessage): Promise<unknown> {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    for await (const chunk of req) {
+      size += (chunk as Buffer).length;
+      if (size > MAX_BODY_BYTES) {
+        throw new HttpRequestError(413, `Request body exceeds ${MAX_BODY_BYTES} bytes`);
+      }
+      chunks.push(chunk as Buffer);
+    }
+
+    try {
+      return JSON.parse(Buffer.concat(chunks).toString('utf8'));
+    } catch {
+      throw new HttpRequestError(400, 'Request body is not valid JSON');
+    }
+  }
+
+  private sendError(res: ServerResponse, status: number, message: string): void {
+    if (res.headersSent) {
+      res.end();
+      return;
+    }
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ jsonrpc: '2.0', error: { code: -32000, message }, id: null }));
+  }
+}
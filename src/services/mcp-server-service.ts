@@ -2,6 +2,8 @@ import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
 import {
   CallToolRequestSchema,
+  GetPromptRequestSchema,
+  ListPromptsRequestSchema,
   ListResourcesRequestSchema,
   ListToolsRequestSchema,
   ReadResourceRequestSchema,
@@ -10,38 +12,102 @@ import { BaseDatabaseAdapter } from '../adapters/base-database-adapter.js';
 import { DatabaseAdapterFactory } from '../adapters/database-adapter-factory.js';
 import { DatabaseConnectionManager } from '../adapters/database-connection-manager.js';
 import { MCPConfig } from '../types/mcp.js';
+import { DatabaseConfig, IsolationLevel, PageState, QueryResult, SavepointAction } from '../types/database.js';
+import { QueryTemplate, SchemaComparisonOptions } from '../types/schema.js';
+import { Configuration } from '../core/configuration.js';
+import { ConfigReferences } from '../core/config-references.js';
+import { QueryPolicyError } from '../core/query-policy.js';
+import { ContinuationToken } from '../core/continuation-token.js';
 import { SchemaManagementService } from './schema-management-service.js';
 import { DataExportImportService } from './data-export-import-service.js';
 import { QueryAnalysisService } from './query-analysis-service.js';
+import { AccessPolicyService } from './access-policy-service.js';
+import { PromptService } from './prompt-service.js';
+import { MCPHttpServer } from './mcp-http-server.js';
+import { SessionContext, SessionState } from '../core/session-context.js';
+import { MIGRATION_FILE_FORMATS } from '../core/migration-file-renderer.js';
+
+// Tools that can modify data and are withheld from read-only connections
+const WRITE_TOOLS = new Set([
+  'import_data', 'execute_batch', 'begin_transaction', 'commit_transaction', 'rollback_transaction',
+  'savepoint', 'rollback_to_savepoint', 'release_savepoint', 'apply_migration', 'rollback_migration',
+]);
+// Options shared by compare_schemas and generate_migration
+const SCHEMA_COMPARISON_PROPERTIES = {
+  schema_map: {
+    type: 'object',
+    additionalProperties: { type: 'string' },
+    description: 'Map source schemas to target schemas, e.g. { "public": "staging" }; only mapped schemas are compared',
+  },
+  ignore_tables: {
+    type: 'array',
+    items: { type: 'string' },
+    description: 'Table, view, routine, trigger, sequence and enum patterns to skip, matched against name or schema.name (* is a wildcard)',
+  },
+  ignore_columns: {
+    type: 'array',
+    items: { type: 'string' },
+    description: 'Column patterns to skip, matched against column, table.column or schema.table.column',
+  },
+  ignore_indexes: {
+    type: 'array',
+    items: { type: 'string' },
+    description: 'Index name patterns to skip',
+  },
+};
+const ISOLATION_LEVELS: IsolationLevel[] = ['read_uncommitted', 'read_committed', 'repeatable_read', 'serializable', 'snapshot'];
 
 export class MCPServerService {
-  private server: Server;
+  private httpServer: MCPHttpServer | null = null;
   private connectionManager: DatabaseConnectionManager;
   private config: MCPConfig;
   private schemaService: SchemaManagementService;
   private exportImportService: DataExportImportService;
   private queryAnalysisService: QueryAnalysisService;
+  private accessPolicyService: AccessPolicyService;
+  private promptService: PromptService;
 
   constructor(config: MCPConfig) {
     this.config = config;
     this.connectionManager = new DatabaseConnectionManager();
-    this.schemaService = new SchemaManagementService(this.connectionManager);
-    this.exportImportService = new DataExportImportService(this.connectionManager);
-    this.queryAnalysisService = new QueryAnalysisService(this.connectionManager);
-    this.server = new Server(
+    this.accessPolicyService = new AccessPolicyService(this.connectionManager);
+    this.accessPolicyService.loadConfiguredPolicies(config.databases);
+    this.schemaService = new SchemaManagementService(this.connectionManager, this.accessPolicyService);
+    this.exportImportService = new DataExportImportService(this.connectionManager, this.accessPolicyService);
+    this.queryAnalysisService = new QueryAnalysisService(this.connectionManager, this.accessPolicyService);
+    this.promptService = new PromptService(this.connectionManager, this.accessPolicyService, this.queryAnalysisService);
+  }
+
+  /**
+   * Build an MCP server for one client session; stdio runs a single server outside any session.
+   */
+  private createServer(session?: SessionState): Server {
+    const server = new Server(
+      {
+        name: this.config.server.name,
+        version: this.config.server.version,
+      },
       {
-        name: config.server.name,
-        version: config.server.version,
+        capabilities: {
+          tools: {},
+          resources: {},
+          prompts: {},
+          logging: {},
+        },
       }
     );
 
-    this.setupHandlers();
+    this.setupHandlers(server, session);
+    return server;
   }
 
-  private setupHandlers(): void {
-    this.server.setRequestHandler(ListToolsRequestSchema, async () => {
+  private setupHandlers(server: Server, session?: SessionState): void {
+    // Handlers run in the session's context, so the current connection resolves per session
+    const inSession = <A extends unknown[], R>(handler: (..._args: A) => R) => (...args: A): R => SessionContext.run(session, () => handler(...args));
+
+    server.setRequestHandler(ListToolsRequestSchema, inSession(async () => {
       return {
-        tools: [
+        tools: this.applyReadOnlyToolPolicy([
           {
             name: 'execute_query',
             description: 'Execute a query on the current database connection',
@@ -53,18 +119,65 @@ export class MCPServerService {
                   description: 'Query to execute (SQL for relational DBs, JSON for MongoDB, commands for Redis)',
                 },
                 parameters: {
-                  type: 'array',
-                  description: 'Query parameters',
-                  items: { type: 'string' },
+                  oneOf: [{ type: 'array' }, { type: 'object' }],
+                  description: 'Positional values for ? placeholders (or the native $1 / @param0 style), or an object of named values for :name placeholders',
                 },
                 connection: {
                   type: 'string',
                   description: 'Connection name (optional, uses current if not specified)',
                 },
+                max_rows: {
+                  type: 'number',
+                  description: 'Maximum rows to return (capped by the connection maxRows setting)',
+                },
+                continuation_token: {
+                  type: 'string',
+                  description: 'Token from a truncated result to fetch the next rows of the same query',
+                },
+                cursor: {
+                  type: 'boolean',
+                  description: 'Open a server-side cursor for a read query; fetch the remaining rows with fetch_more',
+                },
+                timeout_ms: {
+                  type: 'number',
+                  description: 'Statement timeout in milliseconds (overrides the connection timeoutMs)',
+                },
               },
               required: ['query'],
             },
           },
+          {
+            name: 'fetch_more',
+            description: 'Fetch the next rows from a cursor opened by execute_query',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                cursor: {
+                  type: 'string',
+                  description: 'Cursor id returned by execute_query or a previous fetch_more',
+                },
+                max_rows: {
+                  type: 'number',
+                  description: 'Maximum rows to return (capped by the connection maxRows setting)',
+                },
+              },
+              required: ['cursor'],
+            },
+          },
+          {
+            name: 'close_cursor',
+            description: 'Close a cursor before it is exhausted and release its database resources',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                cursor: {
+                  type: 'string',
+                  description: 'Cursor id to close',
+                },
+              },
+              required: ['cursor'],
+            },
+          },
           {
             name: 'get_tables',
             description: 'Get list of all tables/collections in the current database',
@@ -136,6 +249,15 @@ export class MCPServerService {
                   type: 'string',
                   description: 'Connection name (optional, uses current if not specified)',
                 },
+                isolation_level: {
+                  type: 'string',
+                  enum: ISOLATION_LEVELS,
+                  description: 'Transaction isolation level (optional, defaults to the database default; snapshot is SQL Server only)',
+                },
+                read_only: {
+                  type: 'boolean',
+                  description: 'Reject writes inside the transaction (optional, default: false)',
+                },
               },
             },
           },
@@ -165,6 +287,60 @@ export class MCPServerService {
               },
             },
           },
+          {
+            name: 'savepoint',
+            description: 'Create a savepoint in the current transaction',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                name: {
+                  type: 'string',
+                  description: 'Savepoint name (letters, digits and underscores)',
+                },
+                connection: {
+                  type: 'string',
+                  description: 'Connection name (optional, uses current if not specified)',
+                },
+              },
+              required: ['name'],
+            },
+          },
+          {
+            name: 'rollback_to_savepoint',
+            description: 'Roll the current transaction back to a savepoint, keeping the transaction open',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                name: {
+                  type: 'string',
+                  description: 'Savepoint name (letters, digits and underscores)',
+                },
+                connection: {
+                  type: 'string',
+                  description: 'Connection name (optional, uses current if not specified)',
+                },
+              },
+              required: ['name'],
+            },
+          },
+          {
+            name: 'release_savepoint',
+            description: 'Release a savepoint, keeping the changes made since it',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                name: {
+                  type: 'string',
+                  description: 'Savepoint name (letters, digits and underscores)',
+                },
+                connection: {
+                  type: 'string',
+                  description: 'Connection name (optional, uses current if not specified)',
+                },
+              },
+              required: ['name'],
+            },
+          },
           {
             name: 'execute_batch',
             description: 'Execute multiple queries in a transaction',
@@ -183,8 +359,8 @@ export class MCPServerService {
                       },
                       query: { type: 'string' },
                       parameters: {
-                        type: 'array',
-                        items: { type: 'string' },
+                        oneOf: [{ type: 'array' }, { type: 'object' }],
+                        description: 'Positional values for ? placeholders, or named values for :name placeholders',
                       },
                     },
                     required: ['type', 'query'],
@@ -230,6 +406,16 @@ export class MCPServerService {
                   },
                   required: ['type'],
                 },
+                persist: {
+                  type: 'boolean',
+                  description: 'Save the connection to the project config file so it survives restarts',
+                  default: false,
+                },
+                persist_secrets: {
+                  type: 'boolean',
+                  description: 'Also write passwords and secret keys to the config file (only with persist)',
+                  default: false,
+                },
               },
               required: ['name', 'config'],
             },
@@ -244,6 +430,11 @@ export class MCPServerService {
                   type: 'string',
                   description: 'Name of the connection to remove',
                 },
+                persist: {
+                  type: 'boolean',
+                  description: 'Also delete the connection from the project config file',
+                  default: false,
+                },
               },
               required: ['name'],
             },
@@ -253,7 +444,13 @@ export class MCPServerService {
             description: 'List all database connections',
             inputSchema: {
               type: 'object',
-              properties: {},
+              properties: {
+                include_source: {
+                  type: 'boolean',
+                  description: 'Show where each connection came from (config, discovered, environment, runtime)',
+                  default: false,
+                },
+              },
             },
           },
           {
@@ -280,7 +477,7 @@ export class MCPServerService {
           },
           {
             name: 'compare_schemas',
-            description: 'Compare schemas between two database connections',
+            description: 'Compare tables, columns, indexes, constraints, views, routines, triggers, sequences and enums between two database connections',
             inputSchema: {
               type: 'object',
               properties: {
@@ -292,6 +489,7 @@ export class MCPServerService {
                   type: 'string',
                   description: 'Target connection name',
                 },
+                ...SCHEMA_COMPARISON_PROPERTIES,
               },
               required: ['source_connection', 'target_connection'],
             },
@@ -314,10 +512,78 @@ export class MCPServerService {
                   type: 'string',
                   description: 'Name for the migration',
                 },
+                file_format: {
+                  type: 'string',
+                  enum: MIGRATION_FILE_FORMATS,
+                  description: 'Also write the migration as up/down files for this migration tool',
+                },
+                output_dir: {
+                  type: 'string',
+                  description: 'Directory for the migration files (default: migrations)',
+                },
+                ...SCHEMA_COMPARISON_PROPERTIES,
               },
               required: ['source_connection', 'target_connection', 'migration_name'],
             },
           },
+          {
+            name: 'apply_migration',
+            description: 'Apply a generated migration to a connection and record it in the pinemcp_migrations table; steps run in one transaction where the database supports transactional DDL',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                migration_id: {
+                  type: 'string',
+                  description: 'ID returned by generate_migration',
+                },
+                connection: {
+                  type: 'string',
+                  description: 'Connection to apply the migration to, usually its target connection',
+                },
+                dry_run: {
+                  type: 'boolean',
+                  description: 'Return the statements that would run without executing them',
+                },
+              },
+              required: ['migration_id', 'connection'],
+            },
+          },
+          {
+            name: 'rollback_migration',
+            description: 'Undo the most recently applied migration on a connection by running its rollback SQL in reverse step order',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                migration_id: {
+                  type: 'string',
+                  description: 'ID of the applied migration',
+                },
+                connection: {
+                  type: 'string',
+                  description: 'Connection the migration was applied to',
+                },
+                dry_run: {
+                  type: 'boolean',
+                  description: 'Return the statements that would run without executing them',
+                },
+              },
+              required: ['migration_id', 'connection'],
+            },
+          },
+          {
+            name: 'migration_status',
+            description: 'List the migrations applied to a connection and the generated migrations still pending for it',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                connection: {
+                  type: 'string',
+                  description: 'Connection name',
+                },
+              },
+              required: ['connection'],
+            },
+          },
           {
             name: 'generate_ddl',
             description: 'Generate DDL for a database connection',
@@ -343,6 +609,21 @@ export class MCPServerService {
                   description: 'Include constraints in DDL',
                   default: true,
                 },
+                include_views: {
+                  type: 'boolean',
+                  description: 'Include views and materialized views',
+                  default: true,
+                },
+                include_functions: {
+                  type: 'boolean',
+                  description: 'Include functions and stored procedures',
+                  default: false,
+                },
+                include_triggers: {
+                  type: 'boolean',
+                  description: 'Include triggers',
+                  default: false,
+                },
                 format: {
                   type: 'string',
                   enum: ['sql', 'json', 'yaml'],
@@ -462,7 +743,7 @@ export class MCPServerService {
           },
           {
             name: 'analyze_query',
-            description: 'Analyze query performance and provide recommendations',
+            description: 'Analyze query performance from its execution plan and provide recommendations; the query is not executed unless execute is set',
             inputSchema: {
               type: 'object',
               properties: {
@@ -475,9 +756,21 @@ export class MCPServerService {
                   description: 'Query to analyze',
                 },
                 parameters: {
-                  type: 'array',
-                  items: { type: 'string' },
-                  description: 'Query parameters',
+                  oneOf: [{ type: 'array' }, { type: 'object' }],
+                  description: 'Positional values for ? placeholders, or named values for :name placeholders',
+                },
+                execute: {
+                  type: 'boolean',
+                  description: 'Run the query to time it; writes run in a transaction that is always rolled back',
+                  default: false,
+                },
+                analyze: {
+                  type: 'boolean',
+                  description: 'Include actual row counts and timings in the plan (PostgreSQL, SQL Server, MongoDB); writes are rolled back',
+                },
+                raw_plan: {
+                  type: 'boolean',
+                  description: 'Also return the plan exactly as the database reported it',
                 },
               },
               required: ['connection', 'query'],
@@ -519,6 +812,30 @@ export class MCPServerService {
               properties: {},
             },
           },
+          {
+            name: 'recommend_indexes',
+            description: 'Recommend indexes for the filter, join and sort columns of analyzed queries, and flag duplicate or redundant indexes',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                connection: {
+                  type: 'string',
+                  description: 'Connection name',
+                },
+                tables: {
+                  type: 'array',
+                  items: { type: 'string' },
+                  description: 'Only consider these tables (defaults to all tables)',
+                },
+                limit: {
+                  type: 'number',
+                  description: 'Maximum number of recommendations',
+                  default: 10,
+                },
+              },
+              required: ['connection'],
+            },
+          },
           {
             name: 'save_query_template',
             description: 'Save a query template',
@@ -535,7 +852,7 @@ export class MCPServerService {
                 },
                 query: {
                   type: 'string',
-                  description: 'Query template with {parameter} placeholders',
+                  description: 'Query template with {parameter} placeholders; values are bound as query parameters, never pasted into the SQL',
                 },
                 parameters: {
                   type: 'array',
@@ -543,9 +860,18 @@ export class MCPServerService {
                     type: 'object',
                     properties: {
                       name: { type: 'string' },
-                      type: { type: 'string' },
+                      type: {
+                        type: 'string',
+                        enum: ['string', 'int', 'number', 'boolean', 'date', 'array', 'identifier'],
+                        description: 'array expands into an IN list; identifier is a table or column name chosen from allowedValues',
+                      },
                       required: { type: 'boolean' },
-                      defaultValue: { type: 'string' },
+                      defaultValue: { description: 'Used when no value is given' },
+                      allowedValues: {
+                        type: 'array',
+                        items: { type: 'string' },
+                        description: 'Whitelist of names, required for identifier parameters',
+                      },
                     },
                     required: ['name', 'type', 'required'],
                   },
@@ -604,83 +930,281 @@ export class MCPServerService {
               required: ['connection', 'template_id', 'parameters'],
             },
           },
-        ],
-      };
-    });
-
-    this.server.setRequestHandler(ListResourcesRequestSchema, async () => {
-      const currentDb = this.connectionManager.getConnection();
-      if (!currentDb) {
-        return { resources: [] };
-      }
-
-      try {
-        const tables = await currentDb.getTables();
-        return {
-          resources: tables.map(table => ({
-            uri: `table://${table.schema || 'default'}/${table.name}`,
-            name: table.name,
-            description: `${table.type} in ${table.schema || 'default'} schema`,
-            mimeType: 'application/json',
-          })),
-        };
-      } catch (error) {
-        return { resources: [] };
-      }
-    });
-
-    this.server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
-      const currentDb = this.connectionManager.getConnection();
-      if (!currentDb) {
-        throw new Error('No database connection');
-      }
-
-      const uri = request.params.uri;
-      if (!uri.startsWith('table://')) {
-        throw new Error('Invalid resource URI');
-      }
-
-      const remainder = uri.slice('table://'.length);
-      const parts = remainder.split('/').filter(Boolean);
-      let schema: string | undefined = undefined;
-      let tableName: string | undefined = undefined;
-      if (parts.length === 1) {
-        tableName = parts[0];
-      } else if (parts.length >= 2) {
-        schema = parts[0];
-        tableName = parts.slice(1).join('/');
-      }
-      if (!tableName) {
-        throw new Error('Invalid table name in URI');
-      }
-
-      try {
-        const tableInfo = await currentDb.getTableInfo(tableName, schema === 'default' ? undefined : schema);
-        if (!tableInfo) {
-          throw new Error('Table not found');
-        }
-
-        return {
-          contents: [
-            {
-              uri,
-              mimeType: 'application/json',
-              text: JSON.stringify(tableInfo, null, 2),
-            },
-          ],
-        };
-      } catch (error) {
-        throw new Error(`Failed to read table info: ${error}`);
-      }
-    });
-
-    this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
-      const { name, arguments: args } = request.params;
-
+          {
+            name: 'get_template',
+            description: 'Get a query template, or one of its earlier versions',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                template_id: {
+                  type: 'string',
+                  description: 'Template ID',
+                },
+                version: {
+                  type: 'number',
+                  description: 'Version to fetch (defaults to the current one)',
+                },
+              },
+              required: ['template_id'],
+            },
+          },
+          {
+            name: 'update_template',
+            description: 'Update a query template, recording the change as a new version',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                template_id: {
+                  type: 'string',
+                  description: 'Template ID',
+                },
+                name: { type: 'string' },
+                description: { type: 'string' },
+                query: {
+                  type: 'string',
+                  description: 'Query template with {parameter} placeholders',
+                },
+                parameters: {
+                  type: 'array',
+                  items: { type: 'object' },
+                  description: 'Template parameters, in the same form as save_query_template',
+                },
+                tags: {
+                  type: 'array',
+                  items: { type: 'string' },
+                },
+                connection_type: { type: 'string' },
+              },
+              required: ['template_id'],
+            },
+          },
+          {
+            name: 'delete_template',
+            description: 'Delete a query template and its version history',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                template_id: {
+                  type: 'string',
+                  description: 'Template ID',
+                },
+              },
+              required: ['template_id'],
+            },
+          },
+          {
+            name: 'get_template_history',
+            description: 'List every version of a query template, oldest first',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                template_id: {
+                  type: 'string',
+                  description: 'Template ID',
+                },
+              },
+              required: ['template_id'],
+            },
+          },
+          {
+            name: 'diff_template_versions',
+            description: 'Show what changed between two versions of a query template',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                template_id: {
+                  type: 'string',
+                  description: 'Template ID',
+                },
+                from_version: {
+                  type: 'number',
+                  description: 'Older version',
+                },
+                to_version: {
+                  type: 'number',
+                  description: 'Newer version (defaults to the current one)',
+                },
+              },
+              required: ['template_id', 'from_version'],
+            },
+          },
+          {
+            name: 'revert_template',
+            description: 'Restore an earlier version of a query template as a new version',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                template_id: {
+                  type: 'string',
+                  description: 'Template ID',
+                },
+                version: {
+                  type: 'number',
+                  description: 'Version to restore',
+                },
+              },
+              required: ['template_id', 'version'],
+            },
+          },
+          {
+            name: 'export_templates',
+            description: 'Export query templates as a JSON or YAML library to share',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                format: {
+                  type: 'string',
+                  enum: ['json', 'yaml'],
+                  description: 'Output format (default json)',
+                },
+                output_path: {
+                  type: 'string',
+                  description: 'File to write; the library is returned inline when omitted',
+                },
+                template_ids: {
+                  type: 'array',
+                  items: { type: 'string' },
+                  description: 'Only export these templates (optional)',
+                },
+                connection_type: {
+                  type: 'string',
+                  description: 'Filter by database type (optional)',
+                },
+                tags: {
+                  type: 'array',
+                  items: { type: 'string' },
+                  description: 'Filter by tags (optional)',
+                },
+              },
+            },
+          },
+          {
+            name: 'import_templates',
+            description: 'Import a JSON or YAML template library',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                file_path: {
+                  type: 'string',
+                  description: 'File to read',
+                },
+                content: {
+                  type: 'string',
+                  description: 'Library content, instead of file_path',
+                },
+                format: {
+                  type: 'string',
+                  enum: ['json', 'yaml'],
+                  description: 'Defaults to the file extension, or json',
+                },
+                overwrite: {
+                  type: 'boolean',
+                  description: 'Update templates with the same name and connection type as a new version instead of skipping them',
+                },
+              },
+            },
+          },
+        ]),
+      };
+    }));
+
+    server.setRequestHandler(ListResourcesRequestSchema, inSession(async () => {
+      const currentDb = this.connectionManager.getConnection();
+      if (!currentDb) {
+        return { resources: [] };
+      }
+
+      try {
+        const tables = this.accessPolicyService.filterTables(null, await currentDb.getTables());
+        return {
+          resources: tables.map(table => ({
+            uri: `table://${table.schema || 'default'}/${table.name}`,
+            name: table.name,
+            description: `${table.type} in ${table.schema || 'default'} schema`,
+            mimeType: 'application/json',
+          })),
+        };
+      } catch (error) {
+        return { resources: [] };
+      }
+    }));
+
+    server.setRequestHandler(ReadResourceRequestSchema, inSession(async (request) => {
+      const currentDb = this.connectionManager.getConnection();
+      if (!currentDb) {
+        throw new Error('No database connection');
+      }
+
+      const uri = request.params.uri;
+      if (!uri.startsWith('table://')) {
+        throw new Error('Invalid resource URI');
+      }
+
+      const remainder = uri.slice('table://'.length);
+      const parts = remainder.split('/').filter(Boolean);
+      let schema: string | undefined = undefined;
+      let tableName: string | undefined = undefined;
+      if (parts.length === 1) {
+        tableName = parts[0];
+      } else if (parts.length >= 2) {
+        schema = parts[0];
+        tableName = parts.slice(1).join('/');
+      }
+      if (!tableName) {
+        throw new Error('Invalid table name in URI');
+      }
+
+      const tableSchema = schema === 'default' ? undefined : schema;
+      this.accessPolicyService.assertTableAllowed(null, tableName, tableSchema);
+
       try {
+        const tableInfo = await currentDb.getTableInfo(tableName, tableSchema);
+        if (!tableInfo) {
+          throw new Error('Table not found');
+        }
+
+        return {
+          contents: [
+            {
+              uri,
+              mimeType: 'application/json',
+              text: JSON.stringify(this.accessPolicyService.redactTableInfo(null, tableInfo), null, 2),
+            },
+          ],
+        };
+      } catch (error) {
+        throw new Error(`Failed to read table info: ${error}`);
+      }
+    }));
+
+    server.setRequestHandler(ListPromptsRequestSchema, inSession(async () => {
+      return { prompts: this.promptService.listPrompts() };
+    }));
+
+    server.setRequestHandler(GetPromptRequestSchema, inSession(async (request) => {
+      const prompt = await this.promptService.getPrompt(request.params.name, request.params.arguments);
+      return { description: prompt.description, messages: prompt.messages };
+    }));
+
+    server.setRequestHandler(CallToolRequestSchema, inSession(async (request, extra) => {
+      const { name, arguments: args } = request.params;
+      let heldConnections: string[] = [];
+
+      try {
+        this.assertToolAllowed(name, args);
+        const targets = this.getTargetConnections(args);
+        this.accessPolicyService.assertToolAllowed(name, targets);
+        // A transaction is not idle while a tool call is using its connection
+        heldConnections = targets.filter((target): target is string => Boolean(target));
+        this.connectionManager.holdTransactions(heldConnections);
+
         switch (name) {
           case 'execute_query':
-            return await this.handleExecuteQuery(args);
+            return await this.handleExecuteQuery(args, extra.signal);
+          case 'fetch_more':
+            return await this.handleFetchMore(args);
+          case 'close_cursor':
+            return await this.handleCloseCursor(args);
           case 'get_tables':
             return await this.handleGetTables(args);
           case 'get_table_info':
@@ -695,6 +1219,12 @@ export class MCPServerService {
             return await this.handleCommitTransaction(args);
           case 'rollback_transaction':
             return await this.handleRollbackTransaction(args);
+          case 'savepoint':
+            return await this.handleSavepoint(args, 'create');
+          case 'rollback_to_savepoint':
+            return await this.handleSavepoint(args, 'rollback');
+          case 'release_savepoint':
+            return await this.handleSavepoint(args, 'release');
           case 'execute_batch':
             return await this.handleExecuteBatch(args);
           case 'add_connection':
@@ -702,7 +1232,7 @@ export class MCPServerService {
           case 'remove_connection':
             return await this.handleRemoveConnection(args);
           case 'list_connections':
-            return await this.handleListConnections();
+            return await this.handleListConnections(args);
           case 'switch_connection':
             return await this.handleSwitchConnection(args);
           case 'get_current_connection':
@@ -711,6 +1241,12 @@ export class MCPServerService {
             return await this.handleCompareSchemas(args);
           case 'generate_migration':
             return await this.handleGenerateMigration(args);
+          case 'apply_migration':
+            return await this.handleApplyMigration(args);
+          case 'rollback_migration':
+            return await this.handleRollbackMigration(args);
+          case 'migration_status':
+            return await this.handleMigrationStatus(args);
           case 'generate_ddl':
             return await this.handleGenerateDDL(args);
           case 'validate_schema':
@@ -727,16 +1263,45 @@ export class MCPServerService {
             return await this.handleGetSlowQueries(args);
           case 'get_query_statistics':
             return await this.handleGetQueryStatistics();
+          case 'recommend_indexes':
+            return await this.handleRecommendIndexes(args);
           case 'save_query_template':
             return await this.handleSaveQueryTemplate(args);
           case 'get_query_templates':
             return await this.handleGetQueryTemplates(args);
           case 'execute_template':
             return await this.handleExecuteTemplate(args);
+          case 'get_template':
+            return await this.handleGetTemplate(args);
+          case 'update_template':
+            return await this.handleUpdateTemplate(args);
+          case 'delete_template':
+            return await this.handleDeleteTemplate(args);
+          case 'get_template_history':
+            return await this.handleGetTemplateHistory(args);
+          case 'diff_template_versions':
+            return await this.handleDiffTemplateVersions(args);
+          case 'revert_template':
+            return await this.handleRevertTemplate(args);
+          case 'export_templates':
+            return await this.handleExportTemplates(args);
+          case 'import_templates':
+            return await this.handleImportTemplates(args);
           default:
             throw new Error(`Unknown tool: ${name}`);
         }
       } catch (error) {
+        if (error instanceof QueryPolicyError) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify({ error: error.message, denial: error.denial }, null, 2),
+              },
+            ],
+            isError: true,
+          };
+        }
         return {
           content: [
             {
@@ -746,8 +1311,57 @@ export class MCPServerService {
           ],
           isError: true,
         };
+      } finally {
+        this.connectionManager.releaseTransactions(heldConnections, message => {
+          server.sendLoggingMessage({ level: 'warning', logger: 'pinemcp', data: message }, server.transport?.sessionId)
+            .catch(error => console.error('Failed to send log message:', error));
+        });
       }
-    });
+    }));
+  }
+
+  /**
+   * Hide write tools when every connection is read-only, otherwise mark the connections they are refused on.
+   */
+  private applyReadOnlyToolPolicy<T extends { name: string; description: string }>(tools: T[]): T[] {
+    const connections = this.connectionManager.listConnections();
+    const readOnly = connections.filter(connection => connection.readOnly).map(connection => connection.name);
+
+    if (this.config.readOnly || (connections.length > 0 && readOnly.length === connections.length)) {
+      return tools.filter(tool => !WRITE_TOOLS.has(tool.name));
+    }
+    if (readOnly.length === 0) {
+      return tools;
+    }
+
+    return tools.map(tool => (WRITE_TOOLS.has(tool.name)
+      ? { ...tool, description: `${tool.description} (not available on read-only connections: ${readOnly.join(', ')})` }
+      : tool));
+  }
+
+  private assertToolAllowed(toolName: string, args: any): void {
+    if (!WRITE_TOOLS.has(toolName)) {
+      return;
+    }
+
+    const connectionName = args?.connection || this.connectionManager.getCurrentConnectionName();
+    const db = connectionName ? this.connectionManager.getConnection(connectionName) : null;
+    if (this.config.readOnly || db?.isReadOnly()) {
+      throw new Error(`Tool '${toolName}' is not available on read-only connection '${connectionName}'`);
+    }
+  }
+
+  /**
+   * Connections a tool call acts on, for access policy checks.
+   */
+  private getTargetConnections(args: any): Array<string | null> {
+    const cursorConnection = typeof args?.cursor === 'string' ? this.connectionManager.getCursor(args.cursor).connectionName : null;
+    const targets = [args?.connection, args?.source_connection, args?.target_connection, cursorConnection].filter(Boolean);
+    return targets.length > 0 ? targets : [this.connectionManager.getCurrentConnectionName()];
+  }
+
+  private withGlobalSettings<T extends DatabaseConfig>(config: T): T {
+    return this.config.readOnly ? { ...config, readOnly: true } : config;
   }
 
   private getConnection(connectionName?: string): BaseDatabaseAdapter {
@@ -758,14 +1372,37 @@ export class MCPServerService {
     return connection;
   }
 
-  private async handleExecuteQuery(args: any): Promise<any> {
-    const { query, parameters, connection } = args;
+  private async handleExecuteQuery(args: any, signal?: AbortSignal): Promise<any> {
+    const { query, parameters, connection, max_rows, continuation_token, cursor, timeout_ms } = args;
     if (!query) {
       throw new Error('Query is required');
     }
 
     const db = this.getConnection(connection);
-    const result = await db.safeExecuteQuery(query, parameters);
+    this.accessPolicyService.assertQueryAllowed(connection, db, query);
+
+    const limits = db.getResultLimits();
+    const maxRows = max_rows ? Math.min(max_rows, limits.maxRows) : limits.maxRows;
+    if (cursor) {
+      if (continuation_token) {
+        throw new Error('continuation_token cannot be combined with cursor; use fetch_more');
+      }
+      const connectionName = connection || this.connectionManager.getCurrentConnectionName();
+      const id = this.connectionManager.registerCursor(connectionName, query, await db.safeOpenCursor(query, parameters));
+      return this.readCursorPage(id, maxRows);
+    }
+
+    const pageable = db.isPageable(query);
+    if (continuation_token && !pageable) {
+      throw new Error('continuation_token is only accepted for a single read statement');
+    }
+    const page = continuation_token ? ContinuationToken.decode(continuation_token, query, parameters) : undefined;
+    const result = this.fitToResponseLimit(
+      this.accessPolicyService.redactResult(connection, db, query, await db.safeExecuteQuery(query, parameters, { maxRows, page, timeoutMs: timeout_ms, signal })),
+      page,
+      pageable,
+      limits.maxResponseBytes
+    );
     
     return {
       content: [
@@ -775,16 +1412,125 @@ export class MCPServerService {
             rows: result.rows,
             rowCount: result.rowCount,
             fields: result.fields,
+            ...(result.truncated ? {
+              truncated: true,
+              continuationToken: result.nextPage ? ContinuationToken.encode(query, parameters, result.nextPage) : undefined,
+            } : {}),
           }, null, 2),
         },
       ],
     };
   }
 
+  private async handleFetchMore(args: any): Promise<any> {
+    const { cursor, max_rows } = args;
+    if (!cursor) {
+      throw new Error('Cursor is required');
+    }
+
+    const { maxRows } = this.getConnection(this.connectionManager.getCursor(cursor).connectionName).getResultLimits();
+    return this.readCursorPage(cursor, max_rows ? Math.min(max_rows, maxRows) : maxRows);
+  }
+
+  private async handleCloseCursor(args: any): Promise<any> {
+    const { cursor } = args;
+    if (!cursor) {
+      throw new Error('Cursor is required');
+    }
+
+    this.connectionManager.getCursor(cursor);
+    await this.connectionManager.closeCursor(cursor);
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify({ cursor, closed: true }, null, 2),
+        },
+      ],
+    };
+  }
+
+  /**
+   * Read the next page from a cursor, redacted and cut to the connection's response size limit.
+   */
+  private async readCursorPage(cursor: string, maxRows: number): Promise<any> {
+    const { connectionName, query } = this.connectionManager.getCursor(cursor);
+    const db = this.getConnection(connectionName);
+    const { maxResponseBytes } = db.getResultLimits();
+    const redact = (rows: QueryResult['rows'], fields: QueryResult['fields']) =>
+      this.accessPolicyService.redactResult(connectionName, db, query, { rows, rowCount: rows.length, fields });
+
+    const page = await this.connectionManager.readCursor(cursor, maxRows, (rows, fields) => {
+      const redacted = redact(rows, fields);
+      return this.countRowsWithinLimit(redacted.rows, redacted.fields, maxResponseBytes);
+    });
+    const result = redact(page.rows, page.fields);
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify({
+            rows: result.rows,
+            rowCount: result.rows.length,
+            fields: result.fields,
+            done: page.done,
+            ...(page.done ? {} : { cursor }),
+          }, null, 2),
+        },
+      ],
+    };
+  }
+
+  /**
+   * Drop trailing rows until the serialized result fits in maxResponseBytes; the next page then starts at the first dropped row.
+   * Results that cannot be paged (writes returning rows) are only truncated and keep their affected row count.
+   */
+  private fitToResponseLimit(result: QueryResult, page: PageState | undefined, pageable: boolean, maxResponseBytes: number): QueryResult {
+    const count = this.countRowsWithinLimit(result.rows, result.fields, maxResponseBytes);
+    if (count === result.rows.length) {
+      return result;
+    }
+
+    const rows = result.rows.slice(0, count);
+    if (!pageable) {
+      return { ...result, rows, truncated: true };
+    }
+    return { ...result, rows, rowCount: rows.length, truncated: true, nextPage: { ...page, offset: (page?.offset || 0) + rows.length } };
+  }
+
+  /**
+   * How many leading rows fit in maxResponseBytes once serialized with their paging metadata.
+   */
+  private countRowsWithinLimit(rows: QueryResult['rows'], fields: QueryResult['fields'], maxResponseBytes: number): number {
+    const size = (count: number) => Buffer.byteLength(JSON.stringify({
+      rows: rows.slice(0, count), rowCount: count, fields, truncated: true, continuationToken: '', cursor: '',
+    }, null, 2));
+
+    if (size(rows.length) <= maxResponseBytes) {
+      return rows.length;
+    }
+
+    let low = 0;
+    let high = rows.length - 1;
+    while (low < high) {
+      const middle = Math.ceil((low + high) / 2);
+      if (size(middle) <= maxResponseBytes) {
+        low = middle;
+      } else {
+        high = middle - 1;
+      }
+    }
+    if (low === 0) {
+      throw new Error(`A single row exceeds the ${maxResponseBytes}-byte response limit; select fewer or smaller columns`);
+    }
+    return low;
+  }
+
   private async handleGetTables(args: any): Promise<any> {
     const { connection } = args;
     const db = this.getConnection(connection);
-    const tables = await db.getTables();
+    const tables = this.accessPolicyService.filterTables(connection, await db.getTables());
     
     return {
       content: [
@@ -803,6 +1549,7 @@ export class MCPServerService {
     }
 
     const db = this.getConnection(connection);
+    this.accessPolicyService.assertTableAllowed(connection, table_name, schema);
     const tableInfo = await db.getTableInfo(table_name, schema);
     if (!tableInfo) {
       throw new Error(`Table ${table_name} not found`);
@@ -812,7 +1559,7 @@ export class MCPServerService {
       content: [
         {
           type: 'text',
-          text: JSON.stringify(tableInfo, null, 2),
+          text: JSON.stringify(this.accessPolicyService.redactTableInfo(connection, tableInfo), null, 2),
         },
       ],
     };
@@ -849,9 +1596,12 @@ export class MCPServerService {
   }
 
   private async handleBeginTransaction(args: any): Promise<any> {
-    const { connection } = args;
+    const { connection, isolation_level, read_only } = args;
+    if (isolation_level !== undefined && !ISOLATION_LEVELS.includes(isolation_level)) {
+      throw new Error(`isolation_level must be one of ${ISOLATION_LEVELS.join(', ')}`);
+    }
     const db = this.getConnection(connection);
-    await db.beginTransaction();
+    await db.beginTransaction({ isolationLevel: isolation_level, readOnly: read_only === true });
     
     return {
       content: [
@@ -893,6 +1643,29 @@ export class MCPServerService {
     };
   }
 
+  private async handleSavepoint(args: any, action: SavepointAction): Promise<any> {
+    const { name, connection } = args;
+    if (!name) {
+      throw new Error('name is required');
+    }
+    const db = this.getConnection(connection);
+    await db.savepoint(action, name);
+
+    const messages: Record<SavepointAction, string> = {
+      create: `Savepoint '${name}' created`,
+      rollback: `Rolled back to savepoint '${name}'`,
+      release: `Savepoint '${name}' released`,
+    };
+    return {
+      content: [
+        {
+          type: 'text',
+          text: messages[action],
+        },
+      ],
+    };
+  }
+
   private async handleExecuteBatch(args: any): Promise<any> {
     const { operations, connection } = args;
     if (!operations || !Array.isArray(operations)) {
@@ -900,61 +1673,91 @@ export class MCPServerService {
     }
 
     const db = this.getConnection(connection);
+    for (const operation of operations) {
+      this.accessPolicyService.assertQueryAllowed(connection, db, operation.query);
+    }
     const results = await db.executeBatch(operations);
+    const redacted = results.map((result, index) => this.accessPolicyService.redactResult(connection, db, operations[index].query, result));
     
     return {
       content: [
         {
           type: 'text',
-          text: JSON.stringify(results, null, 2),
+          text: JSON.stringify(redacted, null, 2),
         },
       ],
     };
   }
 
   private async handleAddConnection(args: any): Promise<any> {
-    const { name, config } = args;
+    const { name, config, persist, persist_secrets } = args;
     if (!name || !config) {
       throw new Error('name and config are required');
     }
 
-    const validation = DatabaseAdapterFactory.validateConfig(config);
+    // Client-supplied references would otherwise read any server environment variable or file
+    const disallowed = ConfigReferences.findDisallowed(config, this.config.server.connectionReferences);
+    if (disallowed.length > 0) {
+      throw new Error(`Invalid configuration: ${disallowed.join(', ')}`);
+    }
+
+    const resolvedConfig = ConfigReferences.resolve(config);
+    const validation = DatabaseAdapterFactory.validateConfig(resolvedConfig);
     if (!validation.valid) {
       throw new Error(`Invalid configuration: ${validation.errors.join(', ')}`);
     }
 
-    await this.connectionManager.addConnection(name, config);
+    await this.connectionManager.addConnection(name, this.withGlobalSettings(resolvedConfig));
+    this.accessPolicyService.setRuntimePolicy(name, resolvedConfig.accessPolicy);
+
+    let message = `Connection '${name}' added successfully`;
+    if (persist) {
+      const path = Configuration.persistDatabase({ ...config, name }, { includeSecrets: persist_secrets === true });
+      this.connectionManager.setConnectionSource(name, 'config');
+      message += ` and saved to ${path}${persist_secrets ? '' : ' (secrets omitted)'}`;
+    }
     
     return {
       content: [
         {
           type: 'text',
-          text: `Connection '${name}' added successfully`,
+          text: message,
         },
       ],
     };
   }
 
   private async handleRemoveConnection(args: any): Promise<any> {
-    const { name } = args;
+    const { name, persist } = args;
     if (!name) {
       throw new Error('name is required');
     }
 
     await this.connectionManager.removeConnection(name);
+    this.accessPolicyService.setRuntimePolicy(name, undefined);
+
+    let message = `Connection '${name}' removed successfully`;
+    if (persist) {
+      message += Configuration.removePersistedDatabase(name)
+        ? ` and deleted from ${Configuration.getConfigPath()}`
+        : `; no saved entry found in ${Configuration.getConfigPath()}`;
+    }
     
     return {
       content: [
         {
           type: 'text',
-          text: `Connection '${name}' removed successfully`,
+          text: message,
         },
       ],
     };
   }
 
-  private async handleListConnections(): Promise<any> {
-    const connections = this.connectionManager.listConnections();
+  private async handleListConnections(args: any): Promise<any> {
+    const { include_source } = args || {};
+    const connections = this.connectionManager
+      .listConnections()
+      .map(({ source, ...connection }) => (include_source ? { ...connection, source } : connection));
     
     return {
       content: [
@@ -1003,7 +1806,7 @@ export class MCPServerService {
       throw new Error('source_connection and target_connection are required');
     }
 
-    const result = await this.schemaService.compareSchemas(source_connection, target_connection);
+    const result = await this.schemaService.compareSchemas(source_connection, target_connection, this.getComparisonOptions(args));
     
     return {
       content: [
@@ -1015,26 +1818,101 @@ export class MCPServerService {
     };
   }
 
+  private getComparisonOptions(args: any): SchemaComparisonOptions {
+    const { schema_map, ignore_tables, ignore_columns, ignore_indexes } = args;
+    return SchemaComparisonOptions.parse({
+      schemaMap: schema_map,
+      ignoreTables: ignore_tables,
+      ignoreColumns: ignore_columns,
+      ignoreIndexes: ignore_indexes,
+    });
+  }
+
   private async handleGenerateMigration(args: any): Promise<any> {
-    const { source_connection, target_connection, migration_name } = args;
+    const { source_connection, target_connection, migration_name, file_format, output_dir } = args;
     if (!source_connection || !target_connection || !migration_name) {
       throw new Error('source_connection, target_connection, and migration_name are required');
     }
+    if (file_format && !MIGRATION_FILE_FORMATS.includes(file_format)) {
+      throw new Error(`file_format must be one of: ${MIGRATION_FILE_FORMATS.join(', ')}`);
+    }
+
+    const migration = await this.schemaService.generateMigration(
+      source_connection,
+      target_connection,
+      migration_name,
+      this.getComparisonOptions(args)
+    );
+    const files = file_format
+      ? this.schemaService.exportMigrationFiles(migration.id, file_format, output_dir || 'migrations')
+      : undefined;
+    
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(files ? { ...migration, files } : migration, null, 2),
+        },
+      ],
+    };
+  }
+
+  private async handleApplyMigration(args: any): Promise<any> {
+    const { migration_id, connection, dry_run } = args;
+    if (!migration_id || !connection) {
+      throw new Error('migration_id and connection are required');
+    }
+
+    const run = await this.schemaService.applyMigration(migration_id, connection, dry_run === true);
+    
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(run, null, 2),
+        },
+      ],
+    };
+  }
+
+  private async handleRollbackMigration(args: any): Promise<any> {
+    const { migration_id, connection, dry_run } = args;
+    if (!migration_id || !connection) {
+      throw new Error('migration_id and connection are required');
+    }
 
-    const migration = await this.schemaService.generateMigration(source_connection, target_connection, migration_name);
+    const run = await this.schemaService.rollbackMigration(migration_id, connection, dry_run === true);
     
     return {
       content: [
         {
           type: 'text',
-          text: JSON.stringify(migration, null, 2),
+          text: JSON.stringify(run, null, 2),
+        },
+      ],
+    };
+  }
+
+  private async handleMigrationStatus(args: any): Promise<any> {
+    const { connection } = args;
+    if (!connection) {
+      throw new Error('connection is required');
+    }
+
+    const status = await this.schemaService.getMigrationStatus(connection);
+    
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(status, null, 2),
         },
       ],
     };
   }
 
   private async handleGenerateDDL(args: any): Promise<any> {
-    const { connection, include_data, include_indexes, include_constraints, format } = args;
+    const { connection, include_data, include_indexes, include_constraints, include_views, include_functions, include_triggers, format } = args;
     if (!connection) {
       throw new Error('connection is required');
     }
@@ -1043,9 +1921,9 @@ export class MCPServerService {
       includeData: include_data || false,
       includeIndexes: include_indexes !== false,
       includeConstraints: include_constraints !== false,
-      includeViews: true,
-      includeFunctions: false,
-      includeTriggers: false,
+      includeViews: include_views !== false,
+      includeFunctions: include_functions || false,
+      includeTriggers: include_triggers || false,
       format: (format || 'sql') as 'sql' | 'json' | 'yaml',
     };
 
@@ -1111,6 +1989,7 @@ export class MCPServerService {
     if (!connection || !file_path || !format || !table_name) {
       throw new Error('connection, file_path, format, and table_name are required');
     }
+    this.accessPolicyService.assertTableAllowed(connection, table_name);
 
     const options = {
       format,
@@ -1134,12 +2013,16 @@ export class MCPServerService {
   }
 
   private async handleAnalyzeQuery(args: any): Promise<any> {
-    const { connection, query, parameters } = args;
+    const { connection, query, parameters, execute, analyze, raw_plan } = args;
     if (!connection || !query) {
       throw new Error('connection and query are required');
     }
 
-    const result = await this.queryAnalysisService.analyzeQuery(connection, query, parameters || []);
+    const result = await this.queryAnalysisService.analyzeQuery(connection, query, parameters || [], {
+      execute: execute === true,
+      analyze: analyze === true,
+      rawPlan: raw_plan === true,
+    });
     
     return {
       content: [
@@ -1192,6 +2075,24 @@ export class MCPServerService {
     };
   }
 
+  private async handleRecommendIndexes(args: any): Promise<any> {
+    const { connection, tables, limit } = args;
+    if (!connection) {
+      throw new Error('connection is required');
+    }
+
+    const advice = await this.queryAnalysisService.recommendIndexes(connection, { tables, limit });
+    
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(advice, null, 2),
+        },
+      ],
+    };
+  }
+
   private async handleSaveQueryTemplate(args: any): Promise<any> {
     const { name, description, query, parameters, tags, connection_type } = args;
     if (!name || !description || !query || !parameters || !connection_type) {
@@ -1249,11 +2150,185 @@ export class MCPServerService {
     };
   }
 
+  private async handleGetTemplate(args: any): Promise<any> {
+    const { template_id, version } = args;
+    if (!template_id) {
+      throw new Error('template_id is required');
+    }
+
+    const template = version === undefined
+      ? this.queryAnalysisService.getTemplate(template_id)
+      : this.queryAnalysisService.getTemplateVersion(template_id, version);
+    if (!template) {
+      throw new Error('Template not found');
+    }
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(template, null, 2),
+        },
+      ],
+    };
+  }
+
+  private async handleUpdateTemplate(args: any): Promise<any> {
+    const { template_id, name, description, query, parameters, tags, connection_type } = args;
+    if (!template_id) {
+      throw new Error('template_id is required');
+    }
+
+    const updates: Partial<QueryTemplate> = {};
+    if (name !== undefined) updates.name = name;
+    if (description !== undefined) updates.description = description;
+    if (query !== undefined) updates.query = query;
+    if (parameters !== undefined) updates.parameters = parameters;
+    if (tags !== undefined) updates.tags = tags;
+    if (connection_type !== undefined) updates.connectionType = connection_type;
+
+    const template = await this.queryAnalysisService.updateTemplate(template_id, updates);
+    if (!template) {
+      throw new Error('Template not found');
+    }
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(template, null, 2),
+        },
+      ],
+    };
+  }
+
+  private async handleDeleteTemplate(args: any): Promise<any> {
+    const { template_id } = args;
+    if (!template_id) {
+      throw new Error('template_id is required');
+    }
+
+    const deleted = await this.queryAnalysisService.deleteTemplate(template_id);
+    if (!deleted) {
+      throw new Error('Template not found');
+    }
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `Template '${template_id}' deleted`,
+        },
+      ],
+    };
+  }
+
+  private async handleGetTemplateHistory(args: any): Promise<any> {
+    const { template_id } = args;
+    if (!template_id) {
+      throw new Error('template_id is required');
+    }
+
+    const history = this.queryAnalysisService.getTemplateHistory(template_id);
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(history, null, 2),
+        },
+      ],
+    };
+  }
+
+  private async handleDiffTemplateVersions(args: any): Promise<any> {
+    const { template_id, from_version, to_version } = args;
+    if (!template_id || from_version === undefined) {
+      throw new Error('template_id and from_version are required');
+    }
+
+    const diff = this.queryAnalysisService.diffTemplateVersions(template_id, from_version, to_version);
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(diff, null, 2),
+        },
+      ],
+    };
+  }
+
+  private async handleRevertTemplate(args: any): Promise<any> {
+    const { template_id, version } = args;
+    if (!template_id || version === undefined) {
+      throw new Error('template_id and version are required');
+    }
+
+    const template = await this.queryAnalysisService.revertTemplate(template_id, version);
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(template, null, 2),
+        },
+      ],
+    };
+  }
+
+  private async handleExportTemplates(args: any): Promise<any> {
+    const { format = 'json', output_path, template_ids, connection_type, tags } = args;
+    if (format !== 'json' && format !== 'yaml') {
+      throw new Error(`Unsupported template format: ${format}`);
+    }
+
+    const result = this.queryAnalysisService.exportTemplates(
+      { format, ids: template_ids, connectionType: connection_type, tags },
+      output_path
+    );
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: output_path ? `Exported ${result.count} templates to ${output_path}` : result.content,
+        },
+      ],
+    };
+  }
+
+  private async handleImportTemplates(args: any): Promise<any> {
+    const { file_path, content, overwrite } = args;
+    if (!file_path && !content) {
+      throw new Error('file_path or content is required');
+    }
+
+    if (args.format !== undefined && args.format !== 'json' && args.format !== 'yaml') {
+      throw new Error(`Unsupported template format: ${args.format}`);
+    }
+
+    const result = await this.queryAnalysisService.importTemplates(
+      { content, filePath: file_path },
+      args.format,
+      overwrite === true
+    );
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(result, null, 2),
+        },
+      ],
+    };
+  }
+
   async start(): Promise<void> {
     if (this.config.databases && this.config.databases.length > 0) {
       for (const db of this.config.databases) {
         try {
-          await this.connectionManager.addConnection(db.name, db);
+          await this.connectionManager.addConnection(db.name, this.withGlobalSettings(db), Configuration.getConnectionSource(db.name) || 'config');
           console.error(`Added connection: ${db.name} (${db.type})`);
         } catch (error) {
           console.error(`Failed to add connection ${db.name}: ${error}`);
@@ -1263,12 +2338,28 @@ export class MCPServerService {
       console.error('No database connections configured');
     }
 
-    const transport = new StdioServerTransport();
-    await this.server.connect(transport);
-    console.error('PineMCP started');
+    const { transport, host, port, authToken, sessionIdleTimeoutMs } = this.config.server;
+    if (transport === 'stdio') {
+      await this.createServer().connect(new StdioServerTransport());
+      console.error('PineMCP started');
+      return;
+    }
+
+    this.httpServer = new MCPHttpServer(
+      { transport, host, port, authToken, sessionIdleTimeoutMs },
+      session => this.createServer(session),
+      session => this.connectionManager.endSession(session)
+    );
+    await this.httpServer.listen();
+    const endpoint = transport === 'http' ? '/mcp' : '/sse';
+    console.error(`PineMCP started on http://${host.includes(':') ? `[${host}]` : host}:${port}${endpoint}${authToken ? ' (bearer token required)' : ''}`);
   }
 
   async stop(): Promise<void> {
+    if (this.httpServer) {
+      await this.httpServer.close();
+      this.httpServer = null;
+    }
     await this.connectionManager.disconnectAll();
   }
 }
@@ -0,0 +1,266 @@
+import { BaseDatabaseAdapter } from '../adapters/base-database-adapter.js';
+import { DatabaseConnectionManager } from '../adapters/database-connection-manager.js';
+import { AccessPolicyService } from './access-policy-service.js';
+import { QueryAnalysisService } from './query-analysis-service.js';
+import { SqlClassifier } from '../core/sql-classifier.js';
+import { MCPPrompt } from '../types/mcp.js';
+import { QueryTemplate, TemplateParameter } from '../types/schema.js';
+import { TableInfo } from '../types/database.js';
+
+// Caps how much schema a prompt embeds when it is not limited to specific tables
+const MAX_SCHEMA_TABLES = 25;
+
+const CONNECTION_ARGUMENT = {
+  name: 'connection',
+  description: 'Connection name (defaults to the current connection)',
+  required: false,
+};
+
+export interface PromptMessage {
+  role: 'user' | 'assistant';
+  content: { type: 'text'; text: string };
+}
+
+export interface PromptResult {
+  description: string;
+  messages: PromptMessage[];
+}
+
+interface BuiltInPrompt extends MCPPrompt {
+  render(_args: Record<string, string>): Promise<string>;
+}
+
+/**
+ * MCP prompts: built-in schema-aware prompts plus one prompt per saved query template. Prompts embed the live
+ * schema of the connection they target, filtered by its access policy.
+ */
+export class PromptService {
+  private connectionManager: DatabaseConnectionManager;
+  private accessPolicy: AccessPolicyService;
+  private queryAnalysis: QueryAnalysisService;
+  private builtIns: BuiltInPrompt[];
+
+  constructor(connectionManager: DatabaseConnectionManager, accessPolicy: AccessPolicyService, queryAnalysis: QueryAnalysisService) {
+    this.connectionManager = connectionManager;
+    this.accessPolicy = accessPolicy;
+    this.queryAnalysis = queryAnalysis;
+    this.builtIns = [
+      {
+        name: 'explain_table',
+        title: 'Explain this table',
+        description: 'Explain what a table stores, its columns, keys and relationships',
+        arguments: [
+          { name: 'table', description: 'Table name, optionally schema-qualified', required: true },
+          CONNECTION_ARGUMENT,
+        ],
+        render: args => this.renderExplainTable(args),
+      },
+      {
+        name: 'write_query',
+        title: 'Write a query for…',
+        description: 'Write a query against the live schema for a task described in plain language',
+        arguments: [
+          { name: 'task', description: 'What the query should do', required: true },
+          { name: 'tables', description: 'Comma-separated tables to focus on (defaults to all tables)', required: false },
+          CONNECTION_ARGUMENT,
+        ],
+        render: args => this.renderWriteQuery(args),
+      },
+      {
+        name: 'review_migration',
+        title: 'Review this migration',
+        description: 'Review a migration script against the live schema for correctness, locking and data loss',
+        arguments: [
+          { name: 'migration', description: 'Migration script to review', required: true },
+          CONNECTION_ARGUMENT,
+        ],
+        render: args => this.renderReviewMigration(args),
+      },
+    ];
+  }
+
+  listPrompts(): MCPPrompt[] {
+    const builtIns = this.builtIns.map(({ render: _render, ...prompt }) => prompt);
+    return [...builtIns, ...this.queryAnalysis.getTemplates().map(template => this.templatePrompt(template))];
+  }
+
+  async getPrompt(name: string, args: Record<string, string> = {}): Promise<PromptResult> {
+    const builtIn = this.builtIns.find(prompt => prompt.name === name);
+    const template = builtIn ? null : this.queryAnalysis.getTemplate(name);
+    const prompt = builtIn ?? (template ? this.templatePrompt(template) : null);
+    if (!prompt) {
+      throw new Error(`Unknown prompt: ${name}`);
+    }
+
+    for (const argument of prompt.arguments ?? []) {
+      if (argument.required && !args[argument.name]) {
+        throw new Error(`Missing required argument '${argument.name}' for prompt ${name}`);
+      }
+    }
+
+    const text = builtIn ? await builtIn.render(args) : await this.renderTemplate(template!, args);
+    return {
+      description: prompt.description,
+      messages: [{ role: 'user', content: { type: 'text', text } }],
+    };
+  }
+
+  private templatePrompt(template: QueryTemplate): MCPPrompt {
+    return {
+      name: template.id,
+      title: template.name,
+      description: template.description,
+      arguments: [
+        ...template.parameters.map(parameter => ({
+          name: parameter.name,
+          description: this.describeParameter(parameter),
+          required: parameter.required && parameter.defaultValue === undefined,
+        })),
+        CONNECTION_ARGUMENT,
+      ],
+    };
+  }
+
+  private describeParameter(parameter: TemplateParameter): string {
+    switch (parameter.type) {
+      case 'array':
+        return 'List of values, as a JSON array or comma-separated';
+      case 'identifier':
+        return `One of: ${(parameter.allowedValues ?? []).join(', ')}`;
+      case 'date':
+        return 'ISO 8601 date';
+      default:
+        return parameter.defaultValue === undefined ? parameter.type : `${parameter.type} (default ${JSON.stringify(parameter.defaultValue)})`;
+    }
+  }
+
+  private async renderExplainTable(args: Record<string, string>): Promise<string> {
+    const { name, db } = this.resolveConnection(args.connection);
+    const [schema, table] = this.splitTableName(args.table!);
+    this.accessPolicy.assertTableAllowed(name, table, schema);
+
+    const info = await db.getTableInfo(table, schema);
+    if (!info) {
+      throw new Error(`Table not found: ${args.table}`);
+    }
+
+    return [
+      `Explain the ${db.getType()} table \`${args.table}\` on connection "${name}".`,
+      'Describe what the table appears to store, what each column means, its keys and indexes, and how it relates to other tables. Point out anything unusual, such as missing keys or nullable columns that look like they should be required.',
+      '',
+      'Table definition:',
+      this.jsonBlock(this.accessPolicy.redactTableInfo(name, info)),
+    ].join('\n');
+  }
+
+  private async renderWriteQuery(args: Record<string, string>): Promise<string> {
+    const { name, db } = this.resolveConnection(args.connection);
+    const focus = args.tables ? args.tables.split(',').map(table => table.trim()).filter(Boolean) : undefined;
+
+    return [
+      `Write a ${db.getType()} query on connection "${name}" that does the following:`,
+      args.task!,
+      '',
+      'Use only the tables and columns in the schema below. Pass values as `:name` parameters rather than inlining them, and say which parameters the query expects.',
+      '',
+      await this.schemaSection(name, db, focus),
+    ].join('\n');
+  }
+
+  private async renderReviewMigration(args: Record<string, string>): Promise<string> {
+    const { name, db } = this.resolveConnection(args.connection);
+    const dialect = SqlClassifier.dialectFor(db.getType());
+    const referenced = dialect ? SqlClassifier.referencedTables(args.migration!, dialect) : [];
+
+    return [
+      `Review this migration for the ${db.getType()} database on connection "${name}":`,
+      this.codeBlock(args.migration!, 'sql'),
+      '',
+      'Check that it is valid for this database and consistent with the current schema below. Flag statements that lose data, take long or blocking locks on large tables, break existing queries or constraints, or cannot be rolled back, and suggest a safer sequence where one exists.',
+      '',
+      await this.schemaSection(name, db, referenced.length > 0 ? referenced : undefined),
+    ].join('\n');
+  }
+
+  private async renderTemplate(template: QueryTemplate, args: Record<string, string>): Promise<string> {
+    const { name, db } = this.resolveConnection(args.connection);
+    const parameters: Record<string, unknown> = {};
+    for (const parameter of template.parameters) {
+      const value = args[parameter.name];
+      if (value !== undefined && value !== '') {
+        parameters[parameter.name] = parameter.type === 'array' ? this.parseList(value) : value;
+      }
+    }
+
+    const dialect = SqlClassifier.dialectFor(db.getType());
+    const referenced = dialect ? SqlClassifier.referencedTables(template.query, dialect) : [];
+
+    return [
+      `Run the saved query template "${template.name}" on connection "${name}" with the execute_template tool, then summarize the results.`,
+      template.description,
+      '',
+      'Tool arguments:',
+      this.jsonBlock({ connection: name, template_id: template.id, parameters }),
+      '',
+      'Template query:',
+      this.codeBlock(template.query, 'sql'),
+      '',
+      await this.schemaSection(name, db, referenced.length > 0 ? referenced : undefined),
+    ].join('\n');
+  }
+
+  /**
+   * Live definitions of the given tables, or of every visible table up to MAX_SCHEMA_TABLES.
+   */
+  private async schemaSection(connectionName: string, db: BaseDatabaseAdapter, tableNames?: string[]): Promise<string> {
+    const visible = this.accessPolicy.filterTables(connectionName, await db.getTables());
+    const wanted = tableNames?.map(table => table.toLowerCase());
+    const tables = wanted
+      ? visible.filter(table => wanted.includes(table.name.toLowerCase()) || wanted.includes(`${table.schema}.${table.name}`.toLowerCase()))
+      : visible;
+
+    const infos: TableInfo[] = [];
+    for (const table of tables.slice(0, MAX_SCHEMA_TABLES)) {
+      const info = await db.getTableInfo(table.name, table.schema);
+      if (info) {
+        infos.push(this.accessPolicy.redactTableInfo(connectionName, info));
+      }
+    }
+
+    const lines = ['Current schema:', this.jsonBlock(infos)];
+    if (tables.length > MAX_SCHEMA_TABLES) {
+      lines.push(`${tables.length - MAX_SCHEMA_TABLES} more tables are not shown.`);
+    }
+    return lines.join('\n');
+  }
+
+  private resolveConnection(connectionName: string | undefined): { name: string; db: BaseDatabaseAdapter } {
+    const name = connectionName || this.connectionManager.getCurrentConnectionName();
+    const db = name ? this.connectionManager.getConnection(name) : null;
+    if (!name || !db) {
+      throw new Error(connectionName ? `Connection not found: ${connectionName}` : 'No database connection');
+    }
+    return { name, db };
+  }
+
+  private splitTableName(table: string): [string | undefined, string] {
+    const dot = table.lastIndexOf('.');
+    return dot === -1 ? [undefined, table] : [table.slice(0, dot), table.slice(dot + 1)];
+  }
+
+  private parseList(value: string): unknown[] {
+    if (value.trim().startsWith('[')) {
+      const parsed: unknown = JSON.parse(value);
+      if (Array.isArray(parsed)) return parsed;
+    }
+    return value.split(',').map(item => item.trim());
+  }
+
+  private jsonBlock(value: unknown): string {
+    return this.codeBlock(JSON.stringify(value, null, 2), 'json');
+  }
+
+  private codeBlock(text: string, language: string): string {
+    return `\`\`\`${language}\n${text}\n\`\`\``;
+  }
+}
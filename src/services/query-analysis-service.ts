@@ -1,53 +1,131 @@
-import { BaseDatabaseAdapter } from '../adapters/base-database-adapter.js';
 import { DatabaseConnectionManager } from '../adapters/database-connection-manager.js';
-import { QueryAnalysisResult, QueryTemplate } from '../types/schema.js';
+import { AccessPolicyService } from './access-policy-service.js';
+import { QueryAnalysisResult, QueryTemplate, TemplateVersion } from '../types/schema.js';
+import { QueryPolicyError } from '../core/query-policy.js';
+import { SqlClassifier, SqlDialect } from '../core/sql-classifier.js';
+import { TemplateCompiler } from '../core/template-compiler.js';
+import { LineDiff } from '../core/line-diff.js';
+import { IndexAdvisor } from '../core/index-advisor.js';
+import { ExecutionPlan, IndexRecommendation, PlanNode, QueryParameters, RedundantIndex, TableInfo } from '../types/database.js';
 import { writeFileSync, readFileSync, existsSync, mkdirSync } from 'fs';
 import { join } from 'path';
+import yaml from 'js-yaml';
+import { z } from 'zod';
+
+// Plan thresholds for flagging full scans, sorts and row misestimates
+const LARGE_SCAN_ROWS = 10000;
+const LARGE_SORT_ROWS = 1000;
+const MISESTIMATE_RATIO = 10;
+
+export type TemplateFileFormat = 'json' | 'yaml';
+
+export interface AnalyzeOptions {
+  /** Run the statement to time it; writes run in a transaction that is rolled back */
+  execute?: boolean | undefined;
+  /** Keep the effects of an executed write instead of rolling them back */
+  commit?: boolean | undefined;
+  /** Collect actual row counts and timings in the plan */
+  analyze?: boolean | undefined;
+  /** Include the engine's own plan output alongside the normalized tree */
+  rawPlan?: boolean | undefined;
+}
+
+export interface IndexAdvice {
+  /** Recorded queries on the connection the recommendations are drawn from */
+  analyzedQueries: number;
+  recommendations: IndexRecommendation[];
+  redundantIndexes: RedundantIndex[];
+}
+
+export interface TemplateDiff {
+  templateId: string;
+  fromVersion: number;
+  toVersion: number;
+  /** Changed fields other than the query */
+  changes: Array<{ field: string; from: unknown; to: unknown }>;
+  /** Line diff of the query; empty when it is unchanged */
+  queryDiff: string[];
+}
+
+export interface TemplateImportResult {
+  created: string[];
+  updated: string[];
+  skipped: string[];
+  errors: Array<{ name: string; error: string }>;
+}
+
+const ImportedTemplate = QueryTemplate
+  .pick({ name: true, description: true, query: true, parameters: true, connectionType: true })
+  .extend({ tags: z.array(z.string()).optional() });
 
 export class QueryAnalysisService {
   private connectionManager: DatabaseConnectionManager;
+  private accessPolicy: AccessPolicyService;
   private queryHistory: QueryAnalysisResult[] = [];
   private templates: QueryTemplate[] = [];
+  private templateHistory: Record<string, TemplateVersion[]> = {};
   private templatesPath: string;
+  private templateHistoryPath: string;
 
-  constructor(connectionManager: DatabaseConnectionManager) {
+  constructor(connectionManager: DatabaseConnectionManager, accessPolicy: AccessPolicyService) {
     this.connectionManager = connectionManager;
+    this.accessPolicy = accessPolicy;
     this.templatesPath = join(process.cwd(), 'data', 'query-templates.json');
+    this.templateHistoryPath = join(process.cwd(), 'data', 'query-template-history.json');
     this.loadTemplates();
   }
 
   /**
-   * Analyze query performance and provide recommendations
+   * Analyze query performance and provide recommendations, scored from the query's execution plan. The query only
+   * runs when `execute` is set, and writes are then rolled back unless `commit` is set too.
    */
   async analyzeQuery(
     connectionName: string,
     query: string,
-    parameters: string[] = []
+    parameters: QueryParameters = [],
+    options: AnalyzeOptions = {}
   ): Promise<QueryAnalysisResult> {
     const db = this.connectionManager.getConnection(connectionName);
     if (!db) {
       throw new Error('Connection not found');
     }
+    this.accessPolicy.assertQueryAllowed(connectionName, db, query);
 
+    const execution: QueryAnalysisResult['execution'] = !options.execute
+      ? 'plan_only'
+      : options.commit || db.isReadStatement(query) ? 'executed' : 'rolled_back';
     const startTime = Date.now();
     
     try {
-      const result = await db.safeExecuteQuery(query, parameters);
-      const executionTime = Date.now() - startTime;
-      
-      const performance = this.analyzePerformance(query, executionTime, result);
-      
-      let executionPlan;
+      let executionTime: number | null = null;
+      let rowsAffected: number | null = null;
+      if (execution !== 'plan_only') {
+        const result = execution === 'rolled_back'
+          ? await db.safeExecuteRolledBack(query, parameters)
+          : await db.safeExecuteQuery(query, parameters);
+        executionTime = Date.now() - startTime;
+        rowsAffected = result.rowCount;
+      }
+
+      let plan: ExecutionPlan | null;
       try {
-        executionPlan = await this.getExecutionPlan(db, query);
+        plan = await db.safeExplainQuery(query, parameters, { analyze: options.analyze });
       } catch (error) {
-        executionPlan = null;
+        // An analyzed plan that cannot be collected is an error the caller asked about, not a missing plan
+        if (options.analyze) {
+          throw error;
+        }
+        plan = null;
       }
+      const performance = this.analyzePerformance(query, executionTime, plan);
+      const executionPlan = plan && !options.rawPlan ? { ...plan, raw: undefined } : plan;
 
       const analysis: QueryAnalysisResult = {
         query,
+        connection: connectionName,
+        execution,
         executionTime,
-        rowsAffected: result.rows?.length || 0,
+        rowsAffected,
         executionPlan,
         performance,
       };
@@ -57,11 +135,15 @@ export class QueryAnalysisService {
 
       return analysis;
     } catch (error) {
-      const executionTime = Date.now() - startTime;
+      if (error instanceof QueryPolicyError) {
+        throw error;
+      }
       return {
         query,
-        executionTime,
-        rowsAffected: 0,
+        connection: connectionName,
+        execution,
+        executionTime: execution === 'plan_only' ? null : Date.now() - startTime,
+        rowsAffected: null,
         performance: {
           slow: true,
           score: 0,
@@ -72,9 +154,10 @@ export class QueryAnalysisService {
   }
 
   /**
-   * Analyze query performance
+   * Analyze query performance from the execution time and plan; the text heuristics are a fallback for
+   * databases without a plan.
    */
-  private analyzePerformance(query: string, executionTime: number, _result: any): {
+  private analyzePerformance(query: string, executionTime: number | null, plan: ExecutionPlan | null): {
     slow: boolean;
     score: number;
     recommendations: string[];
@@ -82,39 +165,106 @@ export class QueryAnalysisService {
     const recommendations: string[] = [];
     let score = 100;
 
-    if (executionTime > 1000) {
+    // Plan-only analysis has no timing to judge
+    const time = executionTime ?? 0;
+    if (time > 1000) {
       recommendations.push('Query is slow (>1s). Consider adding indexes or optimizing the query.');
       score -= 30;
-    } else if (executionTime > 500) {
+    } else if (time > 500) {
       recommendations.push('Query is moderately slow (>500ms). Consider optimization.');
       score -= 15;
     }
 
+    if (plan) {
+      const findings = this.analyzePlan(plan);
+      score -= findings.reduce((total, finding) => total + finding.penalty, 0);
+      recommendations.push(...findings.map(finding => finding.recommendation));
+    } else {
+      score -= this.analyzeQueryText(query, recommendations);
+    }
+
+    score = Math.max(0, score);
+
+    return {
+      slow: time > 1000 || score < 50,
+      score,
+      recommendations: recommendations.length > 0 ? recommendations : ['Query looks good!'],
+    };
+  }
+
+  /**
+   * Signals from the plan tree: full scans of large relations, sorts of many rows, and row estimates far
+   * from the actual counts (stale statistics).
+   */
+  private analyzePlan(plan: ExecutionPlan): Array<{ penalty: number; recommendation: string }> {
+    const findings: Array<{ penalty: number; recommendation: string }> = [];
+    const seen = new Set<string>();
+    const add = (penalty: number, recommendation: string) => {
+      if (!seen.has(recommendation)) {
+        seen.add(recommendation);
+        findings.push({ penalty, recommendation });
+      }
+    };
+
+    const visit = (node: PlanNode) => {
+      const rows = node.rowsExamined ?? Math.max(node.estimatedRows ?? 0, node.actualRows ?? 0);
+      const known = node.rowsExamined !== undefined || node.estimatedRows !== undefined || node.actualRows !== undefined;
+      const target = node.relation ? ` of ${node.relation}` : '';
+      const filter = node.detail ? ` (${node.detail})` : '';
+
+      if (node.kind === 'full_scan') {
+        if (!known) {
+          add(10, `Full scan${target} (${node.operation}). If the table is large, index the columns it filters on${filter}.`);
+        } else if (rows >= LARGE_SCAN_ROWS) {
+          add(25, `Full scan${target} reads about ${rows} rows (${node.operation}). An index on the columns it filters on${filter} would avoid it.`);
+        }
+      }
+      if (node.kind === 'sort' && (!known || rows >= LARGE_SORT_ROWS)) {
+        add(10, `${node.operation}${known ? ` of about ${rows} rows` : ''}${filter}. An index matching the ORDER BY would avoid the sort.`);
+      }
+      if (plan.analyzed && node.estimatedRows !== undefined && node.actualRows !== undefined) {
+        const high = Math.max(node.estimatedRows, node.actualRows);
+        const low = Math.max(1, Math.min(node.estimatedRows, node.actualRows));
+        if (high >= LARGE_SORT_ROWS && high / low >= MISESTIMATE_RATIO) {
+          add(10, `${node.operation}${target} was estimated at ${node.estimatedRows} rows but returned ${node.actualRows}. Statistics may be stale; refresh them (ANALYZE / UPDATE STATISTICS).`);
+        }
+      }
+      node.children.forEach(visit);
+    };
+    visit(plan.root);
+    return findings;
+  }
+
+  /**
+   * Text heuristics for when no plan is available; returns the score penalty.
+   */
+  private analyzeQueryText(query: string, recommendations: string[]): number {
+    let penalty = 0;
     const queryLower = query.toLowerCase();
 
     if (queryLower.includes('select *')) {
       recommendations.push('Avoid SELECT *. Specify only needed columns to improve performance.');
-      score -= 10;
+      penalty += 10;
     }
 
     if (queryLower.includes('select') && !queryLower.includes('where') && !queryLower.includes('limit')) {
       recommendations.push('Consider adding WHERE clause or LIMIT to avoid full table scans.');
-      score -= 20;
+      penalty += 20;
     }
 
     if (queryLower.includes("like '%")) {
       recommendations.push('LIKE with leading wildcard prevents index usage. Consider full-text search.');
-      score -= 15;
+      penalty += 15;
     }
 
     if (queryLower.includes('order by') && !queryLower.includes('limit')) {
       recommendations.push('ORDER BY without LIMIT can be expensive. Consider adding LIMIT.');
-      score -= 10;
+      penalty += 10;
     }
 
     if (queryLower.includes('select') && queryLower.includes('(select')) {
       recommendations.push('Consider converting subqueries to JOINs for better performance.');
-      score -= 10;
+      penalty += 10;
     }
 
     const functionPatterns = [
@@ -129,7 +279,7 @@ export class QueryAnalysisService {
     for (const pattern of functionPatterns) {
       if (queryLower.includes(pattern)) {
         recommendations.push('Functions in WHERE clause prevent index usage. Consider restructuring.');
-        score -= 15;
+        penalty += 15;
         break;
       }
     }
@@ -137,42 +287,21 @@ export class QueryAnalysisService {
     const orCount = (queryLower.match(/\bor\b/g) || []).length;
     if (orCount > 3) {
       recommendations.push('Multiple OR conditions can be slow. Consider using UNION or restructuring.');
-      score -= 10;
+      penalty += 10;
     }
 
     const inMatch = queryLower.match(/in\s*\([^)]{100,}\)/);
     if (inMatch) {
       recommendations.push('Large IN clause can be slow. Consider using temporary table or EXISTS.');
-      score -= 15;
+      penalty += 15;
     }
 
     if (queryLower.includes('join') && !queryLower.includes('on')) {
       recommendations.push('JOIN without ON clause. Ensure proper join conditions.');
-      score -= 20;
+      penalty += 20;
     }
 
-    score = Math.max(0, score);
-
-    return {
-      slow: executionTime > 1000 || score < 50,
-      score,
-      recommendations: recommendations.length > 0 ? recommendations : ['Query looks good!'],
-    };
-  }
-
-  /**
-   * Get execution plan for query (database-specific)
-   */
-  private async getExecutionPlan(db: BaseDatabaseAdapter, _query: string): Promise<any> {
-    try {
-      return {
-        type: 'execution_plan',
-        database: db.constructor.name,
-        note: 'Execution plan not implemented for this database type',
-      };
-    } catch (error) {
-      return null;
-    }
+    return penalty;
   }
 
   /**
@@ -186,7 +315,49 @@ export class QueryAnalysisService {
    * Get slow queries
    */
   getSlowQueries(threshold: number = 1000): QueryAnalysisResult[] {
-    return this.queryHistory.filter(q => q.executionTime > threshold);
+    return this.queryHistory.filter(q => (q.executionTime ?? 0) > threshold);
+  }
+
+  /**
+   * Recommend indexes for the filter, join and sort columns of the connection's recorded queries that no existing
+   * index covers, and flag existing indexes that another one already serves.
+   */
+  async recommendIndexes(connectionName: string, options: { tables?: string[] | undefined; limit?: number | undefined } = {}): Promise<IndexAdvice> {
+    const db = this.connectionManager.getConnection(connectionName);
+    if (!db) {
+      throw new Error('Connection not found');
+    }
+    const dialect = SqlClassifier.dialectFor(db.getType());
+    if (!dialect || dialect === 'cassandra') {
+      throw new Error(`Index recommendations are not supported for ${db.getType()} databases`);
+    }
+
+    // Without a table list, only the tables the recorded queries use are loaded, each by name
+    const history = this.queryHistory.filter(q => q.connection === connectionName);
+    const wanted = options.tables ?? history.flatMap(q => SqlClassifier.referencedTables(q.query, dialect));
+    // MySQL's getTableInfo looks in information_schema unless given a schema, so unqualified names use the current database
+    const current = dialect === 'mysql' ? (await db.safeExecuteQuery('SELECT DATABASE() AS name')).rows[0]?.name : undefined;
+    const tables: TableInfo[] = [];
+    const seen = new Set<string>();
+    for (const reference of wanted) {
+      if (seen.has(reference.toLowerCase())) continue;
+      seen.add(reference.toLowerCase());
+      const parts = reference.split('.');
+      const name = parts[parts.length - 1]!;
+      const schema = parts.length > 1 ? parts[parts.length - 2] : typeof current === 'string' ? current : undefined;
+      if (!this.accessPolicy.isTableAllowed(connectionName, name, schema)) continue;
+      // Unquoted names are stored in lower case by PostgreSQL
+      const info = await db.getTableInfo(name, schema) ?? (name !== name.toLowerCase() ? await db.getTableInfo(name.toLowerCase(), schema) : null);
+      if (info) {
+        tables.push(this.accessPolicy.redactTableInfo(connectionName, info));
+      }
+    }
+
+    return {
+      analyzedQueries: history.length,
+      recommendations: IndexAdvisor.recommend(history, tables, dialect).slice(0, options.limit ?? 10),
+      redundantIndexes: IndexAdvisor.findRedundant(tables, dialect),
+    };
   }
 
   /**
@@ -199,8 +370,9 @@ export class QueryAnalysisService {
     mostCommonIssues: { issue: string; count: number }[];
   } {
     const totalQueries = this.queryHistory.length;
-    const averageExecutionTime = totalQueries > 0 
-      ? this.queryHistory.reduce((sum, q) => sum + q.executionTime, 0) / totalQueries 
+    const timed = this.queryHistory.filter(q => q.executionTime !== null);
+    const averageExecutionTime = timed.length > 0 
+      ? timed.reduce((sum, q) => sum + q.executionTime!, 0) / timed.length 
       : 0;
     const slowQueries = this.queryHistory.filter(q => q.performance.slow).length;
 
@@ -227,15 +399,18 @@ export class QueryAnalysisService {
   /**
    * Save query template
    */
-  async saveTemplate(template: Omit<QueryTemplate, 'id' | 'createdAt' | 'updatedAt'>): Promise<QueryTemplate> {
+  async saveTemplate(template: Omit<QueryTemplate, 'id' | 'version' | 'createdAt' | 'updatedAt'>): Promise<QueryTemplate> {
+    TemplateCompiler.validate(template, this.templateDialect(template.connectionType));
     const newTemplate: QueryTemplate = {
       ...template,
       id: `template_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      version: 1,
       createdAt: new Date().toISOString(),
       updatedAt: new Date().toISOString(),
     };
 
     this.templates.push(newTemplate);
+    this.templateHistory[newTemplate.id] = [this.snapshot(newTemplate)];
     this.saveTemplates();
 
     return newTemplate;
@@ -266,7 +441,7 @@ export class QueryAnalysisService {
   }
 
   /**
-   * Update template
+   * Update template; the previous version stays in its history
    */
   async updateTemplate(id: string, updates: Partial<QueryTemplate>): Promise<QueryTemplate | null> {
     const index = this.templates.findIndex(t => t.id === id);
@@ -275,7 +450,8 @@ export class QueryAnalysisService {
     const existingTemplate = this.templates[index];
     if (!existingTemplate) return null;
 
-    this.templates[index] = {
+    const { id: _id, version: _version, createdAt: _createdAt, updatedAt: _updatedAt, ...changes } = updates;
+    const updatedTemplate: QueryTemplate = {
       name: existingTemplate.name,
       description: existingTemplate.description,
       query: existingTemplate.query,
@@ -284,46 +460,202 @@ export class QueryAnalysisService {
       tags: existingTemplate.tags,
       connectionType: existingTemplate.connectionType,
       createdAt: existingTemplate.createdAt,
-      ...updates,
+      ...changes,
+      version: existingTemplate.version + 1,
       updatedAt: new Date().toISOString(),
     };
+    TemplateCompiler.validate(updatedTemplate, this.templateDialect(updatedTemplate.connectionType));
 
+    // Read the history first: a template saved before versioning seeds it from the version being replaced
+    const history = this.getTemplateHistory(id);
+    this.templates[index] = updatedTemplate;
+    this.templateHistory[id] = [...history, this.snapshot(updatedTemplate)];
     this.saveTemplates();
     return this.templates[index] || null;
   }
 
   /**
-   * Delete template
+   * Delete template and its history
    */
   async deleteTemplate(id: string): Promise<boolean> {
     const index = this.templates.findIndex(t => t.id === id);
     if (index === -1) return false;
 
     this.templates.splice(index, 1);
+    delete this.templateHistory[id];
     this.saveTemplates();
     return true;
   }
 
   /**
-   * Execute template with parameters
+   * All versions of a template, oldest first
+   */
+  getTemplateHistory(id: string): TemplateVersion[] {
+    const template = this.requireTemplate(id);
+    // Templates saved before versioning start their history at the current version
+    return this.templateHistory[id] ?? [this.snapshot(template)];
+  }
+
+  /**
+   * Get one version of a template
+   */
+  getTemplateVersion(id: string, version: number): TemplateVersion {
+    const found = this.getTemplateHistory(id).find(entry => entry.version === version);
+    if (!found) {
+      throw new Error(`Template ${id} has no version ${version}`);
+    }
+    return found;
+  }
+
+  /**
+   * Compare two versions of a template; `to` defaults to the current version
+   */
+  diffTemplateVersions(id: string, from: number, to?: number): TemplateDiff {
+    const before = this.getTemplateVersion(id, from);
+    const after = this.getTemplateVersion(id, to ?? this.requireTemplate(id).version);
+
+    const fields = ['name', 'description', 'connectionType', 'tags', 'parameters'] as const;
+    const changes = fields
+      .filter(field => JSON.stringify(before[field]) !== JSON.stringify(after[field]))
+      .map(field => ({ field, from: before[field], to: after[field] }));
+
+    return {
+      templateId: id,
+      fromVersion: before.version,
+      toVersion: after.version,
+      changes,
+      queryDiff: before.query === after.query ? [] : LineDiff.diff(before.query, after.query),
+    };
+  }
+
+  /**
+   * Restore an earlier version's content as a new version
+   */
+  async revertTemplate(id: string, version: number): Promise<QueryTemplate> {
+    const { version: _version, updatedAt: _updatedAt, ...content } = this.getTemplateVersion(id, version);
+    const reverted = await this.updateTemplate(id, content);
+    if (!reverted) {
+      throw new Error('Template not found');
+    }
+    return reverted;
+  }
+
+  /**
+   * Serialize templates as JSON or YAML, optionally writing them to a file
+   */
+  exportTemplates(
+    options: { format: TemplateFileFormat; ids?: string[] | undefined; connectionType?: string | undefined; tags?: string[] | undefined },
+    outputPath?: string
+  ): { content: string; count: number } {
+    let templates = this.getTemplates(options.connectionType, options.tags);
+    if (options.ids && options.ids.length > 0) {
+      const ids = options.ids;
+      templates = templates.filter(t => ids.includes(t.id));
+    }
+
+    const library = {
+      exportedAt: new Date().toISOString(),
+      templates: templates.map(({ name, description, query, parameters, tags, connectionType, version }) => (
+        { name, description, query, parameters, tags, connectionType, version }
+      )),
+    };
+    const content = options.format === 'yaml'
+      ? yaml.dump(library, { noRefs: true, lineWidth: -1 })
+      : JSON.stringify(library, null, 2);
+
+    if (outputPath) {
+      writeFileSync(outputPath, content, 'utf8');
+    }
+    return { content, count: templates.length };
+  }
+
+  /**
+   * Import a JSON or YAML template library from a file or inline content. Templates are matched by name and
+   * connection type; matches are skipped unless `overwrite` is set, in which case they become a new version.
+   */
+  async importTemplates(
+    source: { content?: string | undefined; filePath?: string | undefined },
+    format?: TemplateFileFormat,
+    overwrite: boolean = false
+  ): Promise<TemplateImportResult> {
+    const content = source.content ?? (source.filePath ? readFileSync(source.filePath, 'utf8') : undefined);
+    if (content === undefined) {
+      throw new Error('Template file path or content is required');
+    }
+    const yamlFormat = format ? format === 'yaml' : /\.ya?ml$/i.test(source.filePath ?? '');
+    const parsed: unknown = yamlFormat ? yaml.load(content) : JSON.parse(content);
+    const entries = Array.isArray(parsed) ? parsed : (parsed as { templates?: unknown } | null)?.templates;
+    if (!Array.isArray(entries)) {
+      throw new Error('Template file must contain a list of templates or an object with a templates list');
+    }
+
+    const result: TemplateImportResult = { created: [], updated: [], skipped: [], errors: [] };
+    for (const entry of entries) {
+      const name = (entry as { name?: unknown } | null)?.name;
+      const label = typeof name === 'string' ? name : '(unnamed)';
+      try {
+        const template = ImportedTemplate.parse(entry);
+        const fields = { ...template, tags: template.tags ?? [] };
+        const existing = this.templates.find(t => t.name === fields.name && t.connectionType === fields.connectionType);
+
+        if (!existing) {
+          result.created.push((await this.saveTemplate(fields)).id);
+        } else if (overwrite) {
+          await this.updateTemplate(existing.id, fields);
+          result.updated.push(existing.id);
+        } else {
+          result.skipped.push(existing.id);
+        }
+      } catch (error) {
+        const message = error instanceof z.ZodError
+          ? error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`).join('; ')
+          : error instanceof Error ? error.message : String(error);
+        result.errors.push({ name: label, error: message });
+      }
+    }
+    return result;
+  }
+
+  private requireTemplate(id: string): QueryTemplate {
+    const template = this.getTemplate(id);
+    if (!template) {
+      throw new Error('Template not found');
+    }
+    return template;
+  }
+
+  private snapshot(template: QueryTemplate): TemplateVersion {
+    const { id: _id, createdAt: _createdAt, ...version } = template;
+    return version;
+  }
+
+  /**
+   * Execute template with parameters, bound through the driver rather than pasted into the SQL
    */
   async executeTemplate(
     connectionName: string,
     templateId: string,
-    parameters: { [key: string]: any }
+    parameters: Record<string, unknown>
   ): Promise<QueryAnalysisResult> {
     const template = this.getTemplate(templateId);
     if (!template) {
       throw new Error('Template not found');
     }
-
-    let query = template.query;
-    for (const [key, value] of Object.entries(parameters)) {
-      const placeholder = `{${key}}`;
-      query = query.replace(new RegExp(placeholder, 'g'), String(value));
+    const db = this.connectionManager.getConnection(connectionName);
+    if (!db) {
+      throw new Error('Connection not found');
     }
 
-    return this.analyzeQuery(connectionName, query);
+    const compiled = TemplateCompiler.compile(template, parameters, this.templateDialect(db.getType()));
+    return this.analyzeQuery(connectionName, compiled.query, compiled.parameters, { execute: true, commit: true });
+  }
+
+  private templateDialect(type: string): SqlDialect {
+    const dialect = SqlClassifier.dialectFor(type);
+    if (!dialect) {
+      throw new Error(`Query templates are not supported for ${type} databases`);
+    }
+    return dialect;
   }
 
   /**
@@ -333,11 +665,15 @@ export class QueryAnalysisService {
     try {
       if (existsSync(this.templatesPath)) {
         const data = readFileSync(this.templatesPath, 'utf8');
-        this.templates = JSON.parse(data);
+        this.templates = (JSON.parse(data) as QueryTemplate[]).map(template => ({ ...template, version: template.version ?? 1 }));
+      }
+      if (existsSync(this.templateHistoryPath)) {
+        this.templateHistory = JSON.parse(readFileSync(this.templateHistoryPath, 'utf8'));
       }
     } catch (error) {
       console.warn('Failed to load query templates:', error);
       this.templates = [];
+      this.templateHistory = {};
     }
   }
 
@@ -351,6 +687,7 @@ export class QueryAnalysisService {
         mkdirSync(dataDir, { recursive: true });
       }
       writeFileSync(this.templatesPath, JSON.stringify(this.templates, null, 2));
+      writeFileSync(this.templateHistoryPath, JSON.stringify(this.templateHistory, null, 2));
     } catch (error) {
       console.warn('Failed to save query templates:', error);
     }
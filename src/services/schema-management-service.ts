@@ -1,24 +1,122 @@
+import { BaseDatabaseAdapter } from '../adapters/base-database-adapter.js';
 import { DatabaseConnectionManager } from '../adapters/database-connection-manager.js';
+import { AccessPolicyService } from './access-policy-service.js';
+import { ColumnInfo, ConstraintInfo, IndexInfo, SchemaObject, TableInfo } from '../types/database.js';
+import { DdlBuilder } from '../core/ddl-builder.js';
+import { SqlClassifier, SqlDialect } from '../core/sql-classifier.js';
+import { MigrationFileFormat, MigrationFileRenderer } from '../core/migration-file-renderer.js';
+import { ColumnTypes } from '../core/column-types.js';
+import { writeFileSync, readFileSync, existsSync, mkdirSync, readdirSync } from 'fs';
+import { dirname, join } from 'path';
 import { 
   SchemaComparisonResult, 
+  SchemaComparisonOptions,
   Migration, 
   MigrationStep, 
   DDLGenerationOptions 
 } from '../types/schema.js';
 
+type SchemaDifference = SchemaComparisonResult['differences'][number];
+
+// Order migration steps so that everything is dropped before what it depends on and created after it; object
+// steps are keyed by object type
+const STEP_ORDER: Record<string, number> = {
+  'object_removed:trigger': 0,
+  'object_removed:view': 1,
+  'object_removed:materialized_view': 1,
+  'object_removed:function': 2,
+  'object_removed:procedure': 2,
+  constraint_removed: 3,
+  index_removed: 4,
+  'object_added:sequence': 5,
+  'object_added:enum': 5,
+  'object_modified:sequence': 5,
+  'object_modified:enum': 5,
+  table_added: 6,
+  column_added: 7,
+  column_modified: 8,
+  column_removed: 9,
+  index_added: 10,
+  constraint_added: 11,
+  'object_added:function': 12,
+  'object_added:procedure': 12,
+  'object_added:view': 13,
+  'object_added:materialized_view': 13,
+  'object_added:trigger': 14,
+  table_removed: 15,
+  'object_removed:sequence': 16,
+  'object_removed:enum': 16,
+};
+
+// Records which migrations have been applied to a connection
+const MIGRATIONS_TABLE: TableInfo = {
+  name: 'pinemcp_migrations',
+  type: 'table',
+  columns: [
+    { name: 'id', dataType: 'varchar', maxLength: 255, nullable: false, isPrimaryKey: true, isForeignKey: false },
+    { name: 'name', dataType: 'varchar', maxLength: 255, nullable: false, isPrimaryKey: false, isForeignKey: false },
+    { name: 'applied_at', dataType: 'varchar', maxLength: 32, nullable: false, isPrimaryKey: false, isForeignKey: false },
+  ],
+  indexes: [],
+  constraints: [{ name: 'pinemcp_migrations_pkey', type: 'PRIMARY KEY', columns: ['id'] }],
+};
+
+export interface AppliedMigration {
+  id: string;
+  name: string;
+  appliedAt: string;
+}
+
+export interface MigrationRun {
+  migrationId: string;
+  connection: string;
+  direction: 'apply' | 'rollback';
+  dryRun: boolean;
+  /** Whether the steps run in one transaction, so a failing step leaves the schema untouched */
+  transactional: boolean;
+  steps: Array<{ id: string; description: string; statements: string[] }>;
+}
+
+export interface MigrationStatus {
+  connection: string;
+  applied: AppliedMigration[];
+  /** Generated migrations for the connection that have not been applied to it */
+  pending: Array<{ id: string; name: string; timestamp: string; steps: number }>;
+}
+
+/**
+ * The target's tables as the migration has changed them so far, so each step is built against the state the
+ * previous steps leave behind.
+ */
+interface MigrationState {
+  tables: Map<string, TableInfo>;
+  /** Tables with columns hidden by the access policy, which a rebuild would silently drop */
+  partial: Set<string>;
+  /** The target's views and triggers, which a SQLite rebuild drops and recreates */
+  objects: SchemaObject[];
+}
+
 export class SchemaManagementService {
   private connectionManager: DatabaseConnectionManager;
+  private accessPolicy: AccessPolicyService;
+  private migrations: Migration[] = [];
+  private migrationsPath: string;
 
-  constructor(connectionManager: DatabaseConnectionManager) {
+  constructor(connectionManager: DatabaseConnectionManager, accessPolicy: AccessPolicyService) {
     this.connectionManager = connectionManager;
+    this.accessPolicy = accessPolicy;
+    this.migrationsPath = join(process.cwd(), 'data', 'migrations.json');
+    this.loadMigrations();
   }
 
   /**
-   * Compare schemas between two database connections
+   * Compare schemas between two database connections. Tables and other schema objects are matched by
+   * schema-qualified name, with source schemas renamed through `schemaMap`; those without a schema match by name alone.
    */
   async compareSchemas(
     sourceConnection: string,
-    targetConnection: string
+    targetConnection: string,
+    options: SchemaComparisonOptions = {}
   ): Promise<SchemaComparisonResult> {
     const sourceDb = this.connectionManager.getConnection(sourceConnection);
     const targetDb = this.connectionManager.getConnection(targetConnection);
@@ -27,31 +125,50 @@ export class SchemaManagementService {
       throw new Error('One or both connections not found');
     }
 
-    const sourceTables = await sourceDb.getTables();
-    const targetTables = await targetDb.getTables();
+    // With a schema map, only the mapped schemas are compared
+    const schemaMap = options.schemaMap ?? {};
+    const mapped = Object.keys(schemaMap).length > 0;
+    const compared = (object: { name: string; schema?: string | undefined }, schemas: string[]) => object.name !== MIGRATIONS_TABLE.name
+      && !this.matchesAny(options.ignoreTables, [object.name, this.tableKey(object.name, object.schema)])
+      && (!mapped || (object.schema !== undefined && schemas.includes(object.schema)));
+    // Views are compared by definition, with the other schema objects
+    const sourceTables = this.accessPolicy.filterTables(sourceConnection, await sourceDb.getTables())
+      .filter(table => table.type === 'table' && compared(table, Object.keys(schemaMap)));
+    const targetTables = this.accessPolicy.filterTables(targetConnection, await targetDb.getTables())
+      .filter(table => table.type === 'table' && compared(table, Object.values(schemaMap)));
+
+    const targetSchemaFor = (object: { schema?: string | undefined }) => (object.schema === undefined ? undefined : schemaMap[object.schema] ?? object.schema);
+    const targetSchemas = new Set(targetTables.map(table => table.schema));
+    const matched = new Set<TableInfo>();
 
     const differences: any[] = [];
     let tablesAdded = 0;
     let tablesRemoved = 0;
     let tablesModified = 0;
-    let columnsAdded = 0;
-    let columnsRemoved = 0;
-    let columnsModified = 0;
     
     for (const sourceTable of sourceTables) {
-      const targetTable = targetTables.find(t => t.name === sourceTable.name);
+      const schema = targetSchemaFor(sourceTable);
+      const targetTable = targetTables.find(t => !matched.has(t) && t.name === sourceTable.name
+        && (schema === undefined || t.schema === undefined || t.schema === schema));
       if (!targetTable) {
+        // New tables go to the mapped schema, or the source's schema when the target has it, else the target's default
+        const createIn = schema !== undefined && (schema in schemaMap || targetSchemas.has(schema) || Object.values(schemaMap).includes(schema))
+          ? schema
+          : undefined;
         differences.push({
           type: 'table_added',
           tableName: sourceTable.name,
-          details: `Table '${sourceTable.name}' exists in source but not in target`,
+          ...(createIn ? { schema: createIn } : {}),
+          details: `Table '${this.tableKey(sourceTable.name, sourceTable.schema)}' exists in source but not in target`,
+          sourceValue: await this.getTableInfo(sourceConnection, sourceDb, sourceTable.name, sourceTable.schema),
         });
         tablesAdded++;
       } else {
-        const sourceInfo = await sourceDb.getTableInfo(sourceTable.name);
-        const targetInfo = await targetDb.getTableInfo(targetTable.name);
+        matched.add(targetTable);
+        const sourceInfo = await this.getTableInfo(sourceConnection, sourceDb, sourceTable.name, sourceTable.schema);
+        const targetInfo = await this.getTableInfo(targetConnection, targetDb, targetTable.name, targetTable.schema);
         
-        const tableDiffs = this.compareTableStructures(sourceTable.name, sourceInfo, targetInfo);
+        const tableDiffs = this.compareTableStructures(sourceTable.name, targetTable.schema, sourceInfo, targetInfo, options);
         differences.push(...tableDiffs);
         
         if (tableDiffs.length > 0) {
@@ -61,22 +178,25 @@ export class SchemaManagementService {
     }
 
     for (const targetTable of targetTables) {
-      const sourceTable = sourceTables.find(t => t.name === targetTable.name);
-      if (!sourceTable) {
+      if (!matched.has(targetTable)) {
         differences.push({
           type: 'table_removed',
           tableName: targetTable.name,
-          details: `Table '${targetTable.name}' exists in target but not in source`,
+          ...(targetTable.schema ? { schema: targetTable.schema } : {}),
+          details: `Table '${this.tableKey(targetTable.name, targetTable.schema)}' exists in target but not in source`,
+          targetValue: await this.getTableInfo(targetConnection, targetDb, targetTable.name, targetTable.schema),
         });
         tablesRemoved++;
       }
     }
 
-    for (const diff of differences) {
-      if (diff.type === 'column_added') columnsAdded++;
-      else if (diff.type === 'column_removed') columnsRemoved++;
-      else if (diff.type === 'column_modified') columnsModified++;
-    }
+    const sourceObjects = this.visibleObjects(sourceConnection, await sourceDb.getSchemaObjects())
+      .filter(object => compared(object, Object.keys(schemaMap)));
+    const targetObjects = this.visibleObjects(targetConnection, await targetDb.getSchemaObjects())
+      .filter(object => compared(object, Object.values(schemaMap)));
+    differences.push(...this.compareSchemaObjects(sourceObjects, targetObjects, targetSchemaFor));
+
+    const count = (type: string) => differences.filter(diff => diff.type === type).length;
 
     return {
       identical: differences.length === 0,
@@ -85,32 +205,137 @@ export class SchemaManagementService {
         tablesAdded,
         tablesRemoved,
         tablesModified,
-        columnsAdded,
-        columnsRemoved,
-        columnsModified,
+        columnsAdded: count('column_added'),
+        columnsRemoved: count('column_removed'),
+        columnsModified: count('column_modified'),
+        constraintsAdded: count('constraint_added'),
+        constraintsRemoved: count('constraint_removed'),
+        constraintsModified: count('constraint_modified'),
+        objectsAdded: count('object_added'),
+        objectsRemoved: count('object_removed'),
+        objectsModified: count('object_modified'),
       },
     };
   }
 
+  /**
+   * Compare views, routines, triggers, sequences and enums by type, name and (for overloaded routines) argument
+   * types. Definitions are compared with whitespace collapsed.
+   */
+  private compareSchemaObjects(
+    sourceObjects: SchemaObject[],
+    targetObjects: SchemaObject[],
+    targetSchemaFor: (_object: SchemaObject) => string | undefined
+  ): SchemaDifference[] {
+    const differences: SchemaDifference[] = [];
+    const matched = new Set<SchemaObject>();
+    const label = (object: SchemaObject) => `${object.type.replace('_', ' ')} '${this.tableKey(object.name, object.schema)}'`;
+    const location = (object: SchemaObject, schema: string | undefined) => ({
+      tableName: object.table ?? object.name,
+      ...(schema ? { schema } : {}),
+      objectType: object.type,
+      objectName: object.name,
+    });
+
+    for (const object of sourceObjects) {
+      const schema = targetSchemaFor(object);
+      const sourceObject = this.mapObjectSchema(object, schema);
+      const targetObject = targetObjects.find(object => !matched.has(object) && object.type === sourceObject.type
+        && object.name === sourceObject.name && (object.signature ?? '') === (sourceObject.signature ?? '')
+        && (schema === undefined || object.schema === undefined || object.schema === schema));
+      if (!targetObject) {
+        differences.push({
+          type: 'object_added',
+          ...location(sourceObject, schema),
+          details: `The ${label(object)} exists in source but not in target`,
+          sourceValue: sourceObject,
+        });
+        continue;
+      }
+      matched.add(targetObject);
+      if (this.normalizeDefinition(sourceObject.definition) !== this.normalizeDefinition(targetObject.definition)) {
+        differences.push({
+          type: 'object_modified',
+          ...location(targetObject, targetObject.schema),
+          details: `The ${label(object)} has a different definition`,
+          sourceValue: sourceObject,
+          targetValue: targetObject,
+        });
+      }
+    }
+
+    for (const targetObject of targetObjects.filter(object => !matched.has(object))) {
+      differences.push({
+        type: 'object_removed',
+        ...location(targetObject, targetObject.schema),
+        details: `The ${label(targetObject)} exists in target but not in source`,
+        targetValue: targetObject,
+      });
+    }
+
+    return differences;
+  }
+
+  /**
+   * The object as it would be created in a mapped schema, with the definition's qualifiers pointing there too
+   */
+  private mapObjectSchema(object: SchemaObject, schema: string | undefined): SchemaObject {
+    const from = object.schema;
+    if (from === undefined || schema === undefined || schema === from) {
+      return object;
+    }
+
+    const escape = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    const qualifier = new RegExp(`(^|[^\\w$."\\]])(${escape(from)}|"${escape(from.replace(/"/g, '""'))}"|\\[${escape(from.replace(/]/g, ']]'))}\\])(?=\\s*\\.)`, 'g');
+    const definition = object.definition.replace(qualifier, (_match, before: string, name: string) => {
+      if (name.startsWith('[')) return `${before}[${schema.replace(/]/g, ']]')}]`;
+      if (name.startsWith('"') || !/^[a-z_][a-z0-9_$]*$/.test(schema)) return `${before}"${schema.replace(/"/g, '""')}"`;
+      return `${before}${schema}`;
+    });
+    return { ...object, schema, definition };
+  }
+
+  private normalizeDefinition(definition: string): string {
+    return definition.replace(/\s+/g, ' ').trim().replace(/\s*;$/, '');
+  }
+
+  /**
+   * Schema objects the access policy allows, leaving out triggers on hidden tables
+   */
+  private visibleObjects(connectionName: string, objects: SchemaObject[]): SchemaObject[] {
+    return this.accessPolicy.filterTables(connectionName, objects)
+      .filter(object => !object.table || this.accessPolicy.isTableAllowed(connectionName, object.table, object.schema));
+  }
+
   /**
    * Compare table structures between source and target
    */
   private compareTableStructures(
     tableName: string,
+    schema: string | undefined,
     sourceInfo: any,
-    targetInfo: any
+    targetInfo: any,
+    options: SchemaComparisonOptions
   ): any[] {
     const differences: any[] = [];
+    const location = schema ? { tableName, schema } : { tableName };
+    const columnNames = (column: string) => [column, `${tableName}.${column}`, `${this.tableKey(tableName, schema)}.${column}`];
+    // Constraint indexes are named per engine (users_pkey, PRIMARY, sqlite_autoindex_users_1) and come with their constraint
+    const comparedIndexes = (info: any) => (info.indexes || []).filter((index: IndexInfo) =>
+      !this.matchesAny(options.ignoreIndexes, [index.name]) && !DdlBuilder.isConstraintIndex(info, index));
     
-    const sourceColumns = sourceInfo.columns || [];
-    const targetColumns = targetInfo.columns || [];
+    const sourceColumns = (sourceInfo.columns || []).filter((column: ColumnInfo) => !this.matchesAny(options.ignoreColumns, columnNames(column.name)));
+    const targetColumns = (targetInfo.columns || []).filter((column: ColumnInfo) => !this.matchesAny(options.ignoreColumns, columnNames(column.name)));
+    // Constraints on ignored columns are ignored with them
+    const comparedConstraints = (info: any) => (info.constraints || []).filter((constraint: ConstraintInfo) => constraint.type !== 'NOT NULL'
+      && !constraint.columns.some(column => this.matchesAny(options.ignoreColumns, columnNames(column))));
 
     for (const sourceCol of sourceColumns) {
       const targetCol = targetColumns.find((c: any) => c.name === sourceCol.name);
       if (!targetCol) {
         differences.push({
           type: 'column_added',
-          tableName,
+          ...location,
           columnName: sourceCol.name,
           details: `Column '${sourceCol.name}' exists in source but not in target`,
           sourceValue: sourceCol,
@@ -120,7 +345,7 @@ export class SchemaManagementService {
         if (colDiffs.length > 0) {
           differences.push({
             type: 'column_modified',
-            tableName,
+            ...location,
             columnName: sourceCol.name,
             details: colDiffs.join(', '),
             sourceValue: sourceCol,
@@ -135,7 +360,7 @@ export class SchemaManagementService {
       if (!sourceCol) {
         differences.push({
           type: 'column_removed',
-          tableName,
+          ...location,
           columnName: targetCol.name,
           details: `Column '${targetCol.name}' exists in target but not in source`,
           targetValue: targetCol,
@@ -143,15 +368,15 @@ export class SchemaManagementService {
       }
     }
 
-    const sourceIndexes = sourceInfo.indexes || [];
-    const targetIndexes = targetInfo.indexes || [];
+    const sourceIndexes = comparedIndexes(sourceInfo);
+    const targetIndexes = comparedIndexes(targetInfo);
 
     for (const sourceIdx of sourceIndexes) {
       const targetIdx = targetIndexes.find((i: any) => i.name === sourceIdx.name);
       if (!targetIdx) {
         differences.push({
           type: 'index_added',
-          tableName,
+          ...location,
           details: `Index '${sourceIdx.name}' exists in source but not in target`,
           sourceValue: sourceIdx,
         });
@@ -163,47 +388,153 @@ export class SchemaManagementService {
       if (!sourceIdx) {
         differences.push({
           type: 'index_removed',
-          tableName,
+          ...location,
           details: `Index '${targetIdx.name}' exists in target but not in source`,
           targetValue: targetIdx,
         });
       }
     }
 
+    differences.push(...this.compareConstraints(comparedConstraints(sourceInfo), comparedConstraints(targetInfo))
+      .map(diff => ({ ...diff, ...location })));
+
     return differences;
   }
 
+  /**
+   * Compare a table's constraints. Engines name constraints differently (users_pkey, PRIMARY, pk_users), so primary
+   * keys, unique constraints and foreign keys are matched by what they constrain first and by name second; checks
+   * are matched by name.
+   */
+  private compareConstraints(sourceConstraints: ConstraintInfo[], targetConstraints: ConstraintInfo[]): Array<Omit<SchemaDifference, 'tableName'>> {
+    const differences: Array<Omit<SchemaDifference, 'tableName'>> = [];
+    const pairs = new Map<ConstraintInfo, ConstraintInfo>();
+    const paired = (target: ConstraintInfo) => [...pairs.values()].includes(target);
+
+    for (const source of sourceConstraints) {
+      const target = targetConstraints.find(constraint => !paired(constraint) && this.constraintSignature(constraint) === this.constraintSignature(source));
+      if (target) pairs.set(source, target);
+    }
+    for (const source of sourceConstraints.filter(constraint => !pairs.has(constraint))) {
+      const target = targetConstraints.find(constraint => !paired(constraint) && constraint.type === source.type
+        && (source.type === 'PRIMARY KEY' || constraint.name === source.name));
+      if (target) pairs.set(source, target);
+    }
+
+    for (const source of sourceConstraints) {
+      const target = pairs.get(source);
+      if (!target) {
+        differences.push({
+          type: 'constraint_added',
+          details: `Constraint '${source.name}' (${this.describeConstraint(source)}) exists in source but not in target`,
+          sourceValue: source,
+        });
+      } else if (this.constraintSignature(source) !== this.constraintSignature(target) || !this.sameCheck(source, target)) {
+        differences.push({
+          type: 'constraint_modified',
+          details: `Constraint '${target.name}': ${this.describeConstraint(source)} vs ${this.describeConstraint(target)}`,
+          sourceValue: source,
+          targetValue: target,
+        });
+      }
+    }
+
+    for (const target of targetConstraints.filter(constraint => !paired(constraint))) {
+      differences.push({
+        type: 'constraint_removed',
+        details: `Constraint '${target.name}' (${this.describeConstraint(target)}) exists in target but not in source`,
+        targetValue: target,
+      });
+    }
+
+    return differences;
+  }
+
+  private constraintSignature(constraint: ConstraintInfo): string {
+    if (constraint.type === 'CHECK') {
+      return `CHECK ${constraint.name}`.toLowerCase();
+    }
+    const references = constraint.type === 'FOREIGN KEY' ? `${constraint.referencedTable}(${(constraint.referencedColumns ?? []).join(',')})` : '';
+    return `${constraint.type} (${constraint.columns.join(',')}) ${references}`.toLowerCase();
+  }
+
+  /**
+   * Whether two checks have the same condition, ignoring the parentheses and quoting each engine adds. Checks whose
+   * condition is not reported count as the same.
+   */
+  private sameCheck(source: ConstraintInfo, target: ConstraintInfo): boolean {
+    const condition = (definition: string) => definition.replace(/[\s()`"[\]]/g, '').toLowerCase();
+    return !source.definition || !target.definition || condition(source.definition) === condition(target.definition);
+  }
+
+  private describeConstraint(constraint: ConstraintInfo): string {
+    if (constraint.type === 'CHECK') {
+      return `CHECK ${constraint.definition ?? ''}`.trim();
+    }
+    const references = constraint.type === 'FOREIGN KEY'
+      ? ` REFERENCES ${constraint.referencedTable} (${(constraint.referencedColumns ?? []).join(', ')})`
+      : '';
+    return `${constraint.type} (${constraint.columns.join(', ')})${references}`;
+  }
+
   /**
    * Compare column properties
    */
   private compareColumnProperties(sourceCol: any, targetCol: any): string[] {
     const differences: string[] = [];
+    const sourceType = ColumnTypes.normalize(sourceCol);
+    const targetType = ColumnTypes.normalize(targetCol);
 
-    if (sourceCol.type !== targetCol.type) {
-      differences.push(`type: ${sourceCol.type} vs ${targetCol.type}`);
+    if (sourceType.name !== targetType.name) {
+      differences.push(`type: ${sourceCol.dataType} vs ${targetCol.dataType}`);
     }
-    if (sourceCol.nullable !== targetCol.nullable) {
+    if (Boolean(sourceCol.nullable) !== Boolean(targetCol.nullable)) {
       differences.push(`nullable: ${sourceCol.nullable} vs ${targetCol.nullable}`);
     }
-    if (sourceCol.defaultValue !== targetCol.defaultValue) {
+    if ((sourceCol.defaultValue ?? null) !== (targetCol.defaultValue ?? null)) {
       differences.push(`default: ${sourceCol.defaultValue} vs ${targetCol.defaultValue}`);
     }
-    if (sourceCol.maxLength !== targetCol.maxLength) {
-      differences.push(`maxLength: ${sourceCol.maxLength} vs ${targetCol.maxLength}`);
+    if (sourceType.name === targetType.name && sourceType.length !== targetType.length) {
+      differences.push(`maxLength: ${sourceType.length} vs ${targetType.length}`);
+    }
+    if (sourceType.name === targetType.name && (sourceType.precision !== targetType.precision || sourceType.scale !== targetType.scale)) {
+      differences.push(`precision: ${sourceType.precision},${sourceType.scale} vs ${targetType.precision},${targetType.scale}`);
     }
 
     return differences;
   }
 
+  private matchesAny(patterns: string[] | undefined, names: string[]): boolean {
+    return (patterns ?? []).some(pattern => {
+      const source = pattern.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*');
+      const regex = new RegExp(`^${source}$`, 'i');
+      return names.some(name => regex.test(name));
+    });
+  }
+
+  private tableKey(name: string, schema?: string): string {
+    return schema ? `${schema}.${name}` : name;
+  }
+
   /**
-   * Generate migration from schema comparison
+   * Generate a migration that brings the target's schema in line with the source's, as DDL in the target's
+   * dialect. Every step carries the statements that undo it. Views, routines and triggers are created from their
+   * source definitions as written, so they are only migrated between databases of the same type.
    */
   async generateMigration(
     sourceConnection: string,
     targetConnection: string,
-    migrationName: string
+    migrationName: string,
+    options: SchemaComparisonOptions = {}
   ): Promise<Migration> {
-    const comparison = await this.compareSchemas(sourceConnection, targetConnection);
+    const sourceDb = this.connectionManager.getConnection(sourceConnection);
+    const targetDb = this.connectionManager.getConnection(targetConnection);
+    if (!sourceDb || !targetDb) {
+      throw new Error('One or both connections not found');
+    }
+    const dialect = this.migrationDialect(targetDb.getType());
+    const sameType = sourceDb.getType() === targetDb.getType();
+    const comparison = await this.compareSchemas(sourceConnection, targetConnection, options);
     
     if (comparison.identical) {
       throw new Error('Schemas are identical, no migration needed');
@@ -211,15 +542,24 @@ export class SchemaManagementService {
 
     const steps: MigrationStep[] = [];
     const migrationId = `migration_${Date.now()}`;
+    const state: MigrationState = {
+      tables: new Map(),
+      partial: new Set(),
+      objects: dialect === 'sqlite' ? this.visibleObjects(targetConnection, await targetDb.getSchemaObjects()) : [],
+    };
 
-    for (const diff of comparison.differences) {
-      const step = await this.createMigrationStep(diff, sourceConnection);
+    const differences = comparison.differences.filter(diff => sameType || !diff.type.startsWith('object_'));
+    for (const diff of this.orderDifferences(differences)) {
+      const current = diff.type.startsWith('table_') || diff.type.startsWith('object_')
+        ? null
+        : await this.migrationTable(targetConnection, targetDb, diff.tableName, diff.schema, state);
+      const step = this.createMigrationStep(diff, dialect, current, state);
       if (step) {
         steps.push(step);
       }
     }
 
-    return {
+    const migration: Migration = {
       id: migrationId,
       name: migrationName,
       description: `Migration from ${sourceConnection} to ${targetConnection}`,
@@ -228,87 +568,458 @@ export class SchemaManagementService {
       sourceConnection,
       targetConnection,
     };
+    this.migrations.push(migration);
+    this.saveMigrations();
+    return migration;
   }
 
   /**
-   * Create migration step from difference
+   * Write a generated migration as up/down files for a migration tool into `outputDir`. Existing files are never
+   * overwritten.
    */
-  private async createMigrationStep(diff: any, _sourceConnection: string): Promise<MigrationStep | null> {
+  exportMigrationFiles(migrationId: string, format: MigrationFileFormat, outputDir: string): string[] {
+    const migration = this.getMigration(migrationId);
+    const dialect = this.migrationDialect(this.getMigrationConnection(migration.targetConnection).getType());
+
+    // golang-migrate numbers migrations in sequence, continuing from the files already in the directory
+    const existing = existsSync(outputDir) ? readdirSync(outputDir) : [];
+    const sequence = Math.max(0, ...existing.map(file => /^(\d+)_.*\.up\.sql$/.exec(file)).map(match => (match ? Number(match[1]) : 0))) + 1;
+
+    const files = MigrationFileRenderer.render(migration, format, dialect, sequence)
+      .map(file => ({ ...file, path: join(outputDir, file.path) }));
+    const clash = files.find(file => existsSync(file.path));
+    if (clash) {
+      throw new Error(`Migration file already exists: ${clash.path}`);
+    }
+
+    for (const file of files) {
+      mkdirSync(dirname(file.path), { recursive: true });
+      writeFileSync(file.path, file.content, 'utf8');
+    }
+    return files.map(file => file.path);
+  }
+
+  /**
+   * Run a generated migration's steps against a connection and record it in the connection's pinemcp_migrations
+   * table. The steps run in one transaction where the engine's DDL is transactional.
+   */
+  async applyMigration(migrationId: string, connectionName: string, dryRun: boolean = false): Promise<MigrationRun> {
+    const migration = this.getMigration(migrationId);
+    // The steps were computed against the target's schema, so on any other connection they would make the wrong changes
+    if (connectionName !== migration.targetConnection) {
+      throw new Error(`Migration ${migrationId} was generated for ${migration.targetConnection}, not ${connectionName}; generate one for ${connectionName} instead`);
+    }
+    const db = this.getMigrationConnection(connectionName);
+    const dialect = this.migrationDialect(db.getType());
+
+    if ((await this.appliedMigrations(db)).some(applied => applied.id === migrationId)) {
+      throw new Error(`Migration ${migrationId} has already been applied to ${connectionName}`);
+    }
+
+    const steps = migration.steps.map(step => ({ id: step.id, description: step.description, statements: SqlClassifier.split(step.sql, dialect) }));
+    const run: MigrationRun = { migrationId, connection: connectionName, direction: 'apply', dryRun, transactional: db.supportsTransactionalDdl(), steps };
+    if (dryRun) {
+      return run;
+    }
+
+    await this.ensureMigrationsTable(db, dialect);
+    await this.runMigrationSteps(connectionName, db, run, () => db.safeExecuteQuery(
+      `INSERT INTO ${DdlBuilder.tableName(MIGRATIONS_TABLE, dialect)} (id, name, applied_at) VALUES (?, ?, ?)`,
+      [migration.id, migration.name, new Date().toISOString()]
+    ));
+    return run;
+  }
+
+  /**
+   * Undo an applied migration by running its steps' rollback SQL in reverse order. Only the most recently applied
+   * migration on the connection can be rolled back.
+   */
+  async rollbackMigration(migrationId: string, connectionName: string, dryRun: boolean = false): Promise<MigrationRun> {
+    const migration = this.getMigration(migrationId);
+    const db = this.getMigrationConnection(connectionName);
+    const dialect = this.migrationDialect(db.getType());
+
+    const applied = await this.appliedMigrations(db);
+    const index = applied.findIndex(entry => entry.id === migrationId);
+    if (index === -1) {
+      throw new Error(`Migration ${migrationId} has not been applied to ${connectionName}`);
+    }
+    const later = applied.slice(index + 1).map(entry => entry.id);
+    if (later.length > 0) {
+      throw new Error(`Migration ${migrationId} was applied before ${later.join(', ')}; roll those back first`);
+    }
+
+    const steps = [...migration.steps].reverse().map(step => ({
+      id: step.id,
+      description: `Undo: ${step.description}`,
+      statements: SqlClassifier.split(step.rollbackSql, dialect),
+    }));
+    const run: MigrationRun = { migrationId, connection: connectionName, direction: 'rollback', dryRun, transactional: db.supportsTransactionalDdl(), steps };
+    if (dryRun) {
+      return run;
+    }
+
+    await this.runMigrationSteps(connectionName, db, run, () => db.safeExecuteQuery(
+      `DELETE FROM ${DdlBuilder.tableName(MIGRATIONS_TABLE, dialect)} WHERE id = ?`,
+      [migration.id]
+    ));
+    return run;
+  }
+
+  /**
+   * Migrations applied to a connection, and the generated migrations for it that are still pending
+   */
+  async getMigrationStatus(connectionName: string): Promise<MigrationStatus> {
+    const db = this.getMigrationConnection(connectionName);
+    this.migrationDialect(db.getType());
+
+    const applied = await this.appliedMigrations(db);
+    const appliedIds = new Set(applied.map(entry => entry.id));
+    const pending = this.migrations
+      .filter(migration => migration.targetConnection === connectionName && !appliedIds.has(migration.id))
+      .map(migration => ({ id: migration.id, name: migration.name, timestamp: migration.timestamp, steps: migration.steps.length }));
+
+    return { connection: connectionName, applied, pending };
+  }
+
+  private getMigration(migrationId: string): Migration {
+    const migration = this.migrations.find(entry => entry.id === migrationId);
+    if (!migration) {
+      throw new Error(`Migration not found: ${migrationId}`);
+    }
+    return migration;
+  }
+
+  private getMigrationConnection(connectionName: string): BaseDatabaseAdapter {
+    const db = this.connectionManager.getConnection(connectionName);
+    if (!db) {
+      throw new Error('Connection not found');
+    }
+    return db;
+  }
+
+  private async appliedMigrations(db: BaseDatabaseAdapter): Promise<AppliedMigration[]> {
+    const dialect = this.migrationDialect(db.getType());
+    if (!(await this.migrationsTableExists(db, dialect))) {
+      return [];
+    }
+    const result = await db.safeExecuteQuery(`SELECT id, name, applied_at FROM ${DdlBuilder.tableName(MIGRATIONS_TABLE, dialect)} ORDER BY applied_at, id`);
+    return result.rows.map(row => ({ id: String(row.id), name: String(row.name), appliedAt: String(row.applied_at) }));
+  }
+
+  /**
+   * Look the tracking table up in the connection's own database; MySQL's getTableInfo searches information_schema
+   * unless it is given one.
+   */
+  private async migrationsTableExists(db: BaseDatabaseAdapter, dialect: SqlDialect): Promise<boolean> {
+    const schema = dialect === 'mysql'
+      ? (await db.safeExecuteQuery('SELECT DATABASE() AS name')).rows[0]?.name
+      : undefined;
+    return (await db.getTableInfo(MIGRATIONS_TABLE.name, typeof schema === 'string' ? schema : undefined)) !== null;
+  }
+
+  private async ensureMigrationsTable(db: BaseDatabaseAdapter, dialect: SqlDialect): Promise<void> {
+    if (!(await this.migrationsTableExists(db, dialect))) {
+      for (const statement of DdlBuilder.createTable(MIGRATIONS_TABLE, dialect)) {
+        await db.safeExecuteQuery(statement);
+      }
+    }
+  }
+
+  /**
+   * Run every statement of the run's steps, then `record` the outcome in the tracking table. Without transactional
+   * DDL the steps before a failing one stay applied, and the error names them.
+   */
+  private async runMigrationSteps(connectionName: string, db: BaseDatabaseAdapter, run: MigrationRun, record: () => Promise<unknown>): Promise<void> {
+    if (db.isInTransaction()) {
+      throw new Error('A transaction is open on this connection; commit or roll it back before running a migration');
+    }
+    for (const step of run.steps) {
+      step.statements.forEach(statement => this.accessPolicy.assertQueryAllowed(connectionName, db, statement));
+    }
+
+    // A SQLite rebuild drops the old table, which with foreign keys on deletes (ON DELETE CASCADE) or rejects the
+    // rows referencing it, so foreign keys are off during the steps and checked once before the commit
+    const sqlite = db.getType() === 'sqlite';
+    if (run.transactional) {
+      await db.beginTransaction(sqlite ? { disableForeignKeys: true } : undefined);
+    }
+    const completed: string[] = [];
+    try {
+      for (const step of run.steps) {
+        try {
+          for (const statement of step.statements) {
+            await db.safeExecuteQuery(statement);
+          }
+        } catch (error) {
+          const message = error instanceof Error ? error.message : String(error);
+          const partial = !run.transactional && completed.length > 0 ? `; already applied: ${completed.join(', ')}` : '';
+          throw new Error(`Step ${step.id} (${step.description}) failed: ${message}${partial}`);
+        }
+        completed.push(step.id);
+      }
+      if (sqlite) {
+        await this.assertForeignKeys(db);
+      }
+      await record();
+      if (run.transactional) {
+        await db.commitTransaction();
+      }
+    } catch (error) {
+      // The transaction may already be gone if the database rolled it back itself
+      if (run.transactional && db.isInTransaction()) {
+        await db.rollbackTransaction();
+      }
+      throw error;
+    }
+  }
+
+  private async assertForeignKeys(db: BaseDatabaseAdapter): Promise<void> {
+    const violations = await db.executeQuery('PRAGMA foreign_key_check');
+    if (violations.rows.length > 0) {
+      const tables = [...new Set(violations.rows.map(row => `${row.table} -> ${row.parent}`))];
+      throw new Error(`Migration leaves ${violations.rows.length} rows violating foreign keys (${tables.join(', ')})`);
+    }
+  }
+
+  /**
+   * Load generated migrations from file
+   */
+  private loadMigrations(): void {
+    try {
+      if (existsSync(this.migrationsPath)) {
+        this.migrations = JSON.parse(readFileSync(this.migrationsPath, 'utf8'));
+      }
+    } catch (error) {
+      console.warn('Failed to load migrations:', error);
+      this.migrations = [];
+    }
+  }
+
+  /**
+   * Save generated migrations to file
+   */
+  private saveMigrations(): void {
+    try {
+      const dataDir = join(process.cwd(), 'data');
+      if (!existsSync(dataDir)) {
+        mkdirSync(dataDir, { recursive: true });
+      }
+      writeFileSync(this.migrationsPath, JSON.stringify(this.migrations, null, 2));
+    } catch (error) {
+      console.warn('Failed to save migrations:', error);
+    }
+  }
+
+  private migrationDialect(type: string): SqlDialect {
+    const dialect = SqlClassifier.dialectFor(type);
+    if (!dialect || dialect === 'cassandra') {
+      throw new Error(`Migrations are not supported for ${type} databases`);
+    }
+    return dialect;
+  }
+
+  /**
+   * Steps run in STEP_ORDER; new tables are created after the tables their foreign keys reference. A modified
+   * constraint or object other than a sequence or enum is dropped and created again.
+   */
+  private orderDifferences(differences: SchemaDifference[]): SchemaDifference[] {
+    const order = (diff: SchemaDifference) => STEP_ORDER[diff.objectType ? `${diff.type}:${diff.objectType}` : diff.type] ?? 99;
+    const sorted = differences
+      .flatMap(diff => {
+        if (diff.type !== 'constraint_modified' && diff.type !== 'object_modified') return [diff];
+        // Sequences and enums are altered in place, since the columns using them block a drop
+        if (diff.objectType === 'sequence' || diff.objectType === 'enum') return [diff];
+        const { sourceValue, targetValue, ...rest } = diff;
+        const kind = diff.type === 'constraint_modified' ? 'constraint' : 'object';
+        return [{ ...rest, type: `${kind}_removed` as const, targetValue }, { ...rest, type: `${kind}_added` as const, sourceValue }];
+      })
+      .sort((a, b) => order(a) - order(b));
+    const added = sorted.filter(diff => diff.type === 'table_added');
+    const ordered: SchemaDifference[] = [];
+    while (added.length > 0) {
+      const pending = new Set(added.map(diff => diff.tableName));
+      const ready = added.findIndex(diff => !((diff.sourceValue as TableInfo | null)?.constraints ?? []).some(constraint =>
+        constraint.type === 'FOREIGN KEY' && constraint.referencedTable !== diff.tableName && pending.has(constraint.referencedTable ?? '')));
+      // A foreign key cycle cannot be ordered; create the rest as listed
+      ordered.push(...added.splice(ready === -1 ? 0 : ready, 1));
+    }
+    return sorted.map(diff => diff.type === 'table_added' ? ordered.shift()! : diff);
+  }
+
+  /**
+   * The target table as earlier steps left it, loaded from the target the first time it is needed.
+   */
+  private async migrationTable(
+    connectionName: string,
+    db: BaseDatabaseAdapter,
+    tableName: string,
+    schema: string | undefined,
+    state: MigrationState
+  ): Promise<TableInfo> {
+    const key = this.tableKey(tableName, schema);
+    const known = state.tables.get(key);
+    if (known) {
+      return known;
+    }
+    const info = await db.getTableInfo(tableName, schema);
+    if (!info) {
+      throw new Error(`Table not found on target: ${key}`);
+    }
+    const visible = this.accessPolicy.redactTableInfo(connectionName, info);
+    if (visible.columns.length !== info.columns.length) {
+      state.partial.add(key);
+    }
+    state.tables.set(key, visible);
+    return visible;
+  }
+
+  /**
+   * Create a migration step from a difference, against the table as the previous steps left it
+   */
+  private createMigrationStep(diff: SchemaDifference, dialect: SqlDialect, current: TableInfo | null, state: MigrationState): MigrationStep | null {
+    const key = this.tableKey(diff.tableName, diff.schema);
     const stepId = `step_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-    
+    const step = (type: MigrationStep['type'], sql: string[], rollbackSql: string[], description: string, columnName?: string): MigrationStep => ({
+      id: stepId,
+      type,
+      tableName: key,
+      ...(columnName ? { columnName } : {}),
+      sql: this.joinStatements(sql),
+      rollbackSql: this.joinStatements(rollbackSql),
+      description,
+    });
+
     switch (diff.type) {
-      case 'table_added':
-        return {
-          id: stepId,
-          type: 'create_table',
-          tableName: diff.tableName,
-          sql: `CREATE TABLE ${diff.tableName} (...);`,
-          rollbackSql: `DROP TABLE ${diff.tableName};`,
-          description: `Create table ${diff.tableName}`,
-        };
+      case 'table_added': {
+        // Created in the schema the comparison chose, or the target's default schema
+        const { schema: _schema, ...source } = diff.sourceValue as TableInfo;
+        const table: TableInfo = diff.schema ? { ...source, schema: diff.schema } : source;
+        state.tables.set(key, table);
+        return step('create_table', DdlBuilder.createTable(table, dialect), DdlBuilder.dropTable(table, dialect), `Create table ${key}`);
+      }
 
-      case 'table_removed':
-        return {
-          id: stepId,
-          type: 'drop_table',
-          tableName: diff.tableName,
-          sql: `DROP TABLE ${diff.tableName};`,
-          rollbackSql: `-- Rollback requires table recreation`,
-          description: `Drop table ${diff.tableName}`,
-        };
+      case 'table_removed': {
+        const table = diff.targetValue as TableInfo;
+        return step('drop_table', DdlBuilder.dropTable(table, dialect), DdlBuilder.createTable(table, dialect), `Drop table ${key}`);
+      }
 
-      case 'column_added':
-        return {
-          id: stepId,
-          type: 'add_column',
-          tableName: diff.tableName,
-          columnName: diff.columnName,
-          sql: `ALTER TABLE ${diff.tableName} ADD COLUMN ${diff.columnName} ...;`,
-          rollbackSql: `ALTER TABLE ${diff.tableName} DROP COLUMN ${diff.columnName};`,
-          description: `Add column ${diff.columnName} to ${diff.tableName}`,
-        };
+      case 'column_added': {
+        const column = diff.sourceValue as ColumnInfo;
+        const desired = { ...current!, columns: [...current!.columns, column] };
+        const description = `Add column ${column.name} to ${key}`;
+        // SQLite only adds columns that need no rebuild: not part of the key, and nullable or defaulted
+        if (dialect === 'sqlite' && (column.isPrimaryKey || (!column.nullable && column.defaultValue == null))) {
+          return step('add_column', ...this.rebuildStatements(current!, desired, state), `${description} (rebuilds the table)`, column.name);
+        }
+        state.tables.set(key, desired);
+        return step('add_column', DdlBuilder.addColumn(current!, column, dialect), DdlBuilder.dropColumn(current!, column, dialect), description, column.name);
+      }
 
-      case 'column_removed':
-        return {
-          id: stepId,
-          type: 'drop_column',
-          tableName: diff.tableName,
-          columnName: diff.columnName,
-          sql: `ALTER TABLE ${diff.tableName} DROP COLUMN ${diff.columnName};`,
-          rollbackSql: `-- Rollback requires column recreation`,
-          description: `Drop column ${diff.columnName} from ${diff.tableName}`,
+      case 'column_removed': {
+        const column = this.findColumn(current!, diff.columnName!);
+        if (!column) return null;
+        const desired = {
+          ...current!,
+          columns: current!.columns.filter(existing => existing !== column),
+          indexes: current!.indexes.filter(index => !index.columns.includes(column.name)),
         };
+        const description = `Drop column ${column.name} from ${key}`;
+        if (dialect === 'sqlite') {
+          return step('drop_column', ...this.rebuildStatements(current!, desired, state), `${description} (rebuilds the table)`, column.name);
+        }
+        state.tables.set(key, desired);
+        return step('drop_column', DdlBuilder.dropColumn(current!, column, dialect), DdlBuilder.addColumn(current!, column, dialect), description, column.name);
+      }
 
-      case 'column_modified':
-        return {
-          id: stepId,
-          type: 'modify_column',
-          tableName: diff.tableName,
-          columnName: diff.columnName,
-          sql: `ALTER TABLE ${diff.tableName} MODIFY COLUMN ${diff.columnName} ...;`,
-          rollbackSql: `-- Rollback requires column modification`,
-          description: `Modify column ${diff.columnName} in ${diff.tableName}`,
-        };
+      case 'column_modified': {
+        const from = this.findColumn(current!, diff.columnName!);
+        if (!from) return null;
+        const to: ColumnInfo = { ...(diff.sourceValue as ColumnInfo), name: from.name };
+        const desired = { ...current!, columns: current!.columns.map(existing => existing === from ? to : existing) };
+        const description = `Modify column ${from.name} in ${key} (${diff.details})`;
+        if (dialect === 'sqlite') {
+          return step('modify_column', ...this.rebuildStatements(current!, desired, state), `${description} (rebuilds the table)`, from.name);
+        }
+        const sql = DdlBuilder.alterColumn(current!, from, to, dialect);
+        if (sql.length === 0) return null;
+        state.tables.set(key, desired);
+        return step('modify_column', sql, DdlBuilder.alterColumn(current!, to, from, dialect), description, from.name);
+      }
+
+      case 'index_added': {
+        const index = diff.sourceValue as IndexInfo;
+        state.tables.set(key, { ...current!, indexes: [...current!.indexes, index] });
+        return step('add_index', [DdlBuilder.createIndex(current!, index, dialect)], [DdlBuilder.dropIndex(current!, index.name, dialect)], `Add index ${index.name} to ${key}`);
+      }
 
-      case 'index_added':
-        return {
-          id: stepId,
-          type: 'add_index',
-          tableName: diff.tableName,
-          sql: `CREATE INDEX ${diff.sourceValue?.name} ON ${diff.tableName} (...);`,
-          rollbackSql: `DROP INDEX ${diff.sourceValue?.name};`,
-          description: `Add index ${diff.sourceValue?.name} to ${diff.tableName}`,
+      case 'index_removed': {
+        const index = diff.targetValue as IndexInfo;
+        state.tables.set(key, { ...current!, indexes: current!.indexes.filter(existing => existing.name !== index.name) });
+        return step('drop_index', [DdlBuilder.dropIndex(current!, index.name, dialect)], [DdlBuilder.createIndex(current!, index, dialect)], `Drop index ${index.name} from ${key}`);
+      }
+
+      case 'constraint_added': {
+        const constraint = diff.sourceValue as ConstraintInfo;
+        const desired: TableInfo = {
+          ...current!,
+          columns: constraint.type === 'PRIMARY KEY'
+            ? current!.columns.map(column => ({ ...column, isPrimaryKey: constraint.columns.includes(column.name) }))
+            : current!.columns,
+          constraints: [...current!.constraints, constraint],
         };
+        const description = `Add constraint ${constraint.name} to ${key}`;
+        if (dialect === 'sqlite') {
+          return step('add_constraint', ...this.rebuildStatements(current!, desired, state), `${description} (rebuilds the table)`);
+        }
+        state.tables.set(key, desired);
+        return step('add_constraint', [DdlBuilder.addConstraint(current!, constraint, dialect)], [DdlBuilder.dropConstraint(current!, constraint, dialect)], description);
+      }
 
-      case 'index_removed':
-        return {
-          id: stepId,
-          type: 'drop_index',
-          tableName: diff.tableName,
-          sql: `DROP INDEX ${diff.targetValue?.name};`,
-          rollbackSql: `-- Rollback requires index recreation`,
-          description: `Drop index ${diff.targetValue?.name} from ${diff.tableName}`,
+      case 'constraint_removed': {
+        const removed = diff.targetValue as ConstraintInfo;
+        const constraint = current!.constraints.find(existing => existing.type === removed.type && existing.name === removed.name);
+        if (!constraint) return null;
+        const desired: TableInfo = {
+          ...current!,
+          // Without its constraint the key is gone, or a SQLite rebuild would declare it again from the columns
+          columns: constraint.type === 'PRIMARY KEY' ? current!.columns.map(column => ({ ...column, isPrimaryKey: false })) : current!.columns,
+          constraints: current!.constraints.filter(existing => existing !== constraint),
         };
+        const description = `Drop constraint ${constraint.name} from ${key}`;
+        if (dialect === 'sqlite') {
+          return step('drop_constraint', ...this.rebuildStatements(current!, desired, state), `${description} (rebuilds the table)`);
+        }
+        state.tables.set(key, desired);
+        return step('drop_constraint', [DdlBuilder.dropConstraint(current!, constraint, dialect)], [DdlBuilder.addConstraint(current!, constraint, dialect)], description);
+      }
+
+      case 'object_added': {
+        const object = diff.sourceValue as SchemaObject;
+        state.objects.push(object);
+        return step('create_object', [object.definition], [DdlBuilder.dropObject(object, dialect)], `Create ${object.type.replace('_', ' ')} ${this.tableKey(object.name, object.schema)}`);
+      }
+
+      case 'object_modified': {
+        const source = diff.sourceValue as SchemaObject;
+        const target = diff.targetValue as SchemaObject;
+        const description = `Alter ${target.type} ${this.tableKey(target.name, target.schema)}`;
+        const sql = DdlBuilder.alterObject(target, source, dialect);
+        if (!sql) {
+          const recreate = (from: SchemaObject, to: SchemaObject) => [DdlBuilder.dropObject(from, dialect), to.definition];
+          return step('alter_object', recreate(target, source), recreate(source, target), `${description} (drops and creates it again)`);
+        }
+        if (target.type === 'enum') {
+          return step('alter_object', sql, [], `${description} (PostgreSQL cannot remove enum values, so rolling back keeps them)`);
+        }
+        return step('alter_object', sql, DdlBuilder.alterObject(source, target, dialect)!, description);
+      }
+
+      case 'object_removed': {
+        const object = diff.targetValue as SchemaObject;
+        state.objects = state.objects.filter(existing => existing.type !== object.type || existing.name !== object.name);
+        return step('drop_object', [DdlBuilder.dropObject(object, dialect)], [object.definition], `Drop ${object.type.replace('_', ' ')} ${this.tableKey(object.name, object.schema)}`);
+      }
 
       default:
         return null;
@@ -316,7 +1027,40 @@ export class SchemaManagementService {
   }
 
   /**
-   * Generate DDL for a database connection
+   * SQLite changes a table's shape by rebuilding it; the rollback rebuilds it back. Dropping the table drops its
+   * triggers, and renaming the new table into place fails while a view or trigger names the missing table, so
+   * those are dropped first and created again afterwards.
+   */
+  private rebuildStatements(current: TableInfo, desired: TableInfo, state: MigrationState): [string[], string[]] {
+    const key = this.tableKey(current.name, current.schema);
+    if (state.partial.has(key)) {
+      throw new Error(`Table ${key} has columns hidden by the access policy, so it cannot be rebuilt`);
+    }
+    state.tables.set(key, desired);
+
+    const mention = new RegExp(`\\b${current.name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\b`, 'i');
+    const dependents = [...state.objects]
+      .filter(object => object.table === current.name || mention.test(object.definition))
+      .sort((a, b) => (a.type === 'view' ? 0 : 1) - (b.type === 'view' ? 0 : 1));
+    const drop = dependents.map(object => DdlBuilder.dropObject(object, 'sqlite'));
+    const create = dependents.map(object => object.definition);
+    return [
+      [...drop, ...DdlBuilder.rebuildTable(current, desired, 'sqlite'), ...create],
+      [...drop, ...DdlBuilder.rebuildTable(desired, current, 'sqlite'), ...create],
+    ];
+  }
+
+  private findColumn(table: TableInfo, name: string): ColumnInfo | undefined {
+    return table.columns.find(column => column.name === name);
+  }
+
+  private joinStatements(statements: string[]): string {
+    return statements.map(statement => `${statement};`).join('\n');
+  }
+
+  /**
+   * Generate DDL for a database connection: sequences and enums, then tables, then the routines, views and
+   * triggers the options include
    */
   async generateDDL(
     connectionName: string,
@@ -335,21 +1079,33 @@ export class SchemaManagementService {
       throw new Error('Connection not found');
     }
 
-    const tables = await db.getTables();
+    const tables = this.accessPolicy.filterTables(connectionName, await db.getTables()).filter(table => table.type === 'table');
+    const objects = this.visibleObjects(connectionName, await db.getSchemaObjects());
+    const ofType = (...types: SchemaObject['type'][]) => objects.filter(object => types.includes(object.type));
     const ddlStatements: string[] = [];
     const ddlObjects: any[] = [];
 
+    const before = ofType('sequence', 'enum');
+    const after = [
+      ...(options.includeFunctions ? ofType('function', 'procedure') : []),
+      ...(options.includeViews ? ofType('view', 'materialized_view') : []),
+      ...(options.includeTriggers ? ofType('trigger') : []),
+    ];
+
+    ddlStatements.push(...before.map(object => `${object.definition};`));
     for (const table of tables) {
-      const tableInfo = await db.getTableInfo(table.name);
+      const tableInfo = await this.getTableInfo(connectionName, db, table.name);
       if (tableInfo) {
         const tableDDL = this.generateTableDDL(table.name, tableInfo, options);
         ddlStatements.push(tableDDL);
         ddlObjects.push({ table: table.name, ddl: tableDDL, info: tableInfo });
       }
     }
+    ddlStatements.push(...after.map(object => `${object.definition};`));
 
+    const schemaObjects = [...before, ...after];
     if (options.format === 'json') {
-      return JSON.stringify({ connection: connectionName, tables: ddlObjects }, null, 2);
+      return JSON.stringify({ connection: connectionName, tables: ddlObjects, objects: schemaObjects }, null, 2);
     }
     if (options.format === 'yaml') {
       const toYaml = (obj: any, indent: string = ''): string => {
@@ -366,18 +1122,26 @@ export class SchemaManagementService {
         }
         return `${indent}${String(obj)}`;
       };
-      return toYaml({ connection: connectionName, tables: ddlObjects });
+      return toYaml({ connection: connectionName, tables: ddlObjects, objects: schemaObjects });
     }
     return ddlStatements.join('\n\n');
   }
 
+  /**
+   * Table info with the columns hidden by the connection's access policy removed
+   */
+  private async getTableInfo(connectionName: string, db: BaseDatabaseAdapter, tableName: string, schema?: string): Promise<TableInfo | null> {
+    const tableInfo = await db.getTableInfo(tableName, schema);
+    return tableInfo && this.accessPolicy.redactTableInfo(connectionName, tableInfo);
+  }
+
   /**
    * Generate DDL for a specific table
    */
   private generateTableDDL(tableName: string, tableInfo: any, options: DDLGenerationOptions): string {
     const columns = tableInfo.columns || [];
     const indexes = tableInfo.indexes || [];
-    const constraints = tableInfo.constraints || [];
+    const constraints = options.includeConstraints ? tableInfo.constraints || [] : [];
 
     let ddl = `CREATE TABLE ${tableName} (\n`;
     
@@ -422,11 +1186,11 @@ export class SchemaManagementService {
     }
 
     const issues: string[] = [];
-    const tables = await db.getTables();
+    const tables = this.accessPolicy.filterTables(connectionName, await db.getTables());
 
     for (const table of tables) {
       try {
-        const tableInfo = await db.getTableInfo(table.name);
+        const tableInfo = await this.getTableInfo(connectionName, db, table.name);
         if (!tableInfo) {
           issues.push(`Table '${table.name}' not found or inaccessible`);
           continue;
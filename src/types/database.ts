@@ -3,6 +3,17 @@ import { z } from 'zod';
 export const DatabaseType = z.enum(['postgresql', 'mysql', 'sqlite', 'redis', 'mongodb', 'cassandra', 'mssql', 'dynamodb']);
 export type DatabaseType = z.infer<typeof DatabaseType>;
 
+export const StatementCategory = z.enum(['read', 'write', 'ddl', 'admin']);
+export type StatementCategory = z.infer<typeof StatementCategory>;
+
+export const QueryPolicy = z.object({
+  allow: z.array(StatementCategory).optional(),
+  blockDestructive: z.boolean().optional(),
+  allowMultipleStatements: z.boolean().optional(),
+});
+
+export type QueryPolicy = z.infer<typeof QueryPolicy>;
+
 export const DatabaseConfig = z.object({
   type: DatabaseType,
   url: z.string().url().optional(),
@@ -23,6 +34,13 @@ export const DatabaseConfig = z.object({
   accessKeyId: z.string().optional(),
   secretAccessKey: z.string().optional(),
   endpoint: z.string().optional(),
+  readOnly: z.boolean().optional(),
+  queryPolicy: QueryPolicy.optional(),
+  maxRows: z.number().int().positive().optional(),
+  maxResponseBytes: z.number().int().positive().optional(),
+  cursorIdleTimeoutMs: z.number().int().positive().optional(),
+  transactionIdleTimeoutMs: z.number().int().positive().optional(),
+  timeoutMs: z.number().int().positive().optional(),
 });
 
 export type DatabaseConfig = z.infer<typeof DatabaseConfig>;
@@ -31,6 +49,113 @@ export interface QueryResult {
   rows: Record<string, unknown>[];
   rowCount: number;
   fields: FieldInfo[];
+  truncated?: boolean;
+  nextPage?: PageState;
+}
+
+/**
+ * Where the next page of a truncated result starts: an offset, relative to a driver paging marker when present.
+ */
+export interface PageState {
+  offset?: number;
+  pageState?: string;
+  exclusiveStartKey?: Record<string, unknown>;
+}
+
+export interface QueryOptions {
+  maxRows?: number | undefined;
+  page?: PageState | undefined;
+  /** Overrides the connection's timeoutMs for this call */
+  timeoutMs?: number | undefined;
+  /** Aborted when the MCP client cancels the request */
+  signal?: AbortSignal | undefined;
+}
+
+export type IsolationLevel = 'read_uncommitted' | 'read_committed' | 'repeatable_read' | 'serializable' | 'snapshot';
+
+export interface TransactionOptions {
+  /** Defaults to the database's own default isolation level */
+  isolationLevel?: IsolationLevel | undefined;
+  /** Reject writes for the duration of the transaction */
+  readOnly?: boolean | undefined;
+  /** SQLite: turn foreign key enforcement off until the transaction ends, for table rebuilds */
+  disableForeignKeys?: boolean | undefined;
+}
+
+export type SavepointAction = 'create' | 'rollback' | 'release';
+
+export type PlanNodeKind = 'full_scan' | 'index_scan' | 'join' | 'sort' | 'aggregate' | 'other';
+
+/** One operator of an execution plan, normalized across engines */
+export interface PlanNode {
+  /** The engine's own operator name, e.g. 'Seq Scan', 'SCAN', 'Clustered Index Seek', 'COLLSCAN' */
+  operation: string;
+  kind: PlanNodeKind;
+  relation?: string | undefined;
+  index?: string | undefined;
+  estimatedRows?: number | undefined;
+  /** Rows the operator reads, where the engine reports it separately from the rows it returns */
+  rowsExamined?: number | undefined;
+  actualRows?: number | undefined;
+  /** In the engine's own cost units */
+  cost?: number | undefined;
+  actualTimeMs?: number | undefined;
+  /** Filter, index condition or sort key */
+  detail?: string | undefined;
+  children: PlanNode[];
+}
+
+export interface ExecutionPlan {
+  database: DatabaseType;
+  /** Whether actual row counts and timings were collected */
+  analyzed: boolean;
+  root: PlanNode;
+  /** The plan as the engine returned it */
+  raw: unknown;
+}
+
+export interface ExplainOptions {
+  /** Collect actual row counts and timings, where the engine can (this executes the statement) */
+  analyze?: boolean | undefined;
+}
+
+export interface IndexRecommendation {
+  table: string;
+  schema?: string | undefined;
+  /** Equality and join columns first, then sort columns, then one range column */
+  columns: string[];
+  reason: string;
+  /** Recorded queries the index would serve */
+  occurrences: number;
+  /** Average and worst execution time of those queries; null when none of them were timed */
+  averageTimeMs: number | null;
+  maxTimeMs: number | null;
+  score: number;
+  statement: string;
+  exampleQueries: string[];
+}
+
+export interface RedundantIndex {
+  table: string;
+  schema?: string | undefined;
+  index: string;
+  columns: string[];
+  /** `duplicate` indexes have the same columns as another; `redundant` ones are a leading prefix of another */
+  kind: 'duplicate' | 'redundant';
+  coveredBy: string;
+  statement: string;
+}
+
+export interface CursorPage {
+  rows: Record<string, unknown>[];
+  fields: FieldInfo[];
+  done: boolean;
+}
+
+export interface QueryCursor {
+  /** Fetch up to that many more rows; `done` is set once the result is exhausted. */
+  read(_count: number): Promise<CursorPage>;
+  close(): Promise<void>;
 }
 
 export interface FieldInfo {
@@ -74,12 +199,34 @@ export interface ConstraintInfo {
   columns: string[];
   referencedTable?: string | undefined;
   referencedColumns?: string[] | undefined;
+  /** The condition of a CHECK constraint, as the engine reports it */
+  definition?: string | undefined;
 }
 
+export type SchemaObjectType = 'view' | 'materialized_view' | 'function' | 'procedure' | 'trigger' | 'sequence' | 'enum';
+
+/**
+ * A schema object other than a table, with the statement that creates it.
+ */
+export interface SchemaObject {
+  type: SchemaObjectType;
+  name: string;
+  schema?: string | undefined;
+  /** The CREATE statement, without a trailing semicolon */
+  definition: string;
+  /** The table a trigger fires on */
+  table?: string | undefined;
+  /** Argument types that tell overloaded PostgreSQL routines apart */
+  signature?: string | undefined;
+}
+
+/** Positional values for `?` (or native) placeholders, or named values for `:name` placeholders */
+export type QueryParameters = unknown[] | Record<string, unknown>;
+
 export interface DatabaseOperation {
   type: 'SELECT' | 'INSERT' | 'UPDATE' | 'DELETE' | 'CREATE' | 'DROP' | 'ALTER';
   query: string;
-  parameters?: unknown[];
+  parameters?: QueryParameters;
 }
 
 export interface DatabaseStats {
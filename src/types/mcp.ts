@@ -1,34 +1,55 @@
 import { z } from 'zod';
+import { DatabaseConfig } from './database.js';
+
+export const AccessRule = z.object({
+  allow: z.array(z.string()).optional(),
+  deny: z.array(z.string()).optional(),
+});
+
+export type AccessRule = z.infer<typeof AccessRule>;
+
+export const AccessPolicy = z.object({
+  tools: AccessRule.optional(),
+  tables: AccessRule.optional(),
+  deniedColumns: z.array(z.string()).optional(),
+});
+
+export type AccessPolicy = z.infer<typeof AccessPolicy>;
+
+export const MCPDatabaseConfig = DatabaseConfig.extend({
+  name: z.string(),
+  url: z.string().optional(),
+  accessPolicy: AccessPolicy.optional(),
+});
+
+export type MCPDatabaseConfig = z.infer<typeof MCPDatabaseConfig>;
 
 export const MCPConfig = z.object({
-  databases: z.array(z.object({
-    name: z.string(),
-    type: z.enum(['postgresql', 'mysql', 'sqlite', 'redis', 'mongodb', 'cassandra', 'mssql', 'dynamodb']),
-    url: z.string().optional(),
-    host: z.string().optional(),
-    port: z.number().optional(),
-    database: z.string().optional(),
-    username: z.string().optional(),
-    password: z.string().optional(),
-    ssl: z.boolean().optional(),
-    filename: z.string().optional(),
-    db: z.number().optional(),
-    authSource: z.string().optional(),
-    keyspace: z.string().optional(),
-    datacenter: z.string().optional(),
-  })),
+  databases: z.array(MCPDatabaseConfig).default([]),
+  readOnly: z.boolean().default(false),
   server: z.object({
     name: z.string().default('PineMCP'),
     version: z.string().default('2.0.0'),
     description: z.string().default('A professional MCP server supporting multiple database types'),
-  }),
+    transport: z.enum(['stdio', 'http', 'sse']).default('stdio'),
+    host: z.string().default('127.0.0.1'),
+    port: z.number().int().positive().default(3000),
+    authToken: z.string().optional(),
+    /** Close a Streamable HTTP session after this long without a request */
+    sessionIdleTimeoutMs: z.number().int().positive().optional(),
+    /** Environment variables and secret directories that `add_connection` configs may reference */
+    connectionReferences: z.array(z.string()).default([]),
+  }).default({}),
   logging: z.object({
     level: z.enum(['error', 'warn', 'info', 'debug']).default('info'),
     format: z.enum(['json', 'text']).default('text'),
-  }),
+  }).default({}),
 });
 
 export type MCPConfig = z.infer<typeof MCPConfig>;
+export type MCPConfigInput = z.input<typeof MCPConfig>;
+
+export type ConnectionSource = 'config' | 'discovered' | 'environment' | 'runtime';
 
 export interface MCPTool {
   name: string;
@@ -45,6 +66,8 @@ export interface MCPResource {
 
 export interface MCPPrompt {
   name: string;
+  /** Display name shown in prompt pickers */
+  title?: string | undefined;
   description: string;
   arguments?: Array<{
     name: string;
@@ -3,9 +3,15 @@ import { z } from 'zod';
 export const SchemaComparisonResult = z.object({
   identical: z.boolean(),
   differences: z.array(z.object({
-    type: z.enum(['table_added', 'table_removed', 'table_modified', 'column_added', 'column_removed', 'column_modified', 'index_added', 'index_removed', 'index_modified', 'constraint_added', 'constraint_removed', 'constraint_modified']),
+    type: z.enum(['table_added', 'table_removed', 'table_modified', 'column_added', 'column_removed', 'column_modified', 'index_added', 'index_removed', 'index_modified', 'constraint_added', 'constraint_removed', 'constraint_modified', 'object_added', 'object_removed', 'object_modified']),
+    /** For object differences, the trigger's table or the object's own name */
     tableName: z.string(),
+    /** The table's schema on the target; for table_added, where the migration creates it */
+    schema: z.string().optional(),
     columnName: z.string().optional(),
+    /** View, routine, trigger, sequence or enum differences: which object */
+    objectType: z.enum(['view', 'materialized_view', 'function', 'procedure', 'trigger', 'sequence', 'enum']).optional(),
+    objectName: z.string().optional(),
     details: z.string(),
     sourceValue: z.any().optional(),
     targetValue: z.any().optional(),
@@ -17,14 +23,33 @@ export const SchemaComparisonResult = z.object({
     columnsAdded: z.number(),
     columnsRemoved: z.number(),
     columnsModified: z.number(),
+    constraintsAdded: z.number(),
+    constraintsRemoved: z.number(),
+    constraintsModified: z.number(),
+    objectsAdded: z.number(),
+    objectsRemoved: z.number(),
+    objectsModified: z.number(),
   }),
 });
 
 export type SchemaComparisonResult = z.infer<typeof SchemaComparisonResult>;
 
+export const SchemaComparisonOptions = z.object({
+  /** Source schema name -> target schema name; when set, only the mapped schemas are compared */
+  schemaMap: z.record(z.string()).optional(),
+  /** Patterns (`*` wildcard) matched against `table` or `schema.table`; also applied to views, routines and other objects */
+  ignoreTables: z.array(z.string()).optional(),
+  /** Patterns matched against `column`, `table.column` or `schema.table.column` */
+  ignoreColumns: z.array(z.string()).optional(),
+  /** Patterns matched against index names */
+  ignoreIndexes: z.array(z.string()).optional(),
+});
+
+export type SchemaComparisonOptions = z.infer<typeof SchemaComparisonOptions>;
+
 export const MigrationStep = z.object({
   id: z.string(),
-  type: z.enum(['create_table', 'drop_table', 'add_column', 'drop_column', 'modify_column', 'add_index', 'drop_index', 'add_constraint', 'drop_constraint']),
+  type: z.enum(['create_table', 'drop_table', 'add_column', 'drop_column', 'modify_column', 'add_index', 'drop_index', 'add_constraint', 'drop_constraint', 'create_object', 'alter_object', 'drop_object']),
   tableName: z.string(),
   columnName: z.string().optional(),
   sql: z.string(),
@@ -82,8 +107,12 @@ export type ImportOptions = z.infer<typeof ImportOptions>;
 
 export const QueryAnalysisResult = z.object({
   query: z.string(),
-  executionTime: z.number(),
-  rowsAffected: z.number(),
+  connection: z.string().optional(),
+  /** Whether the query ran: plan only, executed, or executed inside a transaction that was rolled back */
+  execution: z.enum(['plan_only', 'executed', 'rolled_back']).optional(),
+  /** Null when the query was not executed */
+  executionTime: z.number().nullable(),
+  rowsAffected: z.number().nullable(),
   executionPlan: z.any().optional(),
   performance: z.object({
     slow: z.boolean(),
@@ -100,21 +129,35 @@ export const QueryAnalysisResult = z.object({
 
 export type QueryAnalysisResult = z.infer<typeof QueryAnalysisResult>;
 
+export const TemplateParameterType = z.enum(['string', 'int', 'number', 'boolean', 'date', 'array', 'identifier']);
+export type TemplateParameterType = z.infer<typeof TemplateParameterType>;
+
+export const TemplateParameter = z.object({
+  name: z.string(),
+  type: TemplateParameterType,
+  required: z.boolean(),
+  defaultValue: z.any().optional(),
+  /** Whitelist for `identifier` parameters, which are spliced into the query rather than bound */
+  allowedValues: z.array(z.string()).optional(),
+});
+
+export type TemplateParameter = z.infer<typeof TemplateParameter>;
+
 export const QueryTemplate = z.object({
   id: z.string(),
   name: z.string(),
   description: z.string(),
   query: z.string(),
-  parameters: z.array(z.object({
-    name: z.string(),
-    type: z.string(),
-    required: z.boolean(),
-    defaultValue: z.any().optional(),
-  })),
+  parameters: z.array(TemplateParameter),
   tags: z.array(z.string()),
   connectionType: z.string(),
+  /** Incremented on every update; each version is kept in the template's history */
+  version: z.number().int().positive(),
   createdAt: z.string(),
   updatedAt: z.string(),
 });
 
 export type QueryTemplate = z.infer<typeof QueryTemplate>;
+
+export const TemplateVersion = QueryTemplate.omit({ id: true, createdAt: true });
+export type TemplateVersion = z.infer<typeof TemplateVersion>;